@@ -11,6 +11,10 @@ import Games from "./pages/Games";
 import ImageGenerator from "./pages/ImageGenerator";
 import VoiceChat from "./pages/VoiceChat";
 import ImageLibrary from "./pages/ImageLibrary";
+import Knowledge from "./pages/Knowledge";
+import SharedChat from "./pages/SharedChat";
+import SharedArtifact from "./pages/SharedArtifact";
+import FeedbackDashboard from "./pages/FeedbackDashboard";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -30,6 +34,10 @@ const App = () => (
               <Route path="/image-generator" element={<ImageGenerator />} />
               <Route path="/voice-chat" element={<VoiceChat />} />
               <Route path="/image-library" element={<ImageLibrary />} />
+              <Route path="/knowledge" element={<Knowledge />} />
+              <Route path="/share/:slug" element={<SharedChat />} />
+              <Route path="/artifact/:slug" element={<SharedArtifact />} />
+              <Route path="/admin/feedback" element={<FeedbackDashboard />} />
               <Route path="*" element={<NotFound />} />
             </Routes>
           </BrowserRouter>
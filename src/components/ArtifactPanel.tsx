@@ -0,0 +1,206 @@
+import { useState } from 'react';
+import { ChevronLeft, ChevronRight, Copy, Download, Link2, Loader2, Share2, Trash2, X } from 'lucide-react';
+import { ArtifactPreview } from '@/components/ArtifactPreview';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useLanguage } from '@/hooks/useLanguage';
+import { useToast } from '@/hooks/use-toast';
+import { artifactShareUrl, useArtifactShares } from '@/hooks/useShares';
+import { ARTIFACT_MIME_TYPES, artifactFileName, type Artifact } from '@/lib/artifacts';
+import { downloadFile } from '@/lib/chatExport';
+import { cn } from '@/lib/utils';
+
+export interface ArtifactSelection {
+  id: string;
+  // Index into the artifact's versions
+  version: number;
+}
+
+interface ArtifactPanelProps {
+  chatId: string;
+  artifacts: Artifact[];
+  selection: ArtifactSelection;
+  onSelect: (selection: ArtifactSelection) => void;
+  onClose: () => void;
+}
+
+// Side panel next to the messages: previews the chat's artifacts, steps through
+// their versions and downloads or shares the one shown
+export function ArtifactPanel({ chatId, artifacts, selection, onSelect, onClose }: ArtifactPanelProps) {
+  const { t } = useLanguage();
+  const { toast } = useToast();
+  const { shares, createShare, revokeShare } = useArtifactShares(chatId);
+  const [view, setView] = useState<'preview' | 'code'>('preview');
+
+  const artifact = artifacts.find(a => a.id === selection.id) ?? artifacts[artifacts.length - 1];
+  if (!artifact) return null;
+
+  const versionIndex = Math.min(selection.version, artifact.versions.length - 1);
+  const version = artifact.versions[versionIndex];
+  const title = (a: Artifact) => a.title ?? t.artifacts[a.kind];
+
+  const versionMessageIds = new Set(artifact.versions.map(v => v.messageId));
+  const artifactShares = shares.filter(s => versionMessageIds.has(s.message_id) && s.kind === artifact.kind);
+
+  const copyLink = async (slug: string) => {
+    try {
+      await navigator.clipboard.writeText(artifactShareUrl(slug));
+      toast({ title: t.share.copied });
+    } catch (error) {
+      console.error('Copy artifact link error:', error);
+    }
+  };
+
+  const handleShare = async () => {
+    try {
+      const slug = await createShare.mutateAsync({
+        messageId: version.messageId,
+        kind: artifact.kind,
+        title: artifact.title,
+        content: version.content,
+      });
+      await copyLink(slug);
+    } catch (error) {
+      console.error('Share artifact error:', error);
+      toast({ title: t.share.failed, variant: 'destructive' });
+    }
+  };
+
+  const handleRevoke = async (shareId: string) => {
+    try {
+      await revokeShare.mutateAsync(shareId);
+      toast({ title: t.share.revoked });
+    } catch (error) {
+      console.error('Revoke artifact link error:', error);
+      toast({ title: t.auth.somethingWrong, variant: 'destructive' });
+    }
+  };
+
+  const tabClass = (active: boolean) => cn(
+    'px-2 py-1 rounded text-xs',
+    active ? 'bg-muted text-foreground' : 'text-muted-foreground hover:text-foreground'
+  );
+
+  return (
+    <aside className="fixed inset-0 z-40 md:static md:z-10 md:w-[45%] md:max-w-3xl flex flex-col bg-background md:bg-background/80 md:backdrop-blur-sm border-l border-border/50">
+      <div className="flex items-center gap-2 p-3 border-b border-border/50">
+        {artifacts.length > 1 ? (
+          <Select
+            value={artifact.id}
+            onValueChange={(id) => {
+              const next = artifacts.find(a => a.id === id);
+              if (next) onSelect({ id, version: next.versions.length - 1 });
+            }}
+          >
+            <SelectTrigger className="h-8 flex-1 min-w-0">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {artifacts.map(a => (
+                <SelectItem key={a.id} value={a.id}>{title(a)}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        ) : (
+          <h2 className="flex-1 min-w-0 font-semibold truncate">{title(artifact)}</h2>
+        )}
+        <Button size="icon" variant="ghost" onClick={onClose} title={t.artifacts.close} className="h-8 w-8 shrink-0">
+          <X className="w-4 h-4" />
+        </Button>
+      </div>
+
+      <div className="flex items-center justify-between gap-2 px-3 py-2 border-b border-border/50">
+        <div className="flex items-center gap-1">
+          <button onClick={() => setView('preview')} className={tabClass(view === 'preview')}>{t.artifacts.preview}</button>
+          <button onClick={() => setView('code')} className={tabClass(view === 'code')}>{t.artifacts.code}</button>
+        </div>
+
+        <div className="flex items-center gap-1">
+          {artifact.versions.length > 1 && (
+            <div className="flex items-center text-xs text-muted-foreground mr-1">
+              <button
+                onClick={() => onSelect({ id: artifact.id, version: versionIndex - 1 })}
+                disabled={versionIndex === 0}
+                title={t.artifacts.previousVersion}
+                className="p-1 rounded hover:text-foreground disabled:opacity-40"
+              >
+                <ChevronLeft className="w-3.5 h-3.5" />
+              </button>
+              <span>{t.artifacts.version} {versionIndex + 1}/{artifact.versions.length}</span>
+              <button
+                onClick={() => onSelect({ id: artifact.id, version: versionIndex + 1 })}
+                disabled={versionIndex === artifact.versions.length - 1}
+                title={t.artifacts.nextVersion}
+                className="p-1 rounded hover:text-foreground disabled:opacity-40"
+              >
+                <ChevronRight className="w-3.5 h-3.5" />
+              </button>
+            </div>
+          )}
+
+          <Button
+            size="icon"
+            variant="ghost"
+            onClick={() => downloadFile(artifactFileName(artifact), version.content, ARTIFACT_MIME_TYPES[artifact.kind])}
+            title={t.artifacts.download}
+            className="h-7 w-7"
+          >
+            <Download className="w-3.5 h-3.5" />
+          </Button>
+
+          <Popover>
+            <PopoverTrigger asChild>
+              <Button size="icon" variant="ghost" title={t.artifacts.share} className="h-7 w-7">
+                <Share2 className="w-3.5 h-3.5" />
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent align="end" className="w-80 space-y-3">
+              <p className="text-xs text-muted-foreground">{t.artifacts.shareDescription}</p>
+              <Button onClick={handleShare} disabled={createShare.isPending} variant="gradient" size="sm" className="w-full">
+                {createShare.isPending ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Link2 className="w-4 h-4 mr-2" />}
+                {t.share.create}
+              </Button>
+              {artifactShares.length > 0 && (
+                <div className="space-y-2">
+                  <p className="text-xs font-medium">{t.share.activeLinks}</p>
+                  {artifactShares.map(share => (
+                    <div key={share.id} className="flex items-center gap-1">
+                      <Input value={artifactShareUrl(share.slug)} readOnly onFocus={(e) => e.target.select()} className="h-7 text-xs" />
+                      <Button size="icon" variant="ghost" onClick={() => copyLink(share.slug)} title={t.share.copy} className="h-7 w-7 shrink-0">
+                        <Copy className="w-3.5 h-3.5" />
+                      </Button>
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        onClick={() => handleRevoke(share.id)}
+                        disabled={revokeShare.isPending}
+                        title={t.share.revoke}
+                        className="h-7 w-7 shrink-0 text-destructive hover:text-destructive"
+                      >
+                        <Trash2 className="w-3.5 h-3.5" />
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </PopoverContent>
+          </Popover>
+        </div>
+      </div>
+
+      {view === 'preview' ? (
+        <ArtifactPreview kind={artifact.kind} content={version.content} className="flex-1 min-h-0" />
+      ) : (
+        <pre className="flex-1 min-h-0 overflow-auto scrollbar-thin p-3 font-mono text-xs whitespace-pre">{version.content}</pre>
+      )}
+    </aside>
+  );
+}
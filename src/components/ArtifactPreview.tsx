@@ -0,0 +1,41 @@
+import { useMemo } from 'react';
+import { MermaidDiagram } from '@/components/MermaidDiagram';
+import { artifactDocument, type ArtifactKind } from '@/lib/artifacts';
+import { cn } from '@/lib/utils';
+
+interface ArtifactPreviewProps {
+  kind: ArtifactKind;
+  content: string;
+  className?: string;
+}
+
+// Renders an artifact in a sandboxed frame: scripts run, but without
+// allow-same-origin the frame is an opaque origin and can't reach the app's
+// storage, cookies or Supabase session
+export function ArtifactPreview({ kind, content, className }: ArtifactPreviewProps) {
+  const srcDoc = useMemo(
+    () => (kind === 'mermaid' ? null : artifactDocument(kind, content)),
+    [kind, content]
+  );
+
+  if (srcDoc === null) {
+    return (
+      <div className={cn('overflow-auto p-4', className)}>
+        <MermaidDiagram
+          source={content}
+          fallback={<pre className="font-mono text-xs whitespace-pre-wrap">{content}</pre>}
+        />
+      </div>
+    );
+  }
+
+  return (
+    <iframe
+      srcDoc={srcDoc}
+      sandbox="allow-scripts allow-forms allow-modals"
+      referrerPolicy="no-referrer"
+      title="artifact"
+      className={cn('w-full border-0 bg-white', className)}
+    />
+  );
+}
@@ -0,0 +1,165 @@
+import { useEffect, useState, type ReactNode } from 'react';
+import { Bot, Crown, Loader2, Lock, SlidersHorizontal } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Slider } from '@/components/ui/slider';
+import { Textarea } from '@/components/ui/textarea';
+import { useChats, type Chat } from '@/hooks/useChats';
+import { useModels } from '@/hooks/useModels';
+import { useProfile } from '@/hooks/useProfile';
+import { useLanguage } from '@/hooks/useLanguage';
+import { useToast } from '@/hooks/use-toast';
+
+// Stands in for "no override" in the model select, which can't hold null
+const PROFILE_MODEL = 'profile';
+const DEFAULT_TEMPERATURE = 0.7;
+const MAX_INSTRUCTIONS_LENGTH = 4000;
+
+interface ChatHeaderProps {
+  chat: Chat;
+  // Extra actions on the right, e.g. the artifacts button
+  children?: ReactNode;
+}
+
+// Title bar of an open chat with the chat's own model, temperature and instructions
+export function ChatHeader({ chat, children }: ChatHeaderProps) {
+  const { t } = useLanguage();
+  const { toast } = useToast();
+  const { models } = useModels();
+  const { profile } = useProfile();
+  const { updateChatSettings } = useChats();
+
+  const [open, setOpen] = useState(false);
+  const [model, setModel] = useState(chat.model ?? PROFILE_MODEL);
+  const [temperature, setTemperature] = useState<number | null>(chat.temperature);
+  const [instructions, setInstructions] = useState(chat.custom_instructions ?? '');
+
+  // Start from the saved settings every time the popover opens
+  useEffect(() => {
+    if (!open) return;
+    setModel(chat.model ?? PROFILE_MODEL);
+    setTemperature(chat.temperature);
+    setInstructions(chat.custom_instructions ?? '');
+  }, [open, chat.model, chat.temperature, chat.custom_instructions]);
+
+  const modelName = (id: string | null | undefined) => models.find(m => m.id === id)?.display_name ?? id ?? '';
+  const activeModel = models.find(m => m.id === (chat.model ?? profile?.selected_model));
+  // Plus models without Plus; the chat function answers with the default model instead
+  const isLocked = (id: string | null | undefined) =>
+    models.find(m => m.id === id)?.tier === 'plus' && !profile?.is_plus;
+  const hasOverrides = chat.model !== null || chat.temperature !== null || !!chat.custom_instructions;
+
+  const handleSave = async () => {
+    try {
+      await updateChatSettings.mutateAsync({
+        chatId: chat.id,
+        settings: {
+          model: model === PROFILE_MODEL ? null : model,
+          temperature,
+          custom_instructions: instructions.trim() || null,
+        },
+      });
+      setOpen(false);
+      toast({ title: t.chatSettings.saved });
+    } catch (error) {
+      console.error('Chat settings error:', error);
+      toast({ title: t.auth.somethingWrong, variant: 'destructive' });
+    }
+  };
+
+  return (
+    <header className="flex items-center gap-2 pl-16 pr-3 md:pl-6 py-2 border-b border-border/50 bg-background/60 backdrop-blur-sm">
+      <h1 className="flex-1 min-w-0 font-semibold truncate">{chat.title}</h1>
+
+      <Popover open={open} onOpenChange={setOpen}>
+        <PopoverTrigger asChild>
+          <Button size="sm" variant="ghost" className="h-8 gap-1.5 max-w-[50%]" title={t.chatSettings.title}>
+            <Bot className="w-4 h-4 shrink-0 text-primary" />
+            <span className="font-mono text-xs truncate">{activeModel?.display_name ?? modelName(chat.model)}</span>
+            <SlidersHorizontal className={`w-3.5 h-3.5 shrink-0 ${hasOverrides ? 'text-primary' : 'text-muted-foreground'}`} />
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent align="end" className="w-80 space-y-4">
+          <div>
+            <p className="font-semibold text-sm">{t.chatSettings.title}</p>
+            <p className="text-xs text-muted-foreground">{t.chatSettings.description}</p>
+          </div>
+
+          <div className="space-y-1.5">
+            <label className="text-xs font-medium">{t.chatSettings.model}</label>
+            <Select value={model} onValueChange={setModel}>
+              <SelectTrigger className="h-8">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={PROFILE_MODEL}>
+                  {t.chatSettings.profileDefault} ({modelName(profile?.selected_model)})
+                </SelectItem>
+                {models.map(m => (
+                  <SelectItem key={m.id} value={m.id} disabled={isLocked(m.id)}>
+                    <span className="flex items-center gap-1.5 font-mono">
+                      {m.display_name}
+                      {m.tier === 'plus' && (isLocked(m.id)
+                        ? <Lock className="w-3 h-3" />
+                        : <Crown className="w-3 h-3 text-secondary" />)}
+                    </span>
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {model !== PROFILE_MODEL && isLocked(model) && (
+              <p className="text-xs text-destructive">{t.chatSettings.modelLocked}</p>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <label className="text-xs font-medium">{t.chatSettings.temperature}</label>
+              <span className="flex items-center gap-2 text-xs text-muted-foreground">
+                {temperature === null ? t.chatSettings.defaultTemperature : temperature.toFixed(1)}
+                {temperature !== null && (
+                  <button onClick={() => setTemperature(null)} className="underline hover:text-foreground">
+                    {t.chatSettings.reset}
+                  </button>
+                )}
+              </span>
+            </div>
+            <Slider
+              min={0}
+              max={2}
+              step={0.1}
+              value={[temperature ?? DEFAULT_TEMPERATURE]}
+              onValueChange={([value]) => setTemperature(value)}
+            />
+            <p className="text-xs text-muted-foreground">{t.chatSettings.temperatureHint}</p>
+          </div>
+
+          <div className="space-y-1.5">
+            <label className="text-xs font-medium">{t.chatSettings.instructions}</label>
+            <Textarea
+              value={instructions}
+              onChange={(e) => setInstructions(e.target.value)}
+              placeholder={t.chatSettings.instructionsPlaceholder}
+              maxLength={MAX_INSTRUCTIONS_LENGTH}
+              className="min-h-[96px] resize-none text-sm"
+            />
+          </div>
+
+          <Button onClick={handleSave} disabled={updateChatSettings.isPending} variant="gradient" size="sm" className="w-full">
+            {updateChatSettings.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            {t.chatSettings.save}
+          </Button>
+        </PopoverContent>
+      </Popover>
+
+      {children}
+    </header>
+  );
+}
@@ -1,31 +1,60 @@
-import { useState, useRef } from 'react';
-import { Send, Image, X, Loader2 } from 'lucide-react';
+import { useState, useRef, useMemo, useEffect } from 'react';
+import { Send, Paperclip, X, Loader2, Square, FileText, BookOpen, Columns2 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { useLanguage } from '@/hooks/useLanguage';
 import { cn } from '@/lib/utils';
+import { ACCEPTED_ATTACHMENTS, MAX_ATTACHMENTS_PER_MESSAGE } from '@/lib/attachments';
 
 interface ChatInputProps {
-  onSend: (message: string, imageUrl?: string) => void;
+  onSend: (message: string, files: File[]) => void;
+  // Stops the reply being generated; shown in place of send while loading
+  onStop?: () => void;
+  // Knowledge base toggle for the current chat; hidden without a handler
+  knowledgeEnabled?: boolean;
+  onToggleKnowledge?: () => void;
+  // Compare mode toggle (the prompt goes to several models); hidden without a handler
+  compareEnabled?: boolean;
+  onToggleCompare?: () => void;
   isLoading: boolean;
   disabled?: boolean;
 }
 
-export function ChatInput({ onSend, isLoading, disabled }: ChatInputProps) {
+export function ChatInput({
+  onSend,
+  onStop,
+  knowledgeEnabled,
+  onToggleKnowledge,
+  compareEnabled,
+  onToggleCompare,
+  isLoading,
+  disabled,
+}: ChatInputProps) {
   const [message, setMessage] = useState('');
-  const [imagePreview, setImagePreview] = useState<string | null>(null);
+  const [files, setFiles] = useState<File[]>([]);
+  // Thumbnails for image files; documents are shown by name
+  const previews = useMemo(
+    () => files.map(file => (file.type.startsWith('image/') ? URL.createObjectURL(file) : null)),
+    [files]
+  );
   const fileInputRef = useRef<HTMLInputElement>(null);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
   const { t } = useLanguage();
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    if ((!message.trim() && !imagePreview) || isLoading || disabled) return;
+    if ((!message.trim() && files.length === 0) || isLoading || disabled) return;
     
-    onSend(message.trim(), imagePreview || undefined);
+    onSend(message.trim(), files);
     setMessage('');
-    setImagePreview(null);
+    setFiles([]);
   };
 
+  useEffect(() => {
+    return () => {
+      previews.forEach(url => url && URL.revokeObjectURL(url));
+    };
+  }, [previews]);
+
   const handleKeyDown = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
@@ -33,15 +62,14 @@ export function ChatInput({ onSend, isLoading, disabled }: ChatInputProps) {
     }
   };
 
-  const handleImageSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file) {
-      const reader = new FileReader();
-      reader.onloadend = () => {
-        setImagePreview(reader.result as string);
-      };
-      reader.readAsDataURL(file);
-    }
+  const handleFilesSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = Array.from(e.target.files ?? []);
+    setFiles(prev => [...prev, ...selected].slice(0, MAX_ATTACHMENTS_PER_MESSAGE));
+    e.target.value = '';
+  };
+
+  const removeFile = (index: number) => {
+    setFiles(prev => prev.filter((_, i) => i !== index));
   };
 
   const adjustTextareaHeight = () => {
@@ -55,17 +83,29 @@ export function ChatInput({ onSend, isLoading, disabled }: ChatInputProps) {
   return (
     <form onSubmit={handleSubmit} className="p-4">
       <div className="glass-card p-2 flex flex-col gap-2">
-        {/* Image preview */}
-        {imagePreview && (
-          <div className="relative inline-block">
-            <img src={imagePreview} alt="Preview" className="h-20 rounded-lg" />
-            <button
-              type="button"
-              onClick={() => setImagePreview(null)}
-              className="absolute -top-2 -right-2 w-6 h-6 bg-destructive rounded-full flex items-center justify-center"
-            >
-              <X className="w-4 h-4" />
-            </button>
+        {/* Attachment previews */}
+        {files.length > 0 && (
+          <div className="flex flex-wrap gap-3 pt-2">
+            {files.map((file, index) => (
+              <div key={`${file.name}-${index}`} className="relative">
+                {previews[index] ? (
+                  <img src={previews[index]!} alt={file.name} className="h-20 rounded-lg" />
+                ) : (
+                  <div className="h-20 w-36 flex flex-col justify-center gap-1 px-3 rounded-lg bg-muted/60">
+                    <FileText className="w-5 h-5 text-primary" />
+                    <span className="truncate text-xs">{file.name}</span>
+                  </div>
+                )}
+                <button
+                  type="button"
+                  onClick={() => removeFile(index)}
+                  title={t.chat.removeAttachment}
+                  className="absolute -top-2 -right-2 w-6 h-6 bg-destructive rounded-full flex items-center justify-center"
+                >
+                  <X className="w-4 h-4" />
+                </button>
+              </div>
+            ))}
           </div>
         )}
 
@@ -76,15 +116,44 @@ export function ChatInput({ onSend, isLoading, disabled }: ChatInputProps) {
             variant="ghost"
             size="icon"
             onClick={() => fileInputRef.current?.click()}
-            disabled={isLoading || disabled}
+            disabled={isLoading || disabled || files.length >= MAX_ATTACHMENTS_PER_MESSAGE}
+            title={t.chat.attachFiles}
           >
-            <Image className="w-5 h-5" />
+            <Paperclip className="w-5 h-5" />
           </Button>
+          {onToggleKnowledge && (
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              onClick={onToggleKnowledge}
+              title={t.chat.useKnowledge}
+              aria-pressed={!!knowledgeEnabled}
+              className={cn(knowledgeEnabled && 'text-emerald-500 bg-emerald-500/10 hover:bg-emerald-500/20')}
+            >
+              <BookOpen className="w-5 h-5" />
+            </Button>
+          )}
+          {onToggleCompare && (
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              onClick={onToggleCompare}
+              disabled={isLoading || disabled}
+              title={t.compare.toggle}
+              aria-pressed={!!compareEnabled}
+              className={cn(compareEnabled && 'text-primary bg-primary/10 hover:bg-primary/20')}
+            >
+              <Columns2 className="w-5 h-5" />
+            </Button>
+          )}
           <input
             ref={fileInputRef}
             type="file"
-            accept="image/*"
-            onChange={handleImageSelect}
+            accept={ACCEPTED_ATTACHMENTS}
+            multiple
+            onChange={handleFilesSelect}
             className="hidden"
           />
 
@@ -106,18 +175,30 @@ export function ChatInput({ onSend, isLoading, disabled }: ChatInputProps) {
             )}
           />
 
-          <Button
-            type="submit"
-            variant="gradient"
-            size="icon"
-            disabled={(!message.trim() && !imagePreview) || isLoading || disabled}
-          >
-            {isLoading ? (
-              <Loader2 className="w-5 h-5 animate-spin" />
-            ) : (
-              <Send className="w-5 h-5" />
-            )}
-          </Button>
+          {isLoading && onStop ? (
+            <Button
+              type="button"
+              variant="gradient"
+              size="icon"
+              onClick={onStop}
+              title={t.chat.stop}
+            >
+              <Square className="w-4 h-4 fill-current" />
+            </Button>
+          ) : (
+            <Button
+              type="submit"
+              variant="gradient"
+              size="icon"
+              disabled={(!message.trim() && files.length === 0) || isLoading || disabled}
+            >
+              {isLoading ? (
+                <Loader2 className="w-5 h-5 animate-spin" />
+              ) : (
+                <Send className="w-5 h-5" />
+              )}
+            </Button>
+          )}
         </div>
       </div>
     </form>
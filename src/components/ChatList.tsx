@@ -0,0 +1,511 @@
+import { useState } from 'react';
+import {
+  MessageSquare, Trash2, Folder, FolderPlus, ChevronRight, MoreHorizontal, Pin, PinOff, Pencil, Plus, Tag, Download, FileText, FileJson, Printer, Share2,
+} from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import {
+  DropdownMenu,
+  DropdownMenuTrigger,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuCheckboxItem,
+  DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubTrigger,
+  DropdownMenuSubContent,
+} from '@/components/ui/dropdown-menu';
+import { useChats, Chat } from '@/hooks/useChats';
+import { useFolders, ChatFolder } from '@/hooks/useFolders';
+import { useTags, TAG_COLORS, TAG_COLOR_CLASSES, TagColor } from '@/hooks/useTags';
+import { useChatExport } from '@/hooks/useChatExport';
+import { ShareDialog } from './ShareDialog';
+import { useLanguage } from '@/hooks/useLanguage';
+import { useToast } from '@/hooks/use-toast';
+import { cn } from '@/lib/utils';
+
+interface ChatListProps {
+  currentChatId?: string | null;
+  // Messages of the branch shown in the open chat, shared instead of the newest branch
+  currentBranchIds?: string[];
+  onSelectChat: (chatId: string) => void;
+}
+
+// Drop target key for the unfiled list
+const UNFILED = 'unfiled';
+const CHAT_DRAG_TYPE = 'application/x-thetai-chat';
+
+interface NameInputProps {
+  initial?: string;
+  placeholder: string;
+  onSubmit: (name: string) => void;
+  onCancel: () => void;
+}
+
+// Enter saves, Escape or leaving the field empty cancels
+function NameInput({ initial = '', placeholder, onSubmit, onCancel }: NameInputProps) {
+  const [value, setValue] = useState(initial);
+
+  const submit = () => {
+    const name = value.trim();
+    if (name && name !== initial) onSubmit(name);
+    else onCancel();
+  };
+
+  return (
+    <Input
+      value={value}
+      onChange={(e) => setValue(e.target.value)}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter') submit();
+        if (e.key === 'Escape') onCancel();
+      }}
+      onBlur={submit}
+      onClick={(e) => e.stopPropagation()}
+      placeholder={placeholder}
+      maxLength={100}
+      className="h-8 text-sm"
+      autoFocus
+    />
+  );
+}
+
+export function ChatList({ currentChatId, currentBranchIds, onSelectChat }: ChatListProps) {
+  const { chats, updateChatTitle, setChatPinned, moveChatToFolder, deleteChat } = useChats();
+  const { folders, createFolder, renameFolder, deleteFolder } = useFolders();
+  const { tags, chatTagIds, createTag, deleteTag, setChatTag } = useTags();
+  const { exportChats } = useChatExport();
+  const { t } = useLanguage();
+  const { toast } = useToast();
+
+  const [expandedFolders, setExpandedFolders] = useState<Set<string>>(new Set());
+  // Folder being renamed, or the parent ('root' for top level) a folder is being created in
+  const [renamingFolderId, setRenamingFolderId] = useState<string | null>(null);
+  const [renamingChatId, setRenamingChatId] = useState<string | null>(null);
+  const [creatingFolderIn, setCreatingFolderIn] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+  const [activeTagId, setActiveTagId] = useState<string | null>(null);
+  const [isCreatingTag, setIsCreatingTag] = useState(false);
+  const [newTagColor, setNewTagColor] = useState<TagColor>('blue');
+  const [sharingChat, setSharingChat] = useState<Chat | null>(null);
+
+  const run = async (action: () => Promise<unknown>) => {
+    try {
+      await action();
+    } catch (error) {
+      console.error('Chat list action failed:', error);
+      toast({ title: t.auth.somethingWrong, variant: 'destructive' });
+    }
+  };
+
+  const toggleFolder = (folderId: string, expanded?: boolean) => {
+    setExpandedFolders(prev => {
+      const next = new Set(prev);
+      if (expanded ?? !next.has(folderId)) next.add(folderId);
+      else next.delete(folderId);
+      return next;
+    });
+  };
+
+  const topLevelFolders = folders.filter(f => !f.parent_id);
+  const subfoldersOf = (folderId: string) => folders.filter(f => f.parent_id === folderId);
+
+  const pinnedChats = chats
+    .filter(c => c.pinned_at)
+    .sort((a, b) => b.pinned_at!.localeCompare(a.pinned_at!));
+  const unpinned = chats.filter(c => !c.pinned_at);
+  const chatsIn = (folderId: string | null) => unpinned.filter(c => c.folder_id === folderId);
+
+  const handleCreateFolder = (name: string, parentId: string | null) => {
+    setCreatingFolderIn(null);
+    run(async () => {
+      await createFolder.mutateAsync({ name, parentId });
+      if (parentId) toggleFolder(parentId, true);
+    });
+  };
+
+  const handleDeleteFolder = (folder: ChatFolder) => {
+    if (!confirm(t.sidebar.deleteFolderConfirm)) return;
+    run(() => deleteFolder.mutateAsync(folder.id));
+  };
+
+  const handleCreateTag = (name: string) => {
+    setIsCreatingTag(false);
+    run(() => createTag.mutateAsync({ name, color: newTagColor }));
+  };
+
+  const handleDeleteTag = (tagId: string) => {
+    if (!confirm(t.sidebar.deleteTagConfirm)) return;
+    setActiveTagId(null);
+    run(() => deleteTag.mutateAsync(tagId));
+  };
+
+  const cycleTagColor = () => {
+    setNewTagColor(color => TAG_COLORS[(TAG_COLORS.indexOf(color) + 1) % TAG_COLORS.length]);
+  };
+
+  // Drag and drop of chats onto folders or the unfiled list
+  const dropProps = (target: string, folderId: string | null) => ({
+    onDragOver: (e: React.DragEvent) => {
+      if (!e.dataTransfer.types.includes(CHAT_DRAG_TYPE)) return;
+      e.preventDefault();
+      e.dataTransfer.dropEffect = 'move';
+      setDropTarget(target);
+    },
+    onDragLeave: (e: React.DragEvent) => {
+      if (!e.currentTarget.contains(e.relatedTarget as Node)) setDropTarget(null);
+    },
+    onDrop: (e: React.DragEvent) => {
+      e.preventDefault();
+      setDropTarget(null);
+      const chatId = e.dataTransfer.getData(CHAT_DRAG_TYPE);
+      const chat = chats.find(c => c.id === chatId);
+      if (!chat || chat.folder_id === folderId) return;
+      run(() => moveChatToFolder.mutateAsync({ chatId, folderId }));
+      if (folderId) toggleFolder(folderId, true);
+    },
+  });
+
+  const renderFolderOption = (folder: ChatFolder, chat: Chat, nested = false) => (
+    <DropdownMenuItem
+      key={folder.id}
+      disabled={chat.folder_id === folder.id}
+      onClick={() => run(() => moveChatToFolder.mutateAsync({ chatId: chat.id, folderId: folder.id }))}
+      className={cn(nested && 'pl-6')}
+    >
+      <Folder className="w-4 h-4 mr-2" />
+      <span className="truncate">{folder.name}</span>
+    </DropdownMenuItem>
+  );
+
+  const renderChat = (chat: Chat, depth = 0) => {
+    const assigned = chatTagIds.get(chat.id);
+    const chatTags = tags.filter(tag => assigned?.has(tag.id));
+
+    return (
+      <div
+        key={chat.id}
+        draggable={renamingChatId !== chat.id}
+        onDragStart={(e) => {
+          e.dataTransfer.setData(CHAT_DRAG_TYPE, chat.id);
+          e.dataTransfer.effectAllowed = 'move';
+        }}
+        onClick={() => onSelectChat(chat.id)}
+        style={{ paddingLeft: `${0.75 + depth * 1}rem` }}
+        className={cn(
+          'group flex items-center gap-2 pr-2 py-2.5 rounded-lg cursor-pointer transition-all duration-200',
+          currentChatId === chat.id
+            ? 'bg-primary/10 text-primary border border-primary/20'
+            : 'hover:bg-muted text-muted-foreground hover:text-foreground'
+        )}
+      >
+        {chat.pinned_at ? <Pin className="w-4 h-4 shrink-0" /> : <MessageSquare className="w-4 h-4 shrink-0" />}
+        {renamingChatId === chat.id ? (
+          <NameInput
+            initial={chat.title}
+            placeholder={t.sidebar.chatTitle}
+            onSubmit={(title) => {
+              setRenamingChatId(null);
+              run(() => updateChatTitle.mutateAsync({ chatId: chat.id, title }));
+            }}
+            onCancel={() => setRenamingChatId(null)}
+          />
+        ) : (
+          <span className="flex-1 truncate text-sm">{chat.title}</span>
+        )}
+        {chatTags.length > 0 && (
+          <span className="flex gap-0.5 shrink-0">
+            {chatTags.map(tag => (
+              <span key={tag.id} title={tag.name} className={cn('w-2 h-2 rounded-full', TAG_COLOR_CLASSES[tag.color])} />
+            ))}
+          </span>
+        )}
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild onClick={(e) => e.stopPropagation()}>
+            <button
+              className="opacity-0 group-hover:opacity-100 data-[state=open]:opacity-100 p-1 hover:bg-muted-foreground/20 rounded transition-all"
+              title={t.sidebar.chatOptions}
+            >
+              <MoreHorizontal className="w-3.5 h-3.5" />
+            </button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="start" onClick={(e) => e.stopPropagation()}>
+            <DropdownMenuItem onClick={() => setRenamingChatId(chat.id)}>
+              <Pencil className="w-4 h-4 mr-2" />
+              {t.sidebar.rename}
+            </DropdownMenuItem>
+            <DropdownMenuItem onClick={() => run(() => setChatPinned.mutateAsync({ chatId: chat.id, pinned: !chat.pinned_at }))}>
+              {chat.pinned_at ? <PinOff className="w-4 h-4 mr-2" /> : <Pin className="w-4 h-4 mr-2" />}
+              {chat.pinned_at ? t.sidebar.unpin : t.sidebar.pin}
+            </DropdownMenuItem>
+            <DropdownMenuSub>
+              <DropdownMenuSubTrigger>
+                <Folder className="w-4 h-4 mr-2" />
+                {t.sidebar.moveTo}
+              </DropdownMenuSubTrigger>
+              <DropdownMenuSubContent className="max-h-72 overflow-y-auto">
+                <DropdownMenuItem
+                  disabled={!chat.folder_id}
+                  onClick={() => run(() => moveChatToFolder.mutateAsync({ chatId: chat.id, folderId: null }))}
+                >
+                  <MessageSquare className="w-4 h-4 mr-2" />
+                  {t.sidebar.noFolder}
+                </DropdownMenuItem>
+                {topLevelFolders.map(folder => [
+                  renderFolderOption(folder, chat),
+                  ...subfoldersOf(folder.id).map(sub => renderFolderOption(sub, chat, true)),
+                ])}
+              </DropdownMenuSubContent>
+            </DropdownMenuSub>
+            {tags.length > 0 && (
+              <DropdownMenuSub>
+                <DropdownMenuSubTrigger>
+                  <Tag className="w-4 h-4 mr-2" />
+                  {t.sidebar.tags}
+                </DropdownMenuSubTrigger>
+                <DropdownMenuSubContent className="max-h-72 overflow-y-auto">
+                  {tags.map(tag => (
+                    <DropdownMenuCheckboxItem
+                      key={tag.id}
+                      checked={!!assigned?.has(tag.id)}
+                      onSelect={(e) => e.preventDefault()}
+                      onCheckedChange={(checked) => run(() => setChatTag.mutateAsync({ chatId: chat.id, tagId: tag.id, assigned: checked }))}
+                    >
+                      <span className={cn('w-2 h-2 rounded-full mr-2', TAG_COLOR_CLASSES[tag.color])} />
+                      {tag.name}
+                    </DropdownMenuCheckboxItem>
+                  ))}
+                </DropdownMenuSubContent>
+              </DropdownMenuSub>
+            )}
+            <DropdownMenuSub>
+              <DropdownMenuSubTrigger>
+                <Download className="w-4 h-4 mr-2" />
+                {t.export.title}
+              </DropdownMenuSubTrigger>
+              <DropdownMenuSubContent>
+                <DropdownMenuItem onClick={() => exportChats([chat], 'markdown')}>
+                  <FileText className="w-4 h-4 mr-2" />
+                  {t.export.markdown}
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => exportChats([chat], 'json')}>
+                  <FileJson className="w-4 h-4 mr-2" />
+                  {t.export.json}
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => exportChats([chat], 'pdf')}>
+                  <Printer className="w-4 h-4 mr-2" />
+                  {t.export.pdf}
+                </DropdownMenuItem>
+              </DropdownMenuSubContent>
+            </DropdownMenuSub>
+            <DropdownMenuItem onClick={() => setSharingChat(chat)}>
+              <Share2 className="w-4 h-4 mr-2" />
+              {t.share.action}
+            </DropdownMenuItem>
+            <DropdownMenuSeparator />
+            <DropdownMenuItem
+              onClick={() => run(() => deleteChat.mutateAsync(chat.id))}
+              className="text-destructive focus:text-destructive"
+            >
+              <Trash2 className="w-4 h-4 mr-2" />
+              {t.sidebar.delete}
+            </DropdownMenuItem>
+          </DropdownMenuContent>
+        </DropdownMenu>
+      </div>
+    );
+  };
+
+  const renderFolder = (folder: ChatFolder, depth = 0) => {
+    const isExpanded = expandedFolders.has(folder.id);
+    const subfolders = depth === 0 ? subfoldersOf(folder.id) : [];
+    const folderChats = chatsIn(folder.id);
+
+    return (
+      <div key={folder.id}>
+        <div
+          {...dropProps(folder.id, folder.id)}
+          onClick={() => toggleFolder(folder.id)}
+          style={{ paddingLeft: `${0.75 + depth * 1}rem` }}
+          className={cn(
+            'group flex items-center gap-2 pr-2 py-2 rounded-lg cursor-pointer text-muted-foreground hover:bg-muted hover:text-foreground transition-all',
+            dropTarget === folder.id && 'bg-primary/10 ring-1 ring-primary/40'
+          )}
+        >
+          <ChevronRight className={cn('w-3.5 h-3.5 shrink-0 transition-transform', isExpanded && 'rotate-90')} />
+          <Folder className="w-4 h-4 shrink-0" />
+          {renamingFolderId === folder.id ? (
+            <NameInput
+              initial={folder.name}
+              placeholder={t.sidebar.folderName}
+              onSubmit={(name) => {
+                setRenamingFolderId(null);
+                run(() => renameFolder.mutateAsync({ folderId: folder.id, name }));
+              }}
+              onCancel={() => setRenamingFolderId(null)}
+            />
+          ) : (
+            <span className="flex-1 truncate text-sm">{folder.name}</span>
+          )}
+          <span className="text-xs opacity-60">{folderChats.length || ''}</span>
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild onClick={(e) => e.stopPropagation()}>
+              <button className="opacity-0 group-hover:opacity-100 data-[state=open]:opacity-100 p-1 hover:bg-muted-foreground/20 rounded transition-all">
+                <MoreHorizontal className="w-3.5 h-3.5" />
+              </button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="start" onClick={(e) => e.stopPropagation()}>
+              {depth === 0 && (
+                <DropdownMenuItem onClick={() => { setCreatingFolderIn(folder.id); toggleFolder(folder.id, true); }}>
+                  <FolderPlus className="w-4 h-4 mr-2" />
+                  {t.sidebar.newSubfolder}
+                </DropdownMenuItem>
+              )}
+              <DropdownMenuItem onClick={() => setRenamingFolderId(folder.id)}>
+                <Pencil className="w-4 h-4 mr-2" />
+                {t.sidebar.rename}
+              </DropdownMenuItem>
+              <DropdownMenuSeparator />
+              <DropdownMenuItem
+                onClick={() => handleDeleteFolder(folder)}
+                className="text-destructive focus:text-destructive"
+              >
+                <Trash2 className="w-4 h-4 mr-2" />
+                {t.sidebar.delete}
+              </DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+        </div>
+
+        {isExpanded && (
+          <div className="space-y-1 mt-1">
+            {subfolders.map(sub => renderFolder(sub, depth + 1))}
+            {creatingFolderIn === folder.id && (
+              <div style={{ paddingLeft: `${0.75 + (depth + 1) * 1}rem` }}>
+                <NameInput
+                  placeholder={t.sidebar.folderName}
+                  onSubmit={(name) => handleCreateFolder(name, folder.id)}
+                  onCancel={() => setCreatingFolderIn(null)}
+                />
+              </div>
+            )}
+            {folderChats.map(chat => renderChat(chat, depth + 1))}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  const activeTag = tags.find(tag => tag.id === activeTagId);
+  const taggedChats = activeTag
+    ? [...pinnedChats, ...unpinned].filter(c => chatTagIds.get(c.id)?.has(activeTag.id))
+    : [];
+
+  return (
+    <div className="space-y-3">
+      {/* Tag filter */}
+      <div className="flex flex-wrap items-center gap-1.5 px-1">
+        {tags.map(tag => (
+          <button
+            key={tag.id}
+            onClick={() => setActiveTagId(id => id === tag.id ? null : tag.id)}
+            className={cn(
+              'flex items-center gap-1.5 px-2 py-0.5 rounded-full text-xs border transition-colors',
+              activeTagId === tag.id
+                ? 'border-primary bg-primary/10 text-foreground'
+                : 'border-border text-muted-foreground hover:text-foreground'
+            )}
+          >
+            <span className={cn('w-2 h-2 rounded-full', TAG_COLOR_CLASSES[tag.color])} />
+            {tag.name}
+          </button>
+        ))}
+        {activeTag && (
+          <button
+            onClick={() => handleDeleteTag(activeTag.id)}
+            className="p-1 text-muted-foreground hover:text-destructive"
+            title={t.sidebar.deleteTag}
+          >
+            <Trash2 className="w-3 h-3" />
+          </button>
+        )}
+        {isCreatingTag ? (
+          <div className="flex items-center gap-1.5 w-full">
+            <button
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={cycleTagColor}
+              className={cn('w-4 h-4 rounded-full shrink-0', TAG_COLOR_CLASSES[newTagColor])}
+              title={t.sidebar.changeColor}
+            />
+            <NameInput
+              placeholder={t.sidebar.tagName}
+              onSubmit={handleCreateTag}
+              onCancel={() => setIsCreatingTag(false)}
+            />
+          </div>
+        ) : (
+          <button
+            onClick={() => setIsCreatingTag(true)}
+            className="flex items-center gap-1 px-2 py-0.5 rounded-full text-xs text-muted-foreground hover:text-foreground"
+          >
+            <Plus className="w-3 h-3" />
+            {t.sidebar.newTag}
+          </button>
+        )}
+      </div>
+
+      {activeTag ? (
+        <div className="space-y-1">
+          {taggedChats.map(chat => renderChat(chat))}
+          {taggedChats.length === 0 && (
+            <p className="px-3 py-2 text-sm text-muted-foreground">{t.sidebar.noTaggedChats}</p>
+          )}
+        </div>
+      ) : (
+        <>
+          {pinnedChats.length > 0 && (
+            <div className="space-y-1">
+              <p className="px-3 text-xs font-medium uppercase tracking-wide text-muted-foreground">{t.sidebar.pinned}</p>
+              {pinnedChats.map(chat => renderChat(chat))}
+            </div>
+          )}
+
+          <div className="space-y-1">
+            {topLevelFolders.map(folder => renderFolder(folder))}
+            {creatingFolderIn === 'root' && (
+              <div className="px-3">
+                <NameInput
+                  placeholder={t.sidebar.folderName}
+                  onSubmit={(name) => handleCreateFolder(name, null)}
+                  onCancel={() => setCreatingFolderIn(null)}
+                />
+              </div>
+            )}
+          </div>
+
+          <div
+            {...dropProps(UNFILED, null)}
+            className={cn('space-y-1 rounded-lg min-h-8', dropTarget === UNFILED && 'bg-primary/5 ring-1 ring-primary/30')}
+          >
+            <div className="flex items-center justify-between px-3">
+              <p className="text-xs font-medium uppercase tracking-wide text-muted-foreground">{t.sidebar.chats}</p>
+              <button
+                onClick={() => setCreatingFolderIn('root')}
+                className="p-1 text-muted-foreground hover:text-foreground"
+                title={t.sidebar.newFolder}
+              >
+                <FolderPlus className="w-3.5 h-3.5" />
+              </button>
+            </div>
+            {chatsIn(null).map(chat => renderChat(chat))}
+          </div>
+        </>
+      )}
+
+      <ShareDialog
+        chat={sharingChat}
+        messageIds={sharingChat?.id === currentChatId ? currentBranchIds : undefined}
+        onOpenChange={(open) => !open && setSharingChat(null)}
+      />
+    </div>
+  );
+}
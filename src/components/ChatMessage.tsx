@@ -1,20 +1,76 @@
-import { Bot, User } from 'lucide-react';
+import { useState } from 'react';
+import { Bot, User, Pin, RefreshCw, ChevronLeft, ChevronRight, Pencil, BookOpen } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
 import { Message } from '@/hooks/useChats';
-import ReactMarkdown from 'react-markdown';
+import { useLanguage } from '@/hooks/useLanguage';
+import { MessageAttachments } from '@/components/MessageAttachments';
+import { MarkdownContent } from '@/components/MarkdownContent';
+import { FeedbackButtons } from '@/components/FeedbackButtons';
+import type { FeedbackInput, MessageFeedback } from '@/hooks/useFeedback';
+import type { ArtifactKind } from '@/lib/artifacts';
 
 interface ChatMessageProps {
   message: Message;
+  isStreaming?: boolean;
+  onTogglePin?: () => void;
+  // Position among alternative versions of this message, e.g. 2 of 3
+  branch?: { index: number; total: number };
+  onPrevBranch?: () => void;
+  onNextBranch?: () => void;
+  onRegenerate?: () => void;
+  // Sends the edited text as a new branch starting at this message
+  onEdit?: (content: string) => void;
+  // Briefly marked after jumping to the message from search
+  highlighted?: boolean;
+  // The user's rating of an assistant reply; null clears it
+  feedback?: MessageFeedback | null;
+  onFeedback?: (input: FeedbackInput | null) => void;
+  // Shows an HTML, SVG or React code block in the artifacts panel
+  onOpenArtifact?: (content: string, kind: ArtifactKind) => void;
 }
 
-export function ChatMessage({ message }: ChatMessageProps) {
+export function ChatMessage({
+  message,
+  isStreaming,
+  onTogglePin,
+  branch,
+  onPrevBranch,
+  onNextBranch,
+  onRegenerate,
+  onEdit,
+  highlighted,
+  feedback,
+  onFeedback,
+  onOpenArtifact,
+}: ChatMessageProps) {
   const isUser = message.role === 'user';
+  const { t } = useLanguage();
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState(message.content);
+
+  const startEditing = () => {
+    setDraft(message.content);
+    setIsEditing(true);
+  };
+
+  const submitEdit = () => {
+    const content = draft.trim();
+    if (!content || !onEdit) return;
+    setIsEditing(false);
+    if (content !== message.content.trim()) onEdit(content);
+  };
 
   return (
-    <div className={cn(
-      'flex gap-4 animate-fade-in',
-      isUser ? 'flex-row-reverse' : 'flex-row'
-    )}>
+    <div
+      data-message-id={message.id}
+      className={cn(
+        'group flex gap-4 animate-fade-in rounded-2xl transition-shadow duration-500',
+        isUser ? 'flex-row-reverse' : 'flex-row',
+        highlighted && 'ring-2 ring-primary/60 ring-offset-4 ring-offset-background'
+      )}
+    >
       {/* Avatar */}
       <div className={cn(
         'shrink-0 w-10 h-10 rounded-xl flex items-center justify-center',
@@ -36,44 +92,133 @@ export function ChatMessage({ message }: ChatMessageProps) {
             ? 'bg-secondary/20 rounded-tr-sm' 
             : 'glass-card rounded-tl-sm'
         )}>
-          {message.image_url && (
-            <img 
-              src={message.image_url} 
-              alt="Attached" 
-              className="max-w-xs rounded-lg mb-2"
-            />
+          {message.attachments.length > 0 && (
+            <MessageAttachments attachments={message.attachments} alignEnd={isUser} />
+          )}
+          {isEditing ? (
+            <div className="space-y-2 text-left min-w-[16rem]">
+              <Textarea
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter' && !e.shiftKey) {
+                    e.preventDefault();
+                    submitEdit();
+                  } else if (e.key === 'Escape') {
+                    setIsEditing(false);
+                  }
+                }}
+                className="min-h-[80px] resize-none bg-background/50"
+                autoFocus
+              />
+              <div className="flex justify-end gap-2">
+                <Button size="sm" variant="ghost" onClick={() => setIsEditing(false)}>
+                  {t.chat.cancelEdit}
+                </Button>
+                <Button size="sm" onClick={submitEdit} disabled={!draft.trim()}>
+                  {t.chat.saveEdit}
+                </Button>
+              </div>
+            </div>
+          ) : (
+            <div className={cn(
+              'markdown-content prose prose-invert prose-sm max-w-none',
+              isUser && 'text-right'
+            )}>
+              <MarkdownContent
+                content={message.content}
+                isStreaming={isStreaming}
+                runnableCode={!isUser && !isStreaming}
+                onOpenArtifact={isUser || isStreaming ? undefined : onOpenArtifact}
+              />
+              {isStreaming && (
+                <span className="inline-block w-2 h-4 ml-0.5 align-middle bg-primary animate-pulse" />
+              )}
+              {message.sources && message.sources.length > 0 && (
+                <div className="mt-3 pt-2 border-t border-border/50 not-prose">
+                  <p className="text-xs text-muted-foreground mb-1">{t.chat.sources}</p>
+                  <ol className="space-y-0.5">
+                    {message.sources.map((source, index) => (
+                      <li key={source.chunk_id} className="flex items-center gap-1.5 text-xs text-muted-foreground">
+                        <span className="font-mono text-primary">[{index + 1}]</span>
+                        <BookOpen className="w-3 h-3 shrink-0" />
+                        <span className="truncate">{source.title}</span>
+                        <span className="shrink-0">· {t.chat.sourcePart} {source.chunk_index + 1}</span>
+                      </li>
+                    ))}
+                  </ol>
+                </div>
+              )}
+              {message.truncated && (
+                <p className="mt-2 text-xs italic text-muted-foreground">{t.chat.stopped}</p>
+              )}
+            </div>
           )}
+        </div>
+        {!isStreaming && !isEditing && (
           <div className={cn(
-            'prose prose-invert prose-sm max-w-none',
-            isUser && 'text-right'
+            'flex items-center gap-2 mt-1 px-2',
+            isUser && 'flex-row-reverse'
           )}>
-            <ReactMarkdown
-              components={{
-                code: ({ className, children, ...props }) => {
-                  const isInline = !className;
-                  return isInline ? (
-                    <code className="bg-muted px-1.5 py-0.5 rounded text-primary font-mono text-xs" {...props}>
-                      {children}
-                    </code>
-                  ) : (
-                    <code className={cn("block bg-muted p-3 rounded-lg overflow-x-auto font-mono text-xs", className)} {...props}>
-                      {children}
-                    </code>
-                  );
-                },
-                pre: ({ children }) => <pre className="bg-transparent p-0">{children}</pre>,
-                p: ({ children }) => <p className="mb-2 last:mb-0">{children}</p>,
-                ul: ({ children }) => <ul className="list-disc list-inside mb-2">{children}</ul>,
-                ol: ({ children }) => <ol className="list-decimal list-inside mb-2">{children}</ol>,
-              }}
-            >
-              {message.content}
-            </ReactMarkdown>
+            <p className="text-xs text-muted-foreground">
+              {new Date(message.created_at).toLocaleTimeString('ru-RU', { hour: '2-digit', minute: '2-digit' })}
+            </p>
+            {branch && branch.total > 1 && (
+              <div className="flex items-center gap-0.5 text-xs text-muted-foreground">
+                <button
+                  onClick={onPrevBranch}
+                  disabled={branch.index === 0}
+                  title={t.chat.previousVersion}
+                  className="p-0.5 rounded hover:bg-muted disabled:opacity-30 disabled:hover:bg-transparent"
+                >
+                  <ChevronLeft className="w-3 h-3" />
+                </button>
+                <span className="font-mono">{branch.index + 1}/{branch.total}</span>
+                <button
+                  onClick={onNextBranch}
+                  disabled={branch.index === branch.total - 1}
+                  title={t.chat.nextVersion}
+                  className="p-0.5 rounded hover:bg-muted disabled:opacity-30 disabled:hover:bg-transparent"
+                >
+                  <ChevronRight className="w-3 h-3" />
+                </button>
+              </div>
+            )}
+            {onRegenerate && (
+              <button
+                onClick={onRegenerate}
+                title={t.chat.regenerate}
+                className="p-1 rounded transition-all hover:bg-muted text-muted-foreground opacity-0 group-hover:opacity-100"
+              >
+                <RefreshCw className="w-3 h-3" />
+              </button>
+            )}
+            {onFeedback && !isUser && (
+              <FeedbackButtons feedback={feedback} onFeedback={onFeedback} />
+            )}
+            {onEdit && (
+              <button
+                onClick={startEditing}
+                title={t.chat.edit}
+                className="p-1 rounded transition-all hover:bg-muted text-muted-foreground opacity-0 group-hover:opacity-100"
+              >
+                <Pencil className="w-3 h-3" />
+              </button>
+            )}
+            {onTogglePin && (
+              <button
+                onClick={onTogglePin}
+                title={message.pinned ? t.chat.unpin : t.chat.pin}
+                className={cn(
+                  'p-1 rounded transition-all hover:bg-muted',
+                  message.pinned ? 'text-primary' : 'text-muted-foreground opacity-0 group-hover:opacity-100'
+                )}
+              >
+                <Pin className="w-3 h-3" />
+              </button>
+            )}
           </div>
-        </div>
-        <p className="text-xs text-muted-foreground mt-1 px-2">
-          {new Date(message.created_at).toLocaleTimeString('ru-RU', { hour: '2-digit', minute: '2-digit' })}
-        </p>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,62 @@
+import { Loader2, MessageSquare } from 'lucide-react';
+import { useChatSearch, splitSnippet, ChatSearchResult } from '@/hooks/useChatSearch';
+import { useLanguage } from '@/hooks/useLanguage';
+
+interface ChatSearchResultsProps {
+  query: string;
+  onOpen: (result: ChatSearchResult) => void;
+}
+
+function Snippet({ snippet }: { snippet: string }) {
+  return (
+    <>
+      {splitSnippet(snippet).map((part, i) => part.highlighted
+        ? <mark key={i} className="bg-primary/30 text-foreground rounded-sm px-0.5">{part.text}</mark>
+        : <span key={i}>{part.text}</span>
+      )}
+    </>
+  );
+}
+
+export function ChatSearchResults({ query, onOpen }: ChatSearchResultsProps) {
+  const { results, searching } = useChatSearch(query);
+  const { t } = useLanguage();
+
+  if (results.length === 0) {
+    return (
+      <div className="p-4 flex justify-center text-muted-foreground text-sm">
+        {searching ? <Loader2 className="w-4 h-4 animate-spin" /> : t.sidebar.noResults}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-1">
+      {results.map((result) => (
+        <button
+          key={result.message_id ?? `chat-${result.chat_id}`}
+          onClick={() => onOpen(result)}
+          className="w-full text-left px-3 py-2 rounded-lg hover:bg-muted transition-colors"
+        >
+          {result.message_id ? (
+            <>
+              <div className="flex items-center gap-1.5 text-xs text-muted-foreground mb-0.5">
+                <MessageSquare className="w-3 h-3 shrink-0" />
+                <span className="truncate">{result.chat_title}</span>
+                <span className="shrink-0">· {result.role === 'user' ? t.sidebar.you : 'ThetAI'}</span>
+              </div>
+              <p className="text-sm line-clamp-3 break-words">
+                <Snippet snippet={result.snippet} />
+              </p>
+            </>
+          ) : (
+            <div className="flex items-center gap-2 text-sm">
+              <MessageSquare className="w-4 h-4 shrink-0 text-muted-foreground" />
+              <span className="truncate"><Snippet snippet={result.snippet} /></span>
+            </div>
+          )}
+        </button>
+      ))}
+    </div>
+  );
+}
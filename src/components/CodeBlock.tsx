@@ -0,0 +1,112 @@
+import { useEffect, useRef, useState } from 'react';
+import type { ExtraProps } from 'react-markdown';
+import { Check, Copy, Loader2, PanelRight, Play, Square } from 'lucide-react';
+import { CodeRunOutput } from '@/components/CodeRunOutput';
+import { MermaidDiagram } from '@/components/MermaidDiagram';
+import { useLanguage } from '@/hooks/useLanguage';
+import { artifactKind, type ArtifactKind } from '@/lib/artifacts';
+import { RUNNABLE_LANGUAGES, runCode, type CodeRun, type RunOutput, type RunResult } from '@/lib/codeRunner';
+import { codeLanguage, nodeText } from '@/lib/markdown';
+
+interface CodeBlockProps extends ExtraProps {
+  children?: React.ReactNode;
+  // Diagrams are drawn once the reply is complete
+  isStreaming?: boolean;
+  // JavaScript and Python blocks get a Run button
+  runnable?: boolean;
+  // HTML, SVG and React blocks can be opened in the artifacts panel
+  onOpenArtifact?: (content: string, kind: ArtifactKind) => void;
+}
+
+// Fenced code block with its language and a copy button; Mermaid blocks become diagrams
+export function CodeBlock({ node, children, isStreaming, runnable, onOpenArtifact }: CodeBlockProps) {
+  const { t } = useLanguage();
+  const [copied, setCopied] = useState(false);
+  const [output, setOutput] = useState<RunOutput[] | null>(null);
+  const [result, setResult] = useState<RunResult | null>(null);
+  const [isStarting, setIsStarting] = useState(false);
+  const runRef = useRef<CodeRun | null>(null);
+
+  const language = node ? codeLanguage(node) : null;
+  const source = node ? nodeText(node).replace(/\n$/, '') : '';
+  const runLanguage = runnable && language ? RUNNABLE_LANGUAGES[language] : undefined;
+  const isRunning = output !== null && result === null;
+  // Mermaid is drawn in place
+  const kind = onOpenArtifact ? artifactKind(language) : null;
+  const previewKind = kind === 'mermaid' ? null : kind;
+
+  useEffect(() => () => runRef.current?.stop(), []);
+
+  const run = async () => {
+    if (!runLanguage) return;
+    setOutput([]);
+    setResult(null);
+    setIsStarting(true);
+
+    const current = runCode(
+      runLanguage,
+      source,
+      (item) => setOutput(prev => [...(prev ?? []), item]),
+      () => setIsStarting(false),
+    );
+    runRef.current = current;
+    const finished = await current.result;
+    if (runRef.current !== current) return;
+    runRef.current = null;
+    setIsStarting(false);
+    setResult(finished);
+  };
+
+  const clearOutput = () => {
+    setOutput(null);
+    setResult(null);
+  };
+
+  const copy = async () => {
+    try {
+      await navigator.clipboard.writeText(source);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (error) {
+      console.error('Copy code error:', error);
+    }
+  };
+
+  const block = (
+    <div className="my-2 rounded-lg bg-muted overflow-hidden text-left not-prose">
+      <div className="flex items-center justify-between px-3 py-1 border-b border-border/50 text-xs text-muted-foreground">
+        <span className="font-mono">{language ?? 'text'}</span>
+        <div className="flex items-center gap-1">
+          {previewKind && (
+            <button onClick={() => onOpenArtifact?.(source, previewKind)} title={t.artifacts.open} className="flex items-center gap-1 p-1 rounded hover:bg-background/50 hover:text-foreground">
+              <PanelRight className="w-3 h-3" />
+              {t.artifacts.preview}
+            </button>
+          )}
+          {runLanguage && (isRunning ? (
+            <button onClick={() => runRef.current?.stop()} className="flex items-center gap-1 p-1 rounded hover:bg-background/50 hover:text-foreground">
+              {isStarting ? <Loader2 className="w-3 h-3 animate-spin" /> : <Square className="w-3 h-3" />}
+              {isStarting && runLanguage === 'python' ? t.chat.loadingPython : t.chat.stopCode}
+            </button>
+          ) : (
+            <button onClick={run} className="flex items-center gap-1 p-1 rounded hover:bg-background/50 hover:text-foreground">
+              <Play className="w-3 h-3" />
+              {t.chat.runCode}
+            </button>
+          ))}
+          <button onClick={copy} title={t.chat.copyCode} className="flex items-center gap-1 p-1 rounded hover:bg-background/50 hover:text-foreground">
+            {copied ? <Check className="w-3 h-3" /> : <Copy className="w-3 h-3" />}
+            {copied ? t.chat.copied : t.chat.copy}
+          </button>
+        </div>
+      </div>
+      <pre className="p-3 overflow-x-auto font-mono text-xs">{children}</pre>
+      {output && <CodeRunOutput output={output} result={result} onClear={clearOutput} />}
+    </div>
+  );
+
+  if (language === 'mermaid' && !isStreaming) {
+    return <MermaidDiagram source={source} fallback={block} />;
+  }
+  return block;
+}
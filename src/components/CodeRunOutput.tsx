@@ -0,0 +1,51 @@
+import { X } from 'lucide-react';
+import { useLanguage } from '@/hooks/useLanguage';
+import type { RunOutput, RunResult } from '@/lib/codeRunner';
+
+interface CodeRunOutputProps {
+  output: RunOutput[];
+  // Null while the code is running
+  result: RunResult | null;
+  onClear: () => void;
+}
+
+// What a code block printed and drew when run, with how the run ended
+export function CodeRunOutput({ output, result, onClear }: CodeRunOutputProps) {
+  const { t } = useLanguage();
+
+  const seconds = result ? `${(result.durationMs / 1000).toFixed(2)} s` : '';
+  const status = result && {
+    done: `${t.chat.runFinished} ${seconds}`,
+    error: `${t.chat.runFailed} ${seconds}`,
+    timeout: t.chat.runTimedOut,
+    memory: t.chat.runMemoryLimit,
+    stopped: t.chat.runStopped,
+  }[result.status];
+
+  return (
+    <div className="border-t border-border/50 text-xs">
+      {output.length > 0 ? (
+        <div className="p-3 max-h-96 overflow-auto scrollbar-thin space-y-2">
+          <pre className="font-mono whitespace-pre-wrap break-words">
+            {output.map((item, i) => item.type !== 'image' && (
+              <span key={i} className={item.type === 'stderr' ? 'text-destructive' : undefined}>{item.text}</span>
+            ))}
+          </pre>
+          {output.map((item, i) => item.type === 'image' && (
+            <img key={i} src={item.src} alt="" className="max-w-full rounded bg-white" />
+          ))}
+        </div>
+      ) : result && (
+        <p className="px-3 py-2 text-muted-foreground italic">{t.chat.noOutput}</p>
+      )}
+      {result && (
+        <div className="flex items-center justify-between px-3 py-1 border-t border-border/50 text-muted-foreground">
+          <span className={result.status === 'done' ? undefined : 'text-destructive'}>{status}</span>
+          <button onClick={onClear} title={t.chat.clearOutput} className="p-1 rounded hover:bg-background/50 hover:text-foreground">
+            <X className="w-3 h-3" />
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,66 @@
+import { Check, Crown, Lock } from 'lucide-react';
+import { useModels } from '@/hooks/useModels';
+import { useProfile } from '@/hooks/useProfile';
+import { useLanguage } from '@/hooks/useLanguage';
+import { MAX_COMPARED_MODELS } from '@/hooks/useComparisons';
+import { cn } from '@/lib/utils';
+
+interface ComparePickerProps {
+  selected: string[];
+  onChange: (selected: string[]) => void;
+}
+
+// Models the next prompt is sent to in compare mode, shown above the input
+export function ComparePicker({ selected, onChange }: ComparePickerProps) {
+  const { models } = useModels();
+  const { profile } = useProfile();
+  const { t } = useLanguage();
+
+  const toggle = (id: string) => {
+    if (selected.includes(id)) {
+      onChange(selected.filter(s => s !== id));
+    } else if (selected.length < MAX_COMPARED_MODELS) {
+      onChange([...selected, id]);
+    }
+  };
+
+  return (
+    <div className="mx-4 mb-2 glass-card px-4 py-3 animate-fade-in">
+      <div className="flex items-center justify-between gap-2 mb-2">
+        <span className="text-sm font-medium">{t.compare.selectModels}</span>
+        <span className="text-xs text-muted-foreground">{selected.length}/{MAX_COMPARED_MODELS}</span>
+      </div>
+      <div className="flex flex-wrap gap-2">
+        {models.map(model => {
+          const isSelected = selected.includes(model.id);
+          const isLocked = model.tier === 'plus' && !profile?.is_plus;
+          const isFull = !isSelected && selected.length >= MAX_COMPARED_MODELS;
+
+          return (
+            <button
+              key={model.id}
+              type="button"
+              onClick={() => toggle(model.id)}
+              disabled={isLocked || isFull}
+              title={`${t.compare.cost}: ×${Math.max(1, Math.ceil(model.cost_weight))}`}
+              className={cn(
+                'flex items-center gap-1.5 px-3 py-1 rounded-full border text-xs font-mono transition-all',
+                isSelected
+                  ? 'border-primary bg-primary/10 text-foreground'
+                  : 'border-border text-muted-foreground hover:border-primary/50 hover:text-foreground',
+                (isLocked || isFull) && 'opacity-50 cursor-not-allowed hover:border-border hover:text-muted-foreground'
+              )}
+            >
+              {isSelected && <Check className="w-3 h-3 text-primary" />}
+              {model.display_name}
+              {model.tier === 'plus' && (
+                isLocked ? <Lock className="w-3 h-3" /> : <Crown className="w-3 h-3 text-secondary" />
+              )}
+            </button>
+          );
+        })}
+      </div>
+      <p className="mt-2 text-xs text-muted-foreground">{t.compare.hint}</p>
+    </div>
+  );
+}
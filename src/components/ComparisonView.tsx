@@ -0,0 +1,81 @@
+import { AlertCircle, Bot, Check, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { MarkdownContent } from '@/components/MarkdownContent';
+import { useModels } from '@/hooks/useModels';
+import { useLanguage } from '@/hooks/useLanguage';
+import type { ComparisonAnswer } from '@/hooks/useComparisons';
+import { cn } from '@/lib/utils';
+
+interface ComparisonViewProps {
+  // Answers in the order the models were asked; while streaming, what has arrived so far
+  answers: Pick<ComparisonAnswer, 'model' | 'content' | 'truncated' | 'failed'>[];
+  isStreaming?: boolean;
+  // Makes the answer at index the reply the chat continues from; hidden without it
+  onChoose?: (index: number) => void;
+  choosingIndex?: number | null;
+}
+
+// Answers of compared models side by side, each with a button to keep it
+export function ComparisonView({ answers, isStreaming, onChoose, choosingIndex = null }: ComparisonViewProps) {
+  const { models } = useModels();
+  const { t } = useLanguage();
+
+  const modelName = (id: string) => models.find(m => m.id === id)?.display_name ?? id;
+
+  return (
+    <div className="space-y-3 animate-fade-in">
+      {onChoose && !isStreaming && (
+        <p className="text-sm text-muted-foreground">{t.compare.pickHint}</p>
+      )}
+      <div className={cn(
+        'grid gap-3 grid-cols-1',
+        answers.length === 2 ? 'md:grid-cols-2' : 'md:grid-cols-2 xl:grid-cols-3'
+      )}>
+        {answers.map((answer, index) => (
+          <div key={`${answer.model}-${index}`} className="glass-card flex flex-col min-w-0 rounded-2xl">
+            <div className="flex items-center gap-2 px-4 py-2 border-b border-border/50">
+              <Bot className="w-4 h-4 text-primary shrink-0" />
+              <span className="font-mono text-sm font-medium truncate">{modelName(answer.model)}</span>
+              {isStreaming && !answer.failed && (
+                <Loader2 className="w-3.5 h-3.5 ml-auto animate-spin text-muted-foreground" />
+              )}
+            </div>
+
+            <div className="flex-1 px-4 py-3 overflow-x-auto scrollbar-thin">
+              {answer.failed ? (
+                <p className="flex items-center gap-2 text-sm text-muted-foreground">
+                  <AlertCircle className="w-4 h-4 text-destructive" />
+                  {t.compare.failed}
+                </p>
+              ) : (
+                <div className="markdown-content prose prose-invert prose-sm max-w-none">
+                  <MarkdownContent content={answer.content} isStreaming={isStreaming} />
+                  {answer.truncated && (
+                    <p className="mt-2 text-xs italic text-muted-foreground">{t.chat.stopped}</p>
+                  )}
+                </div>
+              )}
+            </div>
+
+            {onChoose && !isStreaming && (
+              <div className="px-4 pb-3">
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => onChoose(index)}
+                  disabled={answer.failed || choosingIndex !== null}
+                  className="w-full"
+                >
+                  {choosingIndex === index
+                    ? <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                    : <Check className="w-4 h-4 mr-2" />}
+                  {t.compare.choose}
+                </Button>
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
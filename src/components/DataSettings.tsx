@@ -0,0 +1,49 @@
+import { useState } from 'react';
+import { Download, FileJson, FileText, Printer, Loader2, Upload } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useChats } from '@/hooks/useChats';
+import { useChatExport } from '@/hooks/useChatExport';
+import { useLanguage } from '@/hooks/useLanguage';
+import { ImportDialog } from './ImportDialog';
+
+// Settings section for getting conversations out of ThetAI and bringing them in
+export function DataSettings() {
+  const { chats } = useChats();
+  const { exportChats, isExporting } = useChatExport();
+  const { t } = useLanguage();
+  const [isImportOpen, setIsImportOpen] = useState(false);
+
+  return (
+    <div className="glass-card p-4 mb-6">
+      <div className="flex items-center gap-2 mb-1">
+        {isExporting ? <Loader2 className="w-5 h-5 text-primary animate-spin" /> : <Download className="w-5 h-5 text-primary" />}
+        <span className="font-semibold">{t.export.dataTitle}</span>
+      </div>
+      <p className="text-xs text-muted-foreground mb-4">
+        {isExporting ? t.export.exporting : t.export.dataDescription}
+      </p>
+
+      <p className="text-sm text-muted-foreground mb-2">{t.export.exportAll}</p>
+      <div className="grid grid-cols-3 gap-2">
+        <Button onClick={() => exportChats(chats, 'markdown')} disabled={isExporting} variant="outline" size="sm">
+          <FileText className="w-4 h-4 mr-1" />
+          {t.export.markdown}
+        </Button>
+        <Button onClick={() => exportChats(chats, 'json')} disabled={isExporting} variant="outline" size="sm">
+          <FileJson className="w-4 h-4 mr-1" />
+          JSON
+        </Button>
+        <Button onClick={() => exportChats(chats, 'pdf')} disabled={isExporting} variant="outline" size="sm">
+          <Printer className="w-4 h-4 mr-1" />
+          PDF
+        </Button>
+      </div>
+
+      <Button onClick={() => setIsImportOpen(true)} variant="outline" size="sm" className="w-full mt-3">
+        <Upload className="w-4 h-4 mr-1" />
+        {t.import.title}
+      </Button>
+      <ImportDialog open={isImportOpen} onOpenChange={setIsImportOpen} />
+    </div>
+  );
+}
@@ -0,0 +1,103 @@
+import { useState } from 'react';
+import { ThumbsUp, ThumbsDown } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { Popover, PopoverAnchor, PopoverContent } from '@/components/ui/popover';
+import {
+  FEEDBACK_REASONS,
+  FeedbackInput,
+  FeedbackRating,
+  FeedbackReason,
+  MAX_FEEDBACK_COMMENT_LENGTH,
+  MessageFeedback,
+} from '@/hooks/useFeedback';
+import { useLanguage } from '@/hooks/useLanguage';
+import { cn } from '@/lib/utils';
+
+interface FeedbackButtonsProps {
+  feedback?: MessageFeedback | null;
+  // null clears the rating
+  onFeedback: (input: FeedbackInput | null) => void;
+}
+
+// Thumbs up/down on an assistant reply. A click saves the rating right away and
+// offers a reason and comment; clicking the active thumb again clears it.
+export function FeedbackButtons({ feedback, onFeedback }: FeedbackButtonsProps) {
+  const { t } = useLanguage();
+  const [detailsFor, setDetailsFor] = useState<FeedbackRating | null>(null);
+  const [reason, setReason] = useState<FeedbackReason | null>(null);
+  const [comment, setComment] = useState('');
+
+  const rate = (rating: FeedbackRating) => {
+    if (feedback?.rating === rating) {
+      onFeedback(null);
+      setDetailsFor(null);
+      return;
+    }
+    onFeedback({ rating });
+    setReason(null);
+    setComment('');
+    setDetailsFor(rating);
+  };
+
+  const submitDetails = () => {
+    if (detailsFor) onFeedback({ rating: detailsFor, reason, comment });
+    setDetailsFor(null);
+  };
+
+  const thumbClass = (rating: FeedbackRating) => cn(
+    'p-1 rounded transition-all hover:bg-muted',
+    feedback?.rating === rating
+      ? 'text-primary'
+      : 'text-muted-foreground opacity-0 group-hover:opacity-100'
+  );
+
+  return (
+    <Popover open={!!detailsFor} onOpenChange={(open) => !open && setDetailsFor(null)}>
+      <PopoverAnchor asChild>
+        <div className="flex items-center">
+          <button onClick={() => rate('up')} title={t.feedback.good} className={thumbClass('up')}>
+            <ThumbsUp className="w-3 h-3" />
+          </button>
+          <button onClick={() => rate('down')} title={t.feedback.bad} className={thumbClass('down')}>
+            <ThumbsDown className="w-3 h-3" />
+          </button>
+        </div>
+      </PopoverAnchor>
+      <PopoverContent align="start" className="space-y-3">
+        <p className="text-sm font-medium">{detailsFor === 'up' ? t.feedback.whatWasGood : t.feedback.whatWentWrong}</p>
+        <div className="flex flex-wrap gap-1.5">
+          {detailsFor && FEEDBACK_REASONS[detailsFor].map(option => (
+            <button
+              key={option}
+              onClick={() => setReason(current => current === option ? null : option)}
+              className={cn(
+                'px-2 py-0.5 rounded-full text-xs border transition-colors',
+                reason === option
+                  ? 'border-primary bg-primary/10 text-foreground'
+                  : 'border-border text-muted-foreground hover:text-foreground'
+              )}
+            >
+              {t.feedback.reasons[option]}
+            </button>
+          ))}
+        </div>
+        <Textarea
+          value={comment}
+          onChange={(e) => setComment(e.target.value)}
+          placeholder={t.feedback.commentPlaceholder}
+          maxLength={MAX_FEEDBACK_COMMENT_LENGTH}
+          className="min-h-[60px] resize-none text-sm"
+        />
+        <div className="flex justify-end gap-2">
+          <Button size="sm" variant="ghost" onClick={() => setDetailsFor(null)}>
+            {t.feedback.skip}
+          </Button>
+          <Button size="sm" onClick={submitDetails} disabled={!reason && !comment.trim()}>
+            {t.feedback.send}
+          </Button>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
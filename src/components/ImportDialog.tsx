@@ -0,0 +1,235 @@
+import { useRef, useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { Upload, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { useAuth } from '@/hooks/useAuth';
+import { useLanguage } from '@/hooks/useLanguage';
+import { useToast } from '@/hooks/use-toast';
+import {
+  ImportedChat,
+  ImportFormatError,
+  findImportedChats,
+  importChat,
+  parseImportFile,
+} from '@/lib/chatImport';
+
+interface ImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Import in three steps: pick a file, review the conversations it holds (those
+// already in the account are left out), then write the selected ones one by one
+export function ImportDialog({ open, onOpenChange }: ImportDialogProps) {
+  const { user } = useAuth();
+  const { t } = useLanguage();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const [chats, setChats] = useState<ImportedChat[] | null>(null);
+  const [duplicates, setDuplicates] = useState<Set<string>>(new Set());
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [isReading, setIsReading] = useState(false);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+
+  const reset = () => {
+    setChats(null);
+    setDuplicates(new Set());
+    setSelected(new Set());
+    setProgress(null);
+  };
+
+  const handleOpenChange = (next: boolean) => {
+    if (progress) return; // Keep the dialog while writing
+    if (!next) reset();
+    onOpenChange(next);
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setIsReading(true);
+    try {
+      const parsed = parseImportFile(await file.text());
+      // The same conversation twice in one file is imported once
+      const unique = parsed.filter((chat, i) => parsed.findIndex(c => c.source_id === chat.source_id) === i);
+      if (unique.length === 0) {
+        toast({ title: t.import.empty, variant: 'destructive' });
+        return;
+      }
+
+      const existing = await findImportedChats(unique);
+      setChats(unique);
+      setDuplicates(existing);
+      setSelected(new Set(unique.filter(c => !existing.has(c.source_id)).map(c => c.source_id)));
+    } catch (error) {
+      console.error('Import file error:', error);
+      toast({
+        title: error instanceof ImportFormatError && error.message === 'unsupported_version'
+          ? t.import.unsupportedVersion
+          : error instanceof ImportFormatError ? t.import.invalidFile : t.auth.somethingWrong,
+        variant: 'destructive',
+      });
+    } finally {
+      setIsReading(false);
+    }
+  };
+
+  const toggle = (sourceId: string, checked: boolean) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (checked) next.add(sourceId);
+      else next.delete(sourceId);
+      return next;
+    });
+  };
+
+  const importable = chats?.filter(c => !duplicates.has(c.source_id)) ?? [];
+
+  const handleImport = async () => {
+    const toImport = importable.filter(c => selected.has(c.source_id));
+    if (toImport.length === 0) return;
+
+    let imported = 0;
+    let failed = 0;
+    let attachmentsSkipped = 0;
+    setProgress({ done: 0, total: toImport.length });
+
+    for (const chat of toImport) {
+      try {
+        const result = await importChat(chat);
+        imported++;
+        attachmentsSkipped += result.attachments_skipped;
+      } catch (error) {
+        // Imported meanwhile (e.g. in another tab) counts as done
+        if (error instanceof Error && error.message === 'already_imported') {
+          imported++;
+        } else {
+          console.error('Import chat error:', chat.source_id, error);
+          failed++;
+        }
+      }
+      setProgress({ done: imported + failed, total: toImport.length });
+    }
+
+    queryClient.invalidateQueries({ queryKey: ['chats', user?.id] });
+    toast({
+      title: `${t.import.done}: ${imported}${failed > 0 ? `, ${failed} ${t.import.failedCount}` : ''}`,
+      description: attachmentsSkipped > 0 ? t.import.attachmentsSkipped : undefined,
+      variant: failed > 0 && imported === 0 ? 'destructive' : 'default',
+    });
+
+    reset();
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{t.import.title}</DialogTitle>
+          <DialogDescription>{t.import.description}</DialogDescription>
+        </DialogHeader>
+
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".json,application/json"
+          onChange={handleFile}
+          className="hidden"
+        />
+
+        {!chats ? (
+          <Button onClick={() => fileInputRef.current?.click()} disabled={isReading} variant="outline" className="w-full">
+            {isReading ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Upload className="w-4 h-4 mr-2" />}
+            {t.import.chooseFile}
+          </Button>
+        ) : (
+          <>
+            <div className="flex items-center justify-between text-sm">
+              <span className="text-muted-foreground">{t.import.found}: {chats.length}</span>
+              <div className="flex gap-1">
+                <Button
+                  onClick={() => setSelected(new Set(importable.map(c => c.source_id)))}
+                  disabled={!!progress}
+                  variant="ghost"
+                  size="sm"
+                >
+                  {t.import.selectAll}
+                </Button>
+                <Button onClick={() => setSelected(new Set())} disabled={!!progress} variant="ghost" size="sm">
+                  {t.import.selectNone}
+                </Button>
+              </div>
+            </div>
+
+            {duplicates.size > 0 && (
+              <p className="text-xs text-muted-foreground">{t.import.duplicatesSkipped}</p>
+            )}
+
+            <div className="max-h-80 overflow-y-auto scrollbar-thin space-y-1 -mx-1 px-1">
+              {chats.map(chat => {
+                const isDuplicate = duplicates.has(chat.source_id);
+                return (
+                  <label
+                    key={chat.source_id}
+                    className="flex items-center gap-3 p-2 rounded-lg hover:bg-muted/50 cursor-pointer has-[:disabled]:cursor-default has-[:disabled]:opacity-60"
+                  >
+                    <Checkbox
+                      checked={!isDuplicate && selected.has(chat.source_id)}
+                      onCheckedChange={(checked) => toggle(chat.source_id, checked === true)}
+                      disabled={isDuplicate || !!progress}
+                    />
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm truncate">{chat.title}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {new Date(chat.created_at).toLocaleDateString()} · {chat.messages.length} {t.import.messages}
+                      </p>
+                    </div>
+                    {isDuplicate && (
+                      <span className="text-xs text-muted-foreground shrink-0">{t.import.alreadyImported}</span>
+                    )}
+                  </label>
+                );
+              })}
+            </div>
+          </>
+        )}
+
+        {chats && (
+          <DialogFooter className="gap-2">
+            <Button onClick={reset} disabled={!!progress} variant="ghost">
+              {t.import.back}
+            </Button>
+            <Button
+              onClick={handleImport}
+              disabled={!!progress || importable.every(c => !selected.has(c.source_id))}
+              variant="gradient"
+            >
+              {progress ? (
+                <>
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                  {t.import.importing} {progress.done}/{progress.total}
+                </>
+              ) : (
+                `${t.import.importSelected} (${importable.filter(c => selected.has(c.source_id)).length})`
+              )}
+            </Button>
+          </DialogFooter>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,43 @@
+import ReactMarkdown from 'react-markdown';
+import 'katex/dist/katex.min.css';
+import { CodeBlock } from '@/components/CodeBlock';
+import type { ArtifactKind } from '@/lib/artifacts';
+import { rehypePlugins, remarkPlugins } from '@/lib/markdown';
+
+interface MarkdownContentProps {
+  content: string;
+  isStreaming?: boolean;
+  // Lets JavaScript and Python blocks be run in the browser
+  runnableCode?: boolean;
+  onOpenArtifact?: (content: string, kind: ArtifactKind) => void;
+}
+
+// Markdown of a chat message: GFM, math, highlighted code and Mermaid diagrams
+export function MarkdownContent({ content, isStreaming, runnableCode, onOpenArtifact }: MarkdownContentProps) {
+  return (
+    <ReactMarkdown
+      remarkPlugins={remarkPlugins}
+      rehypePlugins={rehypePlugins}
+      components={{
+        pre: ({ node, children }) => (
+          <CodeBlock node={node} isStreaming={isStreaming} runnable={runnableCode} onOpenArtifact={onOpenArtifact}>
+            {children}
+          </CodeBlock>
+        ),
+        p: ({ children }) => <p className="mb-2 last:mb-0">{children}</p>,
+        ul: ({ children, className }) => <ul className={className ?? "list-disc list-inside mb-2"}>{children}</ul>,
+        ol: ({ children }) => <ol className="list-decimal list-inside mb-2">{children}</ol>,
+        table: ({ children }) => (
+          <div className="my-2 overflow-x-auto">
+            <table className="my-0">{children}</table>
+          </div>
+        ),
+        a: ({ children, href }) => (
+          <a href={href} target="_blank" rel="noopener noreferrer nofollow">{children}</a>
+        ),
+      }}
+    >
+      {content}
+    </ReactMarkdown>
+  );
+}
@@ -0,0 +1,65 @@
+import { Brain, Check, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useMemories } from '@/hooks/useMemories';
+import { useLanguage } from '@/hooks/useLanguage';
+import { useToast } from '@/hooks/use-toast';
+
+interface MemoryProposalsProps {
+  // Messages of the open chat; only proposals drawn from them are shown
+  messageIds: string[];
+}
+
+export function MemoryProposals({ messageIds }: MemoryProposalsProps) {
+  const { proposedMemories, confirmMemory, dismissMemory } = useMemories();
+  const { t } = useLanguage();
+  const { toast } = useToast();
+
+  const proposals = proposedMemories.filter(
+    m => m.source_message_id && messageIds.includes(m.source_message_id)
+  );
+
+  if (proposals.length === 0) return null;
+
+  const run = async (action: () => Promise<unknown>, successTitle?: string) => {
+    try {
+      await action();
+      if (successTitle) toast({ title: successTitle });
+    } catch {
+      toast({ title: t.auth.somethingWrong, variant: 'destructive' });
+    }
+  };
+
+  return (
+    <div className="mx-4 mb-2 glass-card px-4 py-3 animate-fade-in">
+      <div className="flex items-center gap-2 mb-2 text-sm font-medium">
+        <Brain className="w-4 h-4 text-primary" />
+        {t.memory.rememberThis}
+      </div>
+      <div className="space-y-1">
+        {proposals.map(memory => (
+          <div key={memory.id} className="flex items-center gap-2">
+            <span className="flex-1 text-sm text-muted-foreground">{memory.content}</span>
+            <Button
+              onClick={() => run(() => confirmMemory.mutateAsync(memory.id), t.memory.saved)}
+              variant="ghost"
+              size="sm"
+              className="h-7 text-primary"
+            >
+              <Check className="w-4 h-4 mr-1" />
+              {t.memory.confirm}
+            </Button>
+            <Button
+              onClick={() => run(() => dismissMemory.mutateAsync(memory.id))}
+              variant="ghost"
+              size="icon"
+              className="h-7 w-7"
+              title={t.memory.dismiss}
+            >
+              <X className="w-4 h-4" />
+            </Button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,147 @@
+import { useState } from 'react';
+import { Brain, Check, X, Pencil, Trash2, Plus } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { useMemories, MAX_MEMORY_LENGTH, UserMemory } from '@/hooks/useMemories';
+import { useLanguage } from '@/hooks/useLanguage';
+import { useToast } from '@/hooks/use-toast';
+
+// Memories section of the settings: the user's saved facts and the assistant's
+// pending proposals
+export function MemorySettings() {
+  const { activeMemories, proposedMemories, addMemory, updateMemory, confirmMemory, dismissMemory, deleteMemory } = useMemories();
+  const { t } = useLanguage();
+  const { toast } = useToast();
+  const [newMemory, setNewMemory] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editValue, setEditValue] = useState('');
+
+  const run = async (action: () => Promise<unknown>, successTitle?: string) => {
+    try {
+      await action();
+      if (successTitle) toast({ title: successTitle });
+    } catch {
+      toast({ title: t.auth.somethingWrong, variant: 'destructive' });
+    }
+  };
+
+  const handleAdd = () => {
+    const content = newMemory.trim();
+    if (!content) return;
+    run(async () => {
+      await addMemory.mutateAsync(content);
+      setNewMemory('');
+    }, t.memory.saved);
+  };
+
+  const startEditing = (memory: UserMemory) => {
+    setEditingId(memory.id);
+    setEditValue(memory.content);
+  };
+
+  const handleSaveEdit = () => {
+    const content = editValue.trim();
+    if (!editingId || !content) return;
+    run(async () => {
+      await updateMemory.mutateAsync({ memoryId: editingId, content });
+      setEditingId(null);
+    });
+  };
+
+  const renderMemory = (memory: UserMemory) => {
+    if (editingId === memory.id) {
+      return (
+        <div key={memory.id} className="flex gap-2">
+          <Input
+            value={editValue}
+            onChange={(e) => setEditValue(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleSaveEdit()}
+            maxLength={MAX_MEMORY_LENGTH}
+            className="flex-1"
+            autoFocus
+          />
+          <Button onClick={handleSaveEdit} disabled={!editValue.trim() || updateMemory.isPending} size="sm">
+            {t.settings.save}
+          </Button>
+          <Button onClick={() => setEditingId(null)} variant="ghost" size="sm">
+            <X className="w-4 h-4" />
+          </Button>
+        </div>
+      );
+    }
+
+    const isProposed = memory.status === 'proposed';
+    return (
+      <div key={memory.id} className="group flex items-start gap-2 p-2 rounded-lg hover:bg-muted/50">
+        <span className="flex-1 text-sm break-words">{memory.content}</span>
+        {isProposed && (
+          <Button
+            onClick={() => run(() => confirmMemory.mutateAsync(memory.id), t.memory.saved)}
+            variant="ghost"
+            size="icon"
+            className="h-7 w-7 text-primary"
+            title={t.memory.confirm}
+          >
+            <Check className="w-4 h-4" />
+          </Button>
+        )}
+        <Button
+          onClick={() => startEditing(memory)}
+          variant="ghost"
+          size="icon"
+          className="h-7 w-7"
+          title={t.memory.edit}
+        >
+          <Pencil className="w-4 h-4" />
+        </Button>
+        <Button
+          onClick={() => run(() => (isProposed ? dismissMemory : deleteMemory).mutateAsync(memory.id))}
+          variant="ghost"
+          size="icon"
+          className="h-7 w-7 text-muted-foreground hover:text-destructive"
+          title={isProposed ? t.memory.dismiss : t.memory.delete}
+        >
+          {isProposed ? <X className="w-4 h-4" /> : <Trash2 className="w-4 h-4" />}
+        </Button>
+      </div>
+    );
+  };
+
+  return (
+    <div className="glass-card p-4 mb-6">
+      <div className="flex items-center gap-2 mb-1">
+        <Brain className="w-5 h-5 text-primary" />
+        <span className="font-semibold">{t.memory.title}</span>
+      </div>
+      <p className="text-xs text-muted-foreground mb-4">{t.memory.description}</p>
+
+      {proposedMemories.length > 0 && (
+        <div className="mb-4">
+          <p className="text-xs font-medium text-secondary mb-1">{t.memory.proposed}</p>
+          <div className="space-y-1">{proposedMemories.map(renderMemory)}</div>
+        </div>
+      )}
+
+      {activeMemories.length > 0 ? (
+        <div className="space-y-1 mb-4">{activeMemories.map(renderMemory)}</div>
+      ) : (
+        <p className="text-sm text-muted-foreground mb-4">{t.memory.empty}</p>
+      )}
+
+      <div className="flex gap-2">
+        <Input
+          value={newMemory}
+          onChange={(e) => setNewMemory(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleAdd()}
+          placeholder={t.memory.addPlaceholder}
+          maxLength={MAX_MEMORY_LENGTH}
+          className="flex-1"
+        />
+        <Button onClick={handleAdd} disabled={!newMemory.trim() || addMemory.isPending} size="sm" variant="outline">
+          <Plus className="w-4 h-4 mr-1" />
+          {t.memory.add}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,57 @@
+import { useEffect, useId, useState } from 'react';
+
+type Mermaid = typeof import('mermaid')['default'];
+
+// Mermaid is large, so it is only loaded once a diagram is shown
+let mermaidPromise: Promise<Mermaid> | null = null;
+
+function loadMermaid(): Promise<Mermaid> {
+  mermaidPromise ??= import('mermaid').then(({ default: mermaid }) => {
+    // Strict mode sanitizes labels and disables click handlers in diagrams
+    mermaid.initialize({ startOnLoad: false, securityLevel: 'strict', theme: 'dark' });
+    return mermaid;
+  });
+  return mermaidPromise;
+}
+
+interface MermaidDiagramProps {
+  source: string;
+  // Shown instead when the diagram can't be drawn
+  fallback: React.ReactNode;
+}
+
+export function MermaidDiagram({ source, fallback }: MermaidDiagramProps) {
+  const id = `mermaid-${useId().replace(/[^a-zA-Z0-9_-]/g, '')}`;
+  const [svg, setSvg] = useState<string | null>(null);
+  const [failed, setFailed] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    setFailed(false);
+
+    loadMermaid()
+      .then(mermaid => mermaid.render(id, source))
+      .then(({ svg }) => {
+        if (!cancelled) setSvg(svg);
+      })
+      .catch((error) => {
+        console.error('Mermaid render error:', error);
+        if (!cancelled) setFailed(true);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [id, source]);
+
+  if (failed) return <>{fallback}</>;
+  if (!svg) return <div className="h-24 rounded-lg bg-muted/50 animate-pulse" />;
+
+  // The SVG comes from Mermaid in strict mode, which sanitizes it
+  return (
+    <div
+      className="my-2 flex justify-center overflow-x-auto rounded-lg bg-muted/30 p-3 not-prose"
+      dangerouslySetInnerHTML={{ __html: svg }}
+    />
+  );
+}
@@ -0,0 +1,65 @@
+import { FileText } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { MessageAttachment } from '@/hooks/useChats';
+import { useAttachmentUrl } from '@/hooks/useAttachmentUrl';
+import { formatFileSize } from '@/lib/attachments';
+
+function AttachmentImage({ attachment }: { attachment: MessageAttachment }) {
+  const src = useAttachmentUrl(attachment.storage_path);
+  if (!src) return <div className="w-32 h-32 rounded-lg bg-muted animate-pulse" />;
+
+  return (
+    <a href={src} target="_blank" rel="noopener noreferrer">
+      <img src={src} alt={attachment.file_name} className="max-w-xs max-h-64 rounded-lg" />
+    </a>
+  );
+}
+
+function AttachmentChip({ attachment }: { attachment: MessageAttachment }) {
+  const href = useAttachmentUrl(attachment.storage_path);
+
+  return (
+    <a
+      href={href ?? undefined}
+      target="_blank"
+      rel="noopener noreferrer"
+      className="flex items-center gap-2 max-w-[16rem] px-3 py-2 rounded-lg bg-muted/60 hover:bg-muted transition-colors text-left"
+    >
+      <FileText className="w-4 h-4 shrink-0 text-primary" />
+      <span className="truncate text-xs">{attachment.file_name}</span>
+      {attachment.size_bytes > 0 && (
+        <span className="shrink-0 text-xs text-muted-foreground">{formatFileSize(attachment.size_bytes)}</span>
+      )}
+    </a>
+  );
+}
+
+interface MessageAttachmentsProps {
+  attachments: MessageAttachment[];
+  alignEnd?: boolean;
+}
+
+// Images shown inline, documents as chips linking to the file
+export function MessageAttachments({ attachments, alignEnd }: MessageAttachmentsProps) {
+  const images = attachments.filter(a => a.kind === 'image');
+  const documents = attachments.filter(a => a.kind === 'document');
+
+  return (
+    <div className={cn('flex flex-col gap-2 mb-2', alignEnd && 'items-end')}>
+      {images.length > 0 && (
+        <div className={cn('flex flex-wrap gap-2', alignEnd && 'justify-end')}>
+          {images.map(attachment => (
+            <AttachmentImage key={attachment.id} attachment={attachment} />
+          ))}
+        </div>
+      )}
+      {documents.length > 0 && (
+        <div className={cn('flex flex-wrap gap-2', alignEnd && 'justify-end')}>
+          {documents.map(attachment => (
+            <AttachmentChip key={attachment.id} attachment={attachment} />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
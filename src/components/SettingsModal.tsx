@@ -1,10 +1,13 @@
 import { useState, useEffect } from 'react';
-import { X, Crown, Coins, Sparkles, Zap, Check, Bot, Lock, User, Clock, MessageSquare, Image, Pencil, Tag, Percent } from 'lucide-react';
+import { X, Crown, Coins, Sparkles, Zap, Check, Bot, Lock, User, Clock, MessageSquare, Image, Pencil, Tag, Percent, Hash, Gauge } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { TCoinBadge } from './TCoinBadge';
 import { LanguageSelector } from './LanguageSelector';
+import { MemorySettings } from './MemorySettings';
+import { DataSettings } from './DataSettings';
 import { useProfile } from '@/hooks/useProfile';
+import { useModels, getModelDescription } from '@/hooks/useModels';
 import { useLanguage } from '@/hooks/useLanguage';
 import { useToast } from '@/hooks/use-toast';
 import { useAuth } from '@/hooks/useAuth';
@@ -15,27 +18,6 @@ interface SettingsModalProps {
   onClose: () => void;
 }
 
-const AI_MODELS = [
-  { 
-    id: 'thetai-1.0-free', 
-    nameKey: 'modelFree' as const,
-    descKey: 'modelFreeDesc' as const,
-    plusOnly: false 
-  },
-  { 
-    id: 'thetai-1.0-nano', 
-    nameKey: 'modelNano' as const,
-    descKey: 'modelNanoDesc' as const,
-    plusOnly: true 
-  },
-  { 
-    id: 'thetai-1.0-omni', 
-    nameKey: 'modelOmni' as const,
-    descKey: 'modelOmniDesc' as const,
-    plusOnly: true 
-  },
-];
-
 function formatTimeRemaining(resetAt: string, t: any): string {
   const reset = new Date(resetAt);
   const now = new Date();
@@ -52,10 +34,16 @@ function formatTimeRemaining(resetAt: string, t: any): string {
   return `${minutes}${t.settings.minutes}`;
 }
 
+// Stopped replies are charged a share of a message
+function formatMessages(used: number): string {
+  return used.toLocaleString(undefined, { maximumFractionDigits: 1 });
+}
+
 export function SettingsModal({ isOpen, onClose }: SettingsModalProps) {
   const { profile, limits, upgradeToPlusAccount, updateSelectedModel, updateDisplayName } = useProfile();
   const { user } = useAuth();
-  const { t } = useLanguage();
+  const { models } = useModels();
+  const { t, language } = useLanguage();
   const { toast } = useToast();
   const queryClient = useQueryClient();
   const [isUpgrading, setIsUpgrading] = useState(false);
@@ -168,10 +156,10 @@ export function SettingsModal({ isOpen, onClose }: SettingsModalProps) {
   };
 
   const handleModelSelect = async (modelId: string) => {
-    const model = AI_MODELS.find(m => m.id === modelId);
+    const model = models.find(m => m.id === modelId);
     if (!model) return;
     
-    if (model.plusOnly && !profile?.is_plus) {
+    if (model.tier === 'plus' && !profile?.is_plus) {
       toast({
         title: t.settings.plusOnly,
         variant: 'destructive'
@@ -297,20 +285,70 @@ export function SettingsModal({ isOpen, onClose }: SettingsModalProps) {
                     <span className="text-sm">{t.settings.messages}</span>
                   </div>
                   <span className="text-sm font-mono">
-                    {limits.messages_used} / {limits.messages_limit}
+                    {limits.metric === 'messages'
+                      ? `${formatMessages(limits.messages_used)} / ${limits.messages_limit}`
+                      : formatMessages(limits.messages_used)}
                   </span>
                 </div>
-                <div className="h-2 bg-muted rounded-full overflow-hidden">
-                  <div 
-                    className="h-full bg-primary transition-all"
-                    style={{ width: `${Math.min((limits.messages_used / limits.messages_limit) * 100, 100)}%` }}
-                  />
-                </div>
+                {limits.metric === 'messages' && (
+                  <div className="h-2 bg-muted rounded-full overflow-hidden">
+                    <div 
+                      className="h-full bg-primary transition-all"
+                      style={{ width: `${Math.min((limits.messages_used / limits.messages_limit) * 100, 100)}%` }}
+                    />
+                  </div>
+                )}
                 <p className="text-xs text-muted-foreground mt-1">
                   {t.settings.resetsIn}: {formatTimeRemaining(limits.usage_resets_at, t)}
                 </p>
               </div>
 
+              {/* Tokens, the limit when the plan is metered by tokens */}
+              <div>
+                <div className="flex items-center justify-between mb-1">
+                  <div className="flex items-center gap-2">
+                    <Hash className="w-4 h-4 text-muted-foreground" />
+                    <span className="text-sm">{t.settings.tokens}</span>
+                  </div>
+                  <span className="text-sm font-mono">
+                    {limits.metric === 'tokens'
+                      ? `${limits.tokens_used.toLocaleString()} / ${limits.tokens_limit.toLocaleString()}`
+                      : limits.tokens_used.toLocaleString()}
+                  </span>
+                </div>
+                {limits.metric === 'tokens' && (
+                  <div className="h-2 bg-muted rounded-full overflow-hidden">
+                    <div 
+                      className="h-full bg-primary transition-all"
+                      style={{ width: `${Math.min((limits.tokens_used / limits.tokens_limit) * 100, 100)}%` }}
+                    />
+                  </div>
+                )}
+                <p className="text-xs text-muted-foreground mt-1">{t.settings.tokensBreakdown}</p>
+              </div>
+
+              {/* Credits: tokens weighted by model cost */}
+              {limits.metric === 'credits' && (
+                <div>
+                  <div className="flex items-center justify-between mb-1">
+                    <div className="flex items-center gap-2">
+                      <Gauge className="w-4 h-4 text-muted-foreground" />
+                      <span className="text-sm">{t.settings.credits}</span>
+                    </div>
+                    <span className="text-sm font-mono">
+                      {limits.credits_used} / {limits.credits_limit}
+                    </span>
+                  </div>
+                  <div className="h-2 bg-muted rounded-full overflow-hidden">
+                    <div 
+                      className="h-full bg-primary transition-all"
+                      style={{ width: `${Math.min((limits.credits_used / limits.credits_limit) * 100, 100)}%` }}
+                    />
+                  </div>
+                  <p className="text-xs text-muted-foreground mt-1">{t.settings.creditsHint}</p>
+                </div>
+              )}
+
               {/* Images in prompts */}
               <div>
                 <div className="flex items-center justify-between mb-1">
@@ -371,9 +409,10 @@ export function SettingsModal({ isOpen, onClose }: SettingsModalProps) {
             <span className="font-semibold">{t.settings.aiModel}</span>
           </div>
           <div className="space-y-2">
-            {AI_MODELS.map((model) => {
+            {models.map((model) => {
               const isSelected = profile?.selected_model === model.id;
-              const isLocked = model.plusOnly && !profile?.is_plus;
+              const isPlusModel = model.tier === 'plus';
+              const isLocked = isPlusModel && !profile?.is_plus;
               
               return (
                 <button
@@ -392,9 +431,9 @@ export function SettingsModal({ isOpen, onClose }: SettingsModalProps) {
                     <div>
                       <div className="flex items-center gap-2">
                         <span className="font-mono text-sm font-medium">
-                          {t.settings[model.nameKey]}
+                          {model.display_name}
                         </span>
-                        {model.plusOnly && (
+                        {isPlusModel && (
                           <span className="flex items-center gap-1 text-xs text-secondary">
                             {isLocked ? <Lock className="w-3 h-3" /> : <Crown className="w-3 h-3" />}
                             Plus
@@ -402,7 +441,7 @@ export function SettingsModal({ isOpen, onClose }: SettingsModalProps) {
                         )}
                       </div>
                       <p className="text-xs text-muted-foreground mt-1">
-                        {t.settings[model.descKey]}
+                        {getModelDescription(model, language)}
                       </p>
                     </div>
                     {isSelected && (
@@ -415,6 +454,10 @@ export function SettingsModal({ isOpen, onClose }: SettingsModalProps) {
           </div>
         </div>
 
+        <MemorySettings />
+
+        <DataSettings />
+
         {/* Profile info */}
         <div className="glass-card p-4 mb-6">
           <div className="flex items-center justify-between mb-4">
@@ -0,0 +1,105 @@
+import { Copy, Link2, Loader2, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import type { Chat } from '@/hooks/useChats';
+import { useShares, shareUrl } from '@/hooks/useShares';
+import { useLanguage } from '@/hooks/useLanguage';
+import { useToast } from '@/hooks/use-toast';
+
+interface ShareDialogProps {
+  chat: Chat | null;
+  // Branch being viewed, when the chat is open; otherwise the newest branch is shared
+  messageIds?: string[];
+  onOpenChange: (open: boolean) => void;
+}
+
+export function ShareDialog({ chat, messageIds, onOpenChange }: ShareDialogProps) {
+  const { t } = useLanguage();
+  const { toast } = useToast();
+  const { shares, sharesLoading, createShare, revokeShare } = useShares(chat?.id ?? null);
+
+  const copyLink = async (slug: string) => {
+    try {
+      await navigator.clipboard.writeText(shareUrl(slug));
+      toast({ title: t.share.copied });
+    } catch (error) {
+      console.error('Copy share link error:', error);
+    }
+  };
+
+  const handleCreate = async () => {
+    try {
+      const slug = await createShare.mutateAsync(messageIds?.length ? messageIds : undefined);
+      await copyLink(slug);
+    } catch (error) {
+      console.error('Create share link error:', error);
+      toast({ title: t.share.failed, variant: 'destructive' });
+    }
+  };
+
+  const handleRevoke = async (shareId: string) => {
+    try {
+      await revokeShare.mutateAsync(shareId);
+      toast({ title: t.share.revoked });
+    } catch (error) {
+      console.error('Revoke share link error:', error);
+      toast({ title: t.auth.somethingWrong, variant: 'destructive' });
+    }
+  };
+
+  return (
+    <Dialog open={!!chat} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{t.share.title}</DialogTitle>
+          <DialogDescription>{t.share.description}</DialogDescription>
+        </DialogHeader>
+
+        <Button onClick={handleCreate} disabled={createShare.isPending} variant="gradient" className="w-full">
+          {createShare.isPending ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Link2 className="w-4 h-4 mr-2" />}
+          {t.share.create}
+        </Button>
+
+        {sharesLoading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : shares.length > 0 && (
+          <div className="space-y-2">
+            <p className="text-sm font-medium">{t.share.activeLinks}</p>
+            {shares.map(share => (
+              <div key={share.id} className="space-y-1">
+                <div className="flex items-center gap-2">
+                  <Input value={shareUrl(share.slug)} readOnly onFocus={(e) => e.target.select()} className="h-8 text-xs" />
+                  <Button onClick={() => copyLink(share.slug)} variant="ghost" size="icon" className="h-8 w-8 shrink-0" title={t.share.copy}>
+                    <Copy className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    onClick={() => handleRevoke(share.id)}
+                    disabled={revokeShare.isPending}
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8 shrink-0 text-destructive hover:text-destructive"
+                    title={t.share.revoke}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  {t.share.createdAt} {new Date(share.created_at).toLocaleString()}
+                </p>
+              </div>
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
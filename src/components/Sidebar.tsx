@@ -1,33 +1,45 @@
 import { useState } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { Plus, MessageSquare, Trash2, Settings, Crown, LogOut, Menu, X, Gamepad2, ImageIcon, Mic, FolderOpen } from 'lucide-react';
+import { Plus, MessageSquare, Settings, Crown, LogOut, Menu, X, Gamepad2, ImageIcon, Mic, FolderOpen, BookOpen, Search, BarChart3 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
 import { TCoinBadge } from './TCoinBadge';
+import { ChatSearchResults } from './ChatSearchResults';
+import { ChatList } from './ChatList';
 import { useAuth } from '@/hooks/useAuth';
 import { useProfile } from '@/hooks/useProfile';
-import { useChats } from '@/hooks/useChats';
+import { useIsAdmin } from '@/hooks/useAdmin';
 import { useLanguage } from '@/hooks/useLanguage';
+import type { ChatSearchResult } from '@/hooks/useChatSearch';
 import { cn } from '@/lib/utils';
 
 interface SidebarProps {
   currentChatId?: string | null;
+  currentBranchIds?: string[];
   onSelectChat?: (chatId: string) => void;
   onNewChat?: () => void;
   onOpenSettings: () => void;
   showChats?: boolean;
 }
 
-export function Sidebar({ currentChatId, onSelectChat, onNewChat, onOpenSettings, showChats = true }: SidebarProps) {
+export function Sidebar({ currentChatId, currentBranchIds, onSelectChat, onNewChat, onOpenSettings, showChats = true }: SidebarProps) {
   const navigate = useNavigate();
   const { signOut } = useAuth();
   const { profile } = useProfile();
-  const { chats, deleteChat } = useChats();
+  const { isAdmin } = useIsAdmin();
   const { t } = useLanguage();
   const [isOpen, setIsOpen] = useState(false);
+  const [searchQuery, setSearchQuery] = useState('');
+  const isSearching = searchQuery.trim().length > 0;
 
-  const handleDeleteChat = async (e: React.MouseEvent, chatId: string) => {
-    e.stopPropagation();
-    await deleteChat.mutateAsync(chatId);
+  // Message hits open the chat scrolled to the message (handled by the chat page)
+  const handleOpenResult = (result: ChatSearchResult) => {
+    if (result.message_id) {
+      navigate(`/?chat=${result.chat_id}&message=${result.message_id}`);
+    } else {
+      onSelectChat?.(result.chat_id);
+    }
+    setIsOpen(false);
   };
 
   const SidebarContent = () => (
@@ -54,37 +66,43 @@ export function Sidebar({ currentChatId, onSelectChat, onNewChat, onOpenSettings
             {t.chat.newChat}
           </Button>
         )}
+
+        {showChats && onSelectChat && (
+          <div className="relative mt-3">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+            <Input
+              value={searchQuery}
+              onChange={(e) => setSearchQuery(e.target.value)}
+              onKeyDown={(e) => e.key === 'Escape' && setSearchQuery('')}
+              placeholder={t.sidebar.searchPlaceholder}
+              className="pl-9 pr-8 h-9"
+            />
+            {isSearching && (
+              <button
+                onClick={() => setSearchQuery('')}
+                className="absolute right-2 top-1/2 -translate-y-1/2 p-1 text-muted-foreground hover:text-foreground"
+                title={t.sidebar.clearSearch}
+              >
+                <X className="w-3.5 h-3.5" />
+              </button>
+            )}
+          </div>
+        )}
       </div>
 
       {/* Chats list */}
       <div className="flex-1 overflow-y-auto scrollbar-thin p-2">
-        {showChats && onSelectChat ? (
-          <div className="space-y-1">
-            {chats.map((chat) => (
-              <div
-                key={chat.id}
-                onClick={() => {
-                  onSelectChat(chat.id);
-                  setIsOpen(false);
-                }}
-                className={cn(
-                  'group flex items-center gap-2 px-3 py-2.5 rounded-lg cursor-pointer transition-all duration-200',
-                  currentChatId === chat.id
-                    ? 'bg-primary/10 text-primary border border-primary/20'
-                    : 'hover:bg-muted text-muted-foreground hover:text-foreground'
-                )}
-              >
-                <MessageSquare className="w-4 h-4 shrink-0" />
-                <span className="flex-1 truncate text-sm">{chat.title}</span>
-                <button
-                  onClick={(e) => handleDeleteChat(e, chat.id)}
-                  className="opacity-0 group-hover:opacity-100 p-1 hover:bg-destructive/20 rounded transition-all"
-                >
-                  <Trash2 className="w-3.5 h-3.5 text-destructive" />
-                </button>
-              </div>
-            ))}
-          </div>
+        {showChats && onSelectChat && isSearching ? (
+          <ChatSearchResults query={searchQuery} onOpen={handleOpenResult} />
+        ) : showChats && onSelectChat ? (
+          <ChatList
+            currentChatId={currentChatId}
+            currentBranchIds={currentBranchIds}
+            onSelectChat={(chatId) => {
+              onSelectChat(chatId);
+              setIsOpen(false);
+            }}
+          />
         ) : (
           <div className="p-4 text-center text-muted-foreground text-sm">
             <MessageSquare className="w-8 h-8 mx-auto mb-2 opacity-50" />
@@ -100,7 +118,7 @@ export function Sidebar({ currentChatId, onSelectChat, onNewChat, onOpenSettings
           <TCoinBadge amount={profile?.tcoins ?? 0} />
         </div>
 
-        <div className="grid grid-cols-4 gap-2">
+        <div className="grid grid-cols-5 gap-2">
           <Button 
             onClick={() => navigate('/games')} 
             variant="outline" 
@@ -128,6 +146,15 @@ export function Sidebar({ currentChatId, onSelectChat, onNewChat, onOpenSettings
           >
             <FolderOpen className="w-4 h-4" />
           </Button>
+          <Button 
+            onClick={() => navigate('/knowledge')} 
+            variant="outline" 
+            size="sm" 
+            className="border-emerald-500/50 text-emerald-500 hover:bg-emerald-500/10"
+            title={t.sidebar.knowledge}
+          >
+            <BookOpen className="w-4 h-4" />
+          </Button>
           <Button 
             onClick={() => navigate('/voice-chat')} 
             variant="outline" 
@@ -144,6 +171,11 @@ export function Sidebar({ currentChatId, onSelectChat, onNewChat, onOpenSettings
             <Settings className="w-4 h-4" />
             {t.chat.settings}
           </Button>
+          {isAdmin && (
+            <Button onClick={() => navigate('/admin/feedback')} variant="ghost" size="sm" title={t.feedback.dashboardTitle}>
+              <BarChart3 className="w-4 h-4" />
+            </Button>
+          )}
           <Button onClick={signOut} variant="ghost" size="sm">
             <LogOut className="w-4 h-4" />
           </Button>
@@ -178,7 +210,8 @@ export function Sidebar({ currentChatId, onSelectChat, onNewChat, onOpenSettings
         'md:translate-x-0',
         isOpen ? 'translate-x-0' : '-translate-x-full'
       )}>
-        <SidebarContent />
+        {/* Called rather than mounted, so the search input keeps focus across renders */}
+        {SidebarContent()}
       </aside>
     </>
   );
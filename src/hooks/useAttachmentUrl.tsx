@@ -0,0 +1,28 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { ATTACHMENTS_BUCKET, isStoredAttachment } from '@/lib/attachments';
+
+const SIGNED_URL_TTL_SECONDS = 60 * 60;
+
+// Resolves a message attachment to something an <img> can load. Stored attachments
+// get a signed URL, re-signed when a message mounts close to its expiry.
+export function useAttachmentUrl(ref: string | null) {
+  const isStored = !!ref && isStoredAttachment(ref);
+
+  const { data: signedUrl } = useQuery({
+    queryKey: ['attachment-url', ref],
+    queryFn: async () => {
+      const { data, error } = await supabase.storage
+        .from(ATTACHMENTS_BUCKET)
+        .createSignedUrl(ref!, SIGNED_URL_TTL_SECONDS);
+
+      if (error) throw error;
+      return data.signedUrl;
+    },
+    enabled: isStored,
+    staleTime: (SIGNED_URL_TTL_SECONDS - 5 * 60) * 1000,
+  });
+
+  if (!ref) return null;
+  return isStored ? signedUrl ?? null : ref;
+}
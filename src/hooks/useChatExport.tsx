@@ -0,0 +1,35 @@
+import { useState } from 'react';
+import { exportChats, ExportFormat } from '@/lib/chatExport';
+import type { Chat } from './useChats';
+import { useLanguage } from './useLanguage';
+import { useToast } from './use-toast';
+
+export function useChatExport() {
+  const { t } = useLanguage();
+  const { toast } = useToast();
+  const [isExporting, setIsExporting] = useState(false);
+
+  const runExport = async (chats: Chat[], format: ExportFormat) => {
+    if (chats.length === 0) {
+      toast({ title: t.export.noChats });
+      return;
+    }
+
+    setIsExporting(true);
+    try {
+      await exportChats(chats, format, {
+        user: t.sidebar.you,
+        assistant: 'ThetAI',
+        stopped: t.chat.stopped,
+      });
+    } catch (error) {
+      console.error('Export error:', error);
+      const popupBlocked = error instanceof Error && error.message === 'popup_blocked';
+      toast({ title: popupBlocked ? t.export.popupBlocked : t.export.failed, variant: 'destructive' });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return { exportChats: runExport, isExporting };
+}
@@ -0,0 +1,59 @@
+import { useState, useEffect } from 'react';
+import { useQuery, keepPreviousData } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from './useAuth';
+
+export interface ChatSearchResult {
+  chat_id: string;
+  chat_title: string;
+  // null when the chat title matched rather than a message
+  message_id: string | null;
+  role: 'user' | 'assistant' | null;
+  // Matches are wrapped in <mark></mark>; the text is not HTML escaped
+  snippet: string;
+  created_at: string;
+  rank: number;
+}
+
+const SEARCH_DEBOUNCE_MS = 300;
+const MIN_QUERY_LENGTH = 2;
+
+export function useChatSearch(query: string) {
+  const { user } = useAuth();
+  const [debouncedQuery, setDebouncedQuery] = useState(query.trim());
+
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedQuery(query.trim()), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [query]);
+
+  const enabled = !!user && debouncedQuery.length >= MIN_QUERY_LENGTH;
+
+  const { data: results = [], isFetching: searching } = useQuery({
+    queryKey: ['chat-search', user?.id, debouncedQuery],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('search_chats', { _query: debouncedQuery });
+
+      if (error) throw error;
+      return data as ChatSearchResult[];
+    },
+    enabled,
+    placeholderData: keepPreviousData,
+    staleTime: 30_000,
+  });
+
+  return {
+    results: enabled ? results : [],
+    searching,
+  };
+}
+
+// Splits a snippet into plain and highlighted parts for rendering without HTML
+export function splitSnippet(snippet: string): { text: string; highlighted: boolean }[] {
+  return snippet
+    .split(/(<mark>.*?<\/mark>)/g)
+    .filter(Boolean)
+    .map(part => part.startsWith('<mark>') && part.endsWith('</mark>')
+      ? { text: part.slice('<mark>'.length, -'</mark>'.length), highlighted: true }
+      : { text: part, highlighted: false });
+}
@@ -1,21 +1,67 @@
+import { useState, useEffect, useMemo, useCallback, useId } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
+import { buildActiveBranch, parentKey, selectionForMessage } from '@/lib/messageTree';
 import { useAuth } from './useAuth';
 
 export interface Chat {
   id: string;
   user_id: string;
   title: string;
+  // 'default' until the chat function names the chat after its first exchange ('auto');
+  // 'manual' once the user renamed it, which generated titles never overwrite
+  title_source: 'default' | 'auto' | 'manual';
+  // Replies draw on the user's knowledge base
+  use_knowledge: boolean;
+  folder_id: string | null;
+  // Pinned chats are listed first, most recently pinned on top
+  pinned_at: string | null;
+  // Per-chat overrides; null follows the profile's model and the provider's defaults
+  model: string | null;
+  temperature: number | null;
+  custom_instructions: string | null;
   created_at: string;
   updated_at: string;
 }
 
+export type ChatSettings = Pick<Chat, 'model' | 'temperature' | 'custom_instructions'>;
+
+export interface MessageAttachment {
+  id: string;
+  message_id: string | null;
+  storage_path: string;
+  file_name: string;
+  mime_type: string;
+  kind: 'image' | 'document';
+  size_bytes: number;
+  created_at: string;
+}
+
+// Knowledge base chunk an assistant reply was grounded on, cited as [n] in order
+export interface MessageSource {
+  chunk_id: string;
+  document_id: string;
+  title: string;
+  chunk_index: number;
+  similarity: number;
+}
+
 export interface Message {
   id: string;
   chat_id: string;
+  parent_id: string | null;
   role: 'user' | 'assistant';
   content: string;
-  image_url: string | null;
+  attachments: MessageAttachment[];
+  pinned: boolean;
+  // The user stopped the reply before it finished
+  truncated: boolean;
+  sources: MessageSource[] | null;
+  // ThetAI model that wrote an assistant reply; null for user turns and older replies
+  model: string | null;
+  // Tokens the reply used, as metered by the chat function; null for user turns and older replies
+  prompt_tokens: number | null;
+  completion_tokens: number | null;
   created_at: string;
 }
 
@@ -58,6 +104,8 @@ const retryOperation = async <T,>(
 export function useChats() {
   const { user } = useAuth();
   const queryClient = useQueryClient();
+  // The hook is used by several components at once; each needs its own channel
+  const channelId = useId();
 
   const { data: chats = [], isLoading: chatsLoading } = useQuery({
     queryKey: ['chats', user?.id],
@@ -80,6 +128,24 @@ export function useChats() {
     retryDelay: (attemptIndex) => Math.min(1000 * 2 ** attemptIndex, 10000),
   });
 
+  // Generated titles are written by the chat function after the reply has finished
+  useEffect(() => {
+    if (!user) return;
+
+    const channel = supabase
+      .channel(`chats:${user.id}:${channelId}`)
+      .on(
+        'postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: 'chats', filter: `user_id=eq.${user.id}` },
+        () => queryClient.invalidateQueries({ queryKey: ['chats', user.id] })
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [user, queryClient, channelId]);
+
   const createChat = useMutation({
     mutationFn: async (title?: string) => {
       if (!user) throw new Error('Not authenticated');
@@ -113,12 +179,29 @@ export function useChats() {
     },
   });
 
+  // A title set here is the user's own and stays in place
   const updateChatTitle = useMutation({
     mutationFn: async ({ chatId, title }: { chatId: string; title: string }) => {
       return retryOperation(async () => {
         const { error } = await supabase
           .from('chats')
-          .update({ title })
+          .update({ title, title_source: 'manual' })
+          .eq('id', chatId);
+        
+        if (error) throw error;
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['chats', user?.id] });
+    },
+  });
+
+  const setChatKnowledge = useMutation({
+    mutationFn: async ({ chatId, useKnowledge }: { chatId: string; useKnowledge: boolean }) => {
+      return retryOperation(async () => {
+        const { error } = await supabase
+          .from('chats')
+          .update({ use_knowledge: useKnowledge })
           .eq('id', chatId);
         
         if (error) throw error;
@@ -129,6 +212,68 @@ export function useChats() {
     },
   });
 
+  const updateChatSettings = useMutation({
+    mutationFn: async ({ chatId, settings }: { chatId: string; settings: ChatSettings }) => {
+      return retryOperation(async () => {
+        const { error } = await supabase
+          .from('chats')
+          .update(settings)
+          .eq('id', chatId);
+        
+        if (error) throw error;
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['chats', user?.id] });
+    },
+  });
+
+  const setChatPinned = useMutation({
+    mutationFn: async ({ chatId, pinned }: { chatId: string; pinned: boolean }) => {
+      return retryOperation(async () => {
+        const { error } = await supabase
+          .from('chats')
+          .update({ pinned_at: pinned ? new Date().toISOString() : null })
+          .eq('id', chatId);
+        
+        if (error) throw error;
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['chats', user?.id] });
+    },
+  });
+
+  // folderId null moves the chat out of its folder
+  const moveChatToFolder = useMutation({
+    mutationFn: async ({ chatId, folderId }: { chatId: string; folderId: string | null }) => {
+      return retryOperation(async () => {
+        const { error } = await supabase
+          .from('chats')
+          .update({ folder_id: folderId })
+          .eq('id', chatId);
+        
+        if (error) throw error;
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['chats', user?.id] });
+    },
+  });
+
+  // Asks the chat function to stop the reply it is generating in this chat; it stores
+  // the partial text, which arrives through realtime
+  const stopReply = useMutation({
+    mutationFn: async (chatId: string) => {
+      const { error } = await supabase
+        .from('chats')
+        .update({ stop_requested_at: new Date().toISOString() })
+        .eq('id', chatId);
+
+      if (error) throw error;
+    },
+  });
+
   const deleteChat = useMutation({
     mutationFn: async (chatId: string) => {
       return retryOperation(async () => {
@@ -150,14 +295,26 @@ export function useChats() {
     chatsLoading,
     createChat,
     updateChatTitle,
+    setChatKnowledge,
+    updateChatSettings,
+    setChatPinned,
+    moveChatToFolder,
+    stopReply,
     deleteChat,
   };
 }
 
 export function useMessages(chatId: string | null) {
   const queryClient = useQueryClient();
+  // Chosen child per fork (parent key → message id); unset forks follow the newest child
+  const [selectedBranches, setSelectedBranches] = useState<Record<string, string>>({});
 
-  const { data: messages = [], isLoading: messagesLoading } = useQuery({
+  useEffect(() => {
+    setSelectedBranches({});
+  }, [chatId]);
+
+  // All messages of the chat; they form a tree through parent_id
+  const { data: allMessages = [], isLoading: messagesLoading } = useQuery({
     queryKey: ['messages', chatId],
     queryFn: async () => {
       if (!chatId) return [];
@@ -165,12 +322,12 @@ export function useMessages(chatId: string | null) {
       return retryOperation(async () => {
         const { data, error } = await supabase
           .from('messages')
-          .select('*')
+          .select('*, attachments:message_attachments(id, message_id, storage_path, file_name, mime_type, kind, size_bytes, created_at)')
           .eq('chat_id', chatId)
           .order('created_at', { ascending: true });
         
         if (error) throw error;
-        return data as Message[];
+        return data as unknown as Message[];
       });
     },
     enabled: !!chatId,
@@ -178,24 +335,35 @@ export function useMessages(chatId: string | null) {
     retryDelay: (attemptIndex) => Math.min(1000 * 2 ** attemptIndex, 10000),
   });
 
-  const addMessage = useMutation({
-    mutationFn: async ({ role, content, imageUrl }: { role: 'user' | 'assistant'; content: string; imageUrl?: string }) => {
-      if (!chatId) throw new Error('No chat selected');
-      
+  // Rows saved by the chat function after the client stopped listening (a stopped
+  // reply) only reach the UI through realtime
+  useEffect(() => {
+    if (!chatId) return;
+
+    const channel = supabase
+      .channel(`messages:${chatId}`)
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'messages', filter: `chat_id=eq.${chatId}` },
+        () => queryClient.invalidateQueries({ queryKey: ['messages', chatId] })
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [chatId, queryClient]);
+
+  // Pinned messages are always kept verbatim in the model's context
+  const togglePin = useMutation({
+    mutationFn: async ({ messageId, pinned }: { messageId: string; pinned: boolean }) => {
       return retryOperation(async () => {
-        const { data, error } = await supabase
+        const { error } = await supabase
           .from('messages')
-          .insert({
-            chat_id: chatId,
-            role,
-            content,
-            image_url: imageUrl || null
-          })
-          .select()
-          .single();
+          .update({ pinned })
+          .eq('id', messageId);
         
         if (error) throw error;
-        return data as Message;
       });
     },
     onSuccess: () => {
@@ -203,9 +371,31 @@ export function useMessages(chatId: string | null) {
     },
   });
 
+  // The active branch is what the chat shows and what the next turn continues from
+  const { path: messages, branches } = useMemo(
+    () => buildActiveBranch(allMessages, selectedBranches),
+    [allMessages, selectedBranches]
+  );
+
+  const selectBranch = useCallback((message: Pick<Message, 'id' | 'parent_id'>) => {
+    setSelectedBranches(prev => ({ ...prev, [parentKey(message)]: message.id }));
+  }, []);
+
+  // Switches to the branch containing the message, e.g. when opening a search result.
+  // Returns false while the message isn't loaded.
+  const revealMessage = useCallback((messageId: string) => {
+    if (!allMessages.some(m => m.id === messageId)) return false;
+    setSelectedBranches(prev => ({ ...prev, ...selectionForMessage(allMessages, messageId) }));
+    return true;
+  }, [allMessages]);
+
   return {
     messages,
+    allMessages,
+    branches,
+    selectBranch,
+    revealMessage,
     messagesLoading,
-    addMessage,
+    togglePin,
   };
 }
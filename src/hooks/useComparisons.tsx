@@ -0,0 +1,74 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from './useAuth';
+import type { Message } from './useChats';
+
+// Compare mode: the most models one prompt can be sent to
+export const MAX_COMPARED_MODELS = 3;
+
+export interface ComparisonAnswer {
+  model: string;
+  persona_version: number | null;
+  content: string;
+  truncated: boolean;
+  // The model gave no answer; it can't be picked
+  failed: boolean;
+}
+
+export interface ModelComparison {
+  id: string;
+  chat_id: string;
+  user_message_id: string;
+  answers: ComparisonAnswer[];
+  winner_index: number | null;
+  created_at: string;
+}
+
+// Compared prompts of one chat still waiting for the user to pick an answer
+export function useComparisons(chatId: string | null) {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  const { data: openComparisons = [] } = useQuery({
+    queryKey: ['comparisons', chatId],
+    queryFn: async () => {
+      if (!user || !chatId) return [];
+
+      const { data, error } = await supabase
+        .from('model_comparisons')
+        .select('id, chat_id, user_message_id, answers, winner_index, created_at')
+        .eq('chat_id', chatId)
+        .is('winner_index', null)
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+      return data as unknown as ModelComparison[];
+    },
+    enabled: !!user && !!chatId,
+  });
+
+  // The picked answer becomes the reply and continues the chat
+  const chooseAnswer = useMutation({
+    mutationFn: async ({ comparisonId, index }: { comparisonId: string; index: number }) => {
+      const { data, error } = await supabase.rpc('choose_comparison_answer', {
+        _comparison_id: comparisonId,
+        _index: index,
+      });
+
+      if (error) throw error;
+      return data as unknown as Message;
+    },
+    onSuccess: (message, { comparisonId }) => {
+      queryClient.setQueryData<Message[]>(['messages', chatId], (old = []) => [...old, message]);
+      queryClient.setQueryData<ModelComparison[]>(['comparisons', chatId], (old = []) =>
+        old.filter(c => c.id !== comparisonId)
+      );
+      queryClient.invalidateQueries({ queryKey: ['messages', chatId] });
+    },
+  });
+
+  return {
+    openComparisons,
+    chooseAnswer,
+  };
+}
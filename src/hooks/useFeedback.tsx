@@ -0,0 +1,108 @@
+import { useMemo } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from './useAuth';
+
+export type FeedbackRating = 'up' | 'down';
+
+// Reasons offered with each rating; the table accepts any of them
+export const FEEDBACK_REASONS = {
+  up: ['helpful', 'accurate', 'well_written'],
+  down: ['inaccurate', 'unhelpful', 'incomplete', 'wrong_language', 'other'],
+} as const;
+
+export type FeedbackReason = typeof FEEDBACK_REASONS[FeedbackRating][number];
+
+export const MAX_FEEDBACK_COMMENT_LENGTH = 1000;
+
+export interface MessageFeedback {
+  id: string;
+  message_id: string;
+  user_id: string;
+  rating: FeedbackRating;
+  reason: FeedbackReason | null;
+  comment: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface FeedbackInput {
+  rating: FeedbackRating;
+  reason?: FeedbackReason | null;
+  comment?: string | null;
+}
+
+// The user's ratings of assistant replies in one chat
+export function useFeedback(chatId: string | null) {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  const { data: feedback = [] } = useQuery({
+    queryKey: ['feedback', chatId],
+    queryFn: async () => {
+      if (!user || !chatId) return [];
+
+      const { data, error } = await supabase
+        .from('message_feedback')
+        .select('*, messages!inner(chat_id)')
+        .eq('messages.chat_id', chatId);
+
+      if (error) throw error;
+      return data as unknown as MessageFeedback[];
+    },
+    enabled: !!user && !!chatId,
+  });
+
+  const feedbackByMessage = useMemo(
+    () => new Map(feedback.map(f => [f.message_id, f])),
+    [feedback]
+  );
+
+  // One rating per reply: rating again replaces the earlier one
+  const submitFeedback = useMutation({
+    mutationFn: async ({ messageId, rating, reason = null, comment = null }: FeedbackInput & { messageId: string }) => {
+      if (!user) throw new Error('Not authenticated');
+
+      const { error } = await supabase
+        .from('message_feedback')
+        .upsert(
+          {
+            message_id: messageId,
+            user_id: user.id,
+            rating,
+            reason,
+            comment: comment?.trim().slice(0, MAX_FEEDBACK_COMMENT_LENGTH) || null,
+          },
+          { onConflict: 'message_id,user_id' }
+        );
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['feedback', chatId] });
+    },
+  });
+
+  const removeFeedback = useMutation({
+    mutationFn: async (messageId: string) => {
+      if (!user) throw new Error('Not authenticated');
+
+      const { error } = await supabase
+        .from('message_feedback')
+        .delete()
+        .eq('message_id', messageId)
+        .eq('user_id', user.id);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['feedback', chatId] });
+    },
+  });
+
+  return {
+    feedbackByMessage,
+    submitFeedback,
+    removeFeedback,
+  };
+}
@@ -0,0 +1,64 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { FeedbackRating, FeedbackReason } from './useFeedback';
+
+export type FeedbackPeriod = '7d' | '30d' | 'all';
+
+const PERIOD_DAYS: Record<Exclude<FeedbackPeriod, 'all'>, number> = { '7d': 7, '30d': 30 };
+
+// Ratings for one ThetAI model and persona version; model is null for replies stored
+// before models were recorded
+export interface FeedbackSummaryRow {
+  model: string | null;
+  persona_version: number | null;
+  positive: number;
+  negative: number;
+  reasons: Partial<Record<FeedbackReason, number>>;
+  last_feedback_at: string;
+}
+
+export interface FeedbackComment {
+  id: string;
+  model: string | null;
+  persona_version: number | null;
+  rating: FeedbackRating;
+  reason: FeedbackReason | null;
+  comment: string;
+  created_at: string;
+}
+
+// Admin-only aggregates; the functions refuse everyone else
+export function useFeedbackSummary(period: FeedbackPeriod, enabled: boolean) {
+  const { data: summary = [], isLoading: summaryLoading } = useQuery({
+    queryKey: ['feedback-summary', period],
+    queryFn: async () => {
+      const since = period === 'all'
+        ? undefined
+        : new Date(Date.now() - PERIOD_DAYS[period] * 24 * 60 * 60 * 1000).toISOString();
+
+      const { data, error } = await supabase.rpc('feedback_summary', { _since: since });
+
+      if (error) throw error;
+      return data as unknown as FeedbackSummaryRow[];
+    },
+    enabled,
+  });
+
+  const { data: comments = [], isLoading: commentsLoading } = useQuery({
+    queryKey: ['feedback-comments'],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('recent_feedback_comments', { _limit: 50 });
+
+      if (error) throw error;
+      return data as unknown as FeedbackComment[];
+    },
+    enabled,
+  });
+
+  return {
+    summary,
+    summaryLoading,
+    comments,
+    commentsLoading,
+  };
+}
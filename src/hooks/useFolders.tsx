@@ -0,0 +1,90 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from './useAuth';
+
+export interface ChatFolder {
+  id: string;
+  user_id: string;
+  name: string;
+  // Folders nest one level: a subfolder's parent is always a top-level folder
+  parent_id: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export function useFolders() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  const { data: folders = [], isLoading: foldersLoading } = useQuery({
+    queryKey: ['chat-folders', user?.id],
+    queryFn: async () => {
+      if (!user) return [];
+
+      const { data, error } = await supabase
+        .from('chat_folders')
+        .select('*')
+        .order('name', { ascending: true });
+
+      if (error) throw error;
+      return data as ChatFolder[];
+    },
+    enabled: !!user,
+  });
+
+  const createFolder = useMutation({
+    mutationFn: async ({ name, parentId = null }: { name: string; parentId?: string | null }) => {
+      if (!user) throw new Error('Not authenticated');
+
+      const { data, error } = await supabase
+        .from('chat_folders')
+        .insert({ user_id: user.id, name, parent_id: parentId })
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data as ChatFolder;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['chat-folders', user?.id] });
+    },
+  });
+
+  const renameFolder = useMutation({
+    mutationFn: async ({ folderId, name }: { folderId: string; name: string }) => {
+      const { error } = await supabase
+        .from('chat_folders')
+        .update({ name })
+        .eq('id', folderId);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['chat-folders', user?.id] });
+    },
+  });
+
+  // Subfolders are deleted with their folder; the chats inside become unfiled
+  const deleteFolder = useMutation({
+    mutationFn: async (folderId: string) => {
+      const { error } = await supabase
+        .from('chat_folders')
+        .delete()
+        .eq('id', folderId);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['chat-folders', user?.id] });
+      queryClient.invalidateQueries({ queryKey: ['chats', user?.id] });
+    },
+  });
+
+  return {
+    folders,
+    foldersLoading,
+    createFolder,
+    renameFolder,
+    deleteFolder,
+  };
+}
@@ -0,0 +1,94 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { FunctionsHttpError } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import { ATTACHMENTS_BUCKET } from '@/lib/attachments';
+import { useAuth } from './useAuth';
+
+export interface KnowledgeDocument {
+  id: string;
+  user_id: string;
+  title: string;
+  file_name: string;
+  mime_type: string;
+  storage_path: string;
+  size_bytes: number;
+  status: 'processing' | 'ready' | 'failed';
+  error: string | null;
+  chunk_count: number;
+  created_at: string;
+  updated_at: string;
+}
+
+// Poll while documents are being chunked and embedded in the background
+const PROCESSING_POLL_MS = 3000;
+
+export function useKnowledge() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  const { data: documents = [], isLoading: documentsLoading } = useQuery({
+    queryKey: ['knowledge-documents', user?.id],
+    queryFn: async () => {
+      if (!user) return [];
+
+      const { data, error } = await supabase
+        .from('knowledge_documents')
+        .select('*')
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return data as KnowledgeDocument[];
+    },
+    enabled: !!user,
+    refetchInterval: (query) =>
+      query.state.data?.some(doc => doc.status === 'processing') ? PROCESSING_POLL_MS : false,
+  });
+
+  // Errors carry the server's code, e.g. `unsupported_file_type` or `storage_limit_exceeded`
+  const uploadDocument = useMutation({
+    mutationFn: async (file: File) => {
+      const body = new FormData();
+      body.append('file', file);
+
+      const { data, error } = await supabase.functions.invoke('knowledge-ingest', { body });
+
+      if (error) {
+        if (error instanceof FunctionsHttpError) {
+          const details = await error.context.json().catch(() => null);
+          throw new Error(details?.error || error.message);
+        }
+        throw error;
+      }
+      return data as KnowledgeDocument;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['knowledge-documents', user?.id] });
+    },
+  });
+
+  // Removes the document with its chunks, and the uploaded file; its size no longer
+  // counts against the storage quota
+  const deleteDocument = useMutation({
+    mutationFn: async (document: KnowledgeDocument) => {
+      const { data: storagePath, error } = await supabase
+        .rpc('delete_knowledge_document', { _document_id: document.id });
+
+      if (error) throw error;
+
+      const { error: storageError } = await supabase.storage
+        .from(ATTACHMENTS_BUCKET)
+        .remove([storagePath ?? document.storage_path]);
+      if (storageError) console.error('Failed to remove knowledge file:', storageError);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['knowledge-documents', user?.id] });
+    },
+  });
+
+  return {
+    documents,
+    documentsLoading,
+    uploadDocument,
+    deleteDocument,
+  };
+}
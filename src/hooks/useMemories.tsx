@@ -0,0 +1,148 @@
+import { useEffect, useId, useMemo } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from './useAuth';
+
+export interface UserMemory {
+  id: string;
+  user_id: string;
+  content: string;
+  // Proposed by the assistant and waiting for the user's confirmation
+  status: 'active' | 'proposed';
+  source_message_id: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export const MAX_MEMORY_LENGTH = 500;
+
+export function useMemories() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  // The hook is used by several components at once; each needs its own channel
+  const channelId = useId();
+
+  const { data: memories = [], isLoading: memoriesLoading } = useQuery({
+    queryKey: ['memories', user?.id],
+    queryFn: async () => {
+      if (!user) return [];
+
+      // Dismissed proposals are only kept for the assistant, so it doesn't repeat them
+      const { data, error } = await supabase
+        .from('user_memories')
+        .select('*')
+        .neq('status', 'dismissed')
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return data as UserMemory[];
+    },
+    enabled: !!user,
+  });
+
+  // Proposals are written by the chat function after a reply
+  useEffect(() => {
+    if (!user) return;
+
+    const channel = supabase
+      .channel(`user_memories:${user.id}:${channelId}`)
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'user_memories', filter: `user_id=eq.${user.id}` },
+        () => queryClient.invalidateQueries({ queryKey: ['memories', user.id] })
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [user, queryClient, channelId]);
+
+  const activeMemories = useMemo(() => memories.filter(m => m.status === 'active'), [memories]);
+  const proposedMemories = useMemo(() => memories.filter(m => m.status === 'proposed'), [memories]);
+
+  const addMemory = useMutation({
+    mutationFn: async (content: string) => {
+      if (!user) throw new Error('Not authenticated');
+
+      const { error } = await supabase
+        .from('user_memories')
+        .insert({ user_id: user.id, content });
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['memories', user?.id] });
+    },
+  });
+
+  // Saving a proposal, edited or not, confirms it
+  const updateMemory = useMutation({
+    mutationFn: async ({ memoryId, content }: { memoryId: string; content: string }) => {
+      const { error } = await supabase
+        .from('user_memories')
+        .update({ content, status: 'active' })
+        .eq('id', memoryId);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['memories', user?.id] });
+    },
+  });
+
+  const confirmMemory = useMutation({
+    mutationFn: async (memoryId: string) => {
+      const { error } = await supabase
+        .from('user_memories')
+        .update({ status: 'active' })
+        .eq('id', memoryId);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['memories', user?.id] });
+    },
+  });
+
+  // Kept as dismissed rather than deleted, so the assistant doesn't propose it again
+  const dismissMemory = useMutation({
+    mutationFn: async (memoryId: string) => {
+      const { error } = await supabase
+        .from('user_memories')
+        .update({ status: 'dismissed' })
+        .eq('id', memoryId);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['memories', user?.id] });
+    },
+  });
+
+  const deleteMemory = useMutation({
+    mutationFn: async (memoryId: string) => {
+      const { error } = await supabase
+        .from('user_memories')
+        .delete()
+        .eq('id', memoryId);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['memories', user?.id] });
+    },
+  });
+
+  return {
+    memories,
+    activeMemories,
+    proposedMemories,
+    memoriesLoading,
+    addMemory,
+    updateMemory,
+    confirmMemory,
+    dismissMemory,
+    deleteMemory,
+  };
+}
@@ -0,0 +1,40 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { Language } from '@/lib/translations';
+
+export interface AIModel {
+  id: string;
+  display_name: string;
+  description: Partial<Record<Language, string>>;
+  tier: 'free' | 'plus';
+  capabilities: string[];
+  cost_weight: number;
+  sort_order: number;
+}
+
+export function getModelDescription(model: AIModel, language: Language): string {
+  return model.description[language] || model.description.en || '';
+}
+
+export function useModels() {
+  const { data: models = [], isLoading } = useQuery({
+    queryKey: ['models'],
+    queryFn: async () => {
+      // Persona prompts are not readable by clients, so select the public columns only
+      const { data, error } = await supabase
+        .from('models')
+        .select('id, display_name, description, tier, capabilities, cost_weight, sort_order')
+        .eq('enabled', true)
+        .order('sort_order', { ascending: true });
+
+      if (error) throw error;
+      return data as unknown as AIModel[];
+    },
+    staleTime: 5 * 60 * 1000,
+  });
+
+  return {
+    models,
+    isLoading,
+  };
+}
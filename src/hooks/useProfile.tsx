@@ -13,6 +13,8 @@ export interface Profile {
   storage_used_bytes: number;
   selected_model: string;
   messages_used: number;
+  tokens_used: number;
+  credits_used: number;
   images_in_prompts_used: number;
   images_generated_today: number;
   usage_reset_at: string;
@@ -26,6 +28,14 @@ export interface UserLimits {
   messages_used: number;
   messages_limit: number;
   messages_remaining: number;
+  // What the chat limit is enforced on; the other counters are informational
+  metric: 'messages' | 'tokens' | 'credits';
+  tokens_used: number;
+  tokens_limit: number;
+  tokens_remaining: number;
+  credits_used: number;
+  credits_limit: number;
+  credits_remaining: number;
   images_in_prompts_used: number;
   images_prompt_limit: number;
   images_prompt_remaining: number;
@@ -0,0 +1,151 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from './useAuth';
+
+export interface SharedChatLink {
+  id: string;
+  chat_id: string;
+  slug: string;
+  title: string;
+  created_at: string;
+}
+
+export function shareUrl(slug: string): string {
+  return `${window.location.origin}/share/${slug}`;
+}
+
+// Share links of one chat. A link is a snapshot taken when it is created; revoking
+// deletes it, which makes the public page 404.
+export function useShares(chatId: string | null) {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  const { data: shares = [], isLoading: sharesLoading } = useQuery({
+    queryKey: ['shared-chats', chatId],
+    queryFn: async () => {
+      if (!user || !chatId) return [];
+
+      const { data, error } = await supabase
+        .from('shared_chats')
+        .select('id, chat_id, slug, title, created_at')
+        .eq('chat_id', chatId)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return data as SharedChatLink[];
+    },
+    enabled: !!user && !!chatId,
+  });
+
+  // messageIds picks the branch to share, in order; without it the newest branch is shared
+  const createShare = useMutation({
+    mutationFn: async (messageIds?: string[]) => {
+      if (!chatId) throw new Error('No chat');
+
+      const { data, error } = await supabase.rpc('share_chat', {
+        _chat_id: chatId,
+        _message_ids: messageIds,
+      });
+
+      if (error) throw error;
+      return data as string;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['shared-chats', chatId] });
+    },
+  });
+
+  const revokeShare = useMutation({
+    mutationFn: async (shareId: string) => {
+      const { error } = await supabase
+        .from('shared_chats')
+        .delete()
+        .eq('id', shareId);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['shared-chats', chatId] });
+    },
+  });
+
+  return {
+    shares,
+    sharesLoading,
+    createShare,
+    revokeShare,
+  };
+}
+
+export interface SharedArtifactLink {
+  id: string;
+  message_id: string;
+  slug: string;
+  title: string | null;
+  kind: string;
+  created_at: string;
+}
+
+export function artifactShareUrl(slug: string): string {
+  return `${window.location.origin}/artifact/${slug}`;
+}
+
+// Share links of the artifacts in one chat, each a snapshot of one version
+export function useArtifactShares(chatId: string | null) {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  const { data: shares = [] } = useQuery({
+    queryKey: ['shared-artifacts', chatId],
+    queryFn: async () => {
+      if (!user || !chatId) return [];
+
+      const { data, error } = await supabase
+        .from('shared_artifacts')
+        .select('id, message_id, slug, title, kind, created_at')
+        .eq('chat_id', chatId)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return data as SharedArtifactLink[];
+    },
+    enabled: !!user && !!chatId,
+  });
+
+  const createShare = useMutation({
+    mutationFn: async (artifact: { messageId: string; kind: string; title: string | null; content: string }) => {
+      const { data, error } = await supabase.rpc('share_artifact', {
+        _message_id: artifact.messageId,
+        _kind: artifact.kind,
+        _title: artifact.title ?? '',
+        _content: artifact.content,
+      });
+
+      if (error) throw error;
+      return data as string;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['shared-artifacts', chatId] });
+    },
+  });
+
+  const revokeShare = useMutation({
+    mutationFn: async (shareId: string) => {
+      const { error } = await supabase
+        .from('shared_artifacts')
+        .delete()
+        .eq('id', shareId);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['shared-artifacts', chatId] });
+    },
+  });
+
+  return {
+    shares,
+    createShare,
+    revokeShare,
+  };
+}
@@ -0,0 +1,140 @@
+import { useMemo } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from './useAuth';
+
+export const TAG_COLORS = ['red', 'orange', 'yellow', 'green', 'blue', 'purple', 'pink', 'gray'] as const;
+export type TagColor = typeof TAG_COLORS[number];
+
+// Full class names so Tailwind keeps them
+export const TAG_COLOR_CLASSES: Record<TagColor, string> = {
+  red: 'bg-red-500',
+  orange: 'bg-orange-500',
+  yellow: 'bg-yellow-500',
+  green: 'bg-green-500',
+  blue: 'bg-blue-500',
+  purple: 'bg-purple-500',
+  pink: 'bg-pink-500',
+  gray: 'bg-gray-500',
+};
+
+export interface ChatTag {
+  id: string;
+  user_id: string;
+  name: string;
+  color: TagColor;
+  created_at: string;
+}
+
+interface TagAssignment {
+  chat_id: string;
+  tag_id: string;
+}
+
+export function useTags() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  const { data: tags = [], isLoading: tagsLoading } = useQuery({
+    queryKey: ['chat-tags', user?.id],
+    queryFn: async () => {
+      if (!user) return [];
+
+      const { data, error } = await supabase
+        .from('chat_tags')
+        .select('*')
+        .order('name', { ascending: true });
+
+      if (error) throw error;
+      return data as ChatTag[];
+    },
+    enabled: !!user,
+  });
+
+  const { data: assignments = [] } = useQuery({
+    queryKey: ['chat-tag-assignments', user?.id],
+    queryFn: async () => {
+      if (!user) return [];
+
+      const { data, error } = await supabase
+        .from('chat_tag_assignments')
+        .select('chat_id, tag_id');
+
+      if (error) throw error;
+      return data as TagAssignment[];
+    },
+    enabled: !!user,
+  });
+
+  // Tag ids per chat id
+  const chatTagIds = useMemo(() => {
+    const map = new Map<string, Set<string>>();
+    for (const { chat_id, tag_id } of assignments) {
+      const ids = map.get(chat_id) ?? new Set<string>();
+      ids.add(tag_id);
+      map.set(chat_id, ids);
+    }
+    return map;
+  }, [assignments]);
+
+  const createTag = useMutation({
+    mutationFn: async ({ name, color }: { name: string; color: TagColor }) => {
+      if (!user) throw new Error('Not authenticated');
+
+      const { data, error } = await supabase
+        .from('chat_tags')
+        .insert({ user_id: user.id, name, color })
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data as ChatTag;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['chat-tags', user?.id] });
+    },
+  });
+
+  const deleteTag = useMutation({
+    mutationFn: async (tagId: string) => {
+      const { error } = await supabase
+        .from('chat_tags')
+        .delete()
+        .eq('id', tagId);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['chat-tags', user?.id] });
+      queryClient.invalidateQueries({ queryKey: ['chat-tag-assignments', user?.id] });
+    },
+  });
+
+  const setChatTag = useMutation({
+    mutationFn: async ({ chatId, tagId, assigned }: { chatId: string; tagId: string; assigned: boolean }) => {
+      const { error } = assigned
+        ? await supabase
+          .from('chat_tag_assignments')
+          .insert({ chat_id: chatId, tag_id: tagId })
+        : await supabase
+          .from('chat_tag_assignments')
+          .delete()
+          .eq('chat_id', chatId)
+          .eq('tag_id', tagId);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['chat-tag-assignments', user?.id] });
+    },
+  });
+
+  return {
+    tags,
+    tagsLoading,
+    chatTagIds,
+    createTag,
+    deleteTag,
+    setChatTag,
+  };
+}
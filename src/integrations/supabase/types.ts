@@ -14,29 +14,205 @@ export type Database = {
   }
   public: {
     Tables: {
+      chat_folders: {
+        Row: {
+          created_at: string
+          id: string
+          name: string
+          parent_id: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          name: string
+          parent_id?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          name?: string
+          parent_id?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "chat_folders_parent_id_fkey"
+            columns: ["parent_id"]
+            isOneToOne: false
+            referencedRelation: "chat_folders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      chat_summaries: {
+        Row: {
+          chat_id: string
+          id: string
+          summary: string
+          through_message_id: string
+          updated_at: string
+        }
+        Insert: {
+          chat_id: string
+          id?: string
+          summary: string
+          through_message_id: string
+          updated_at?: string
+        }
+        Update: {
+          chat_id?: string
+          id?: string
+          summary?: string
+          through_message_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "chat_summaries_chat_id_fkey"
+            columns: ["chat_id"]
+            isOneToOne: false
+            referencedRelation: "chats"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "chat_summaries_through_message_id_fkey"
+            columns: ["through_message_id"]
+            isOneToOne: false
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      chat_tag_assignments: {
+        Row: {
+          chat_id: string
+          created_at: string
+          tag_id: string
+        }
+        Insert: {
+          chat_id: string
+          created_at?: string
+          tag_id: string
+        }
+        Update: {
+          chat_id?: string
+          created_at?: string
+          tag_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "chat_tag_assignments_chat_id_fkey"
+            columns: ["chat_id"]
+            isOneToOne: false
+            referencedRelation: "chats"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "chat_tag_assignments_tag_id_fkey"
+            columns: ["tag_id"]
+            isOneToOne: false
+            referencedRelation: "chat_tags"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      chat_tags: {
+        Row: {
+          color: string
+          created_at: string
+          id: string
+          name: string
+          user_id: string
+        }
+        Insert: {
+          color?: string
+          created_at?: string
+          id?: string
+          name: string
+          user_id: string
+        }
+        Update: {
+          color?: string
+          created_at?: string
+          id?: string
+          name?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       chats: {
         Row: {
           created_at: string
+          custom_instructions: string | null
+          folder_id: string | null
           id: string
+          import_id: string | null
+          import_source: string | null
+          model: string | null
+          pinned_at: string | null
+          stop_requested_at: string | null
+          temperature: number | null
           title: string
+          title_source: string
           updated_at: string
+          use_knowledge: boolean
           user_id: string
         }
         Insert: {
           created_at?: string
+          custom_instructions?: string | null
+          folder_id?: string | null
           id?: string
+          import_id?: string | null
+          import_source?: string | null
+          model?: string | null
+          pinned_at?: string | null
+          stop_requested_at?: string | null
+          temperature?: number | null
           title?: string
+          title_source?: string
           updated_at?: string
+          use_knowledge?: boolean
           user_id: string
         }
         Update: {
           created_at?: string
+          custom_instructions?: string | null
+          folder_id?: string | null
           id?: string
+          import_id?: string | null
+          import_source?: string | null
+          model?: string | null
+          pinned_at?: string | null
+          stop_requested_at?: string | null
+          temperature?: number | null
           title?: string
+          title_source?: string
           updated_at?: string
+          use_knowledge?: boolean
           user_id?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "chats_folder_id_fkey"
+            columns: ["folder_id"]
+            isOneToOne: false
+            referencedRelation: "chat_folders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "chats_model_fkey"
+            columns: ["model"]
+            isOneToOne: false
+            referencedRelation: "models"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       generated_images: {
         Row: {
@@ -65,30 +241,222 @@ export type Database = {
         }
         Relationships: []
       }
+      knowledge_chunks: {
+        Row: {
+          chunk_index: number
+          content: string
+          created_at: string
+          document_id: string
+          embedding: string
+          id: string
+          user_id: string
+        }
+        Insert: {
+          chunk_index: number
+          content: string
+          created_at?: string
+          document_id: string
+          embedding: string
+          id?: string
+          user_id: string
+        }
+        Update: {
+          chunk_index?: number
+          content?: string
+          created_at?: string
+          document_id?: string
+          embedding?: string
+          id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "knowledge_chunks_document_id_fkey"
+            columns: ["document_id"]
+            isOneToOne: false
+            referencedRelation: "knowledge_documents"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      knowledge_documents: {
+        Row: {
+          chunk_count: number
+          created_at: string
+          error: string | null
+          file_name: string
+          id: string
+          mime_type: string
+          size_bytes: number
+          status: string
+          storage_path: string
+          title: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          chunk_count?: number
+          created_at?: string
+          error?: string | null
+          file_name: string
+          id?: string
+          mime_type: string
+          size_bytes?: number
+          status?: string
+          storage_path: string
+          title: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          chunk_count?: number
+          created_at?: string
+          error?: string | null
+          file_name?: string
+          id?: string
+          mime_type?: string
+          size_bytes?: number
+          status?: string
+          storage_path?: string
+          title?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      message_attachments: {
+        Row: {
+          created_at: string
+          extracted_text: string | null
+          file_name: string
+          id: string
+          kind: string
+          message_id: string | null
+          mime_type: string
+          size_bytes: number
+          storage_path: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          extracted_text?: string | null
+          file_name: string
+          id?: string
+          kind: string
+          message_id?: string | null
+          mime_type: string
+          size_bytes?: number
+          storage_path: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          extracted_text?: string | null
+          file_name?: string
+          id?: string
+          kind?: string
+          message_id?: string | null
+          mime_type?: string
+          size_bytes?: number
+          storage_path?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "message_attachments_message_id_fkey"
+            columns: ["message_id"]
+            isOneToOne: false
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      message_feedback: {
+        Row: {
+          comment: string | null
+          created_at: string
+          id: string
+          message_id: string
+          rating: string
+          reason: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          comment?: string | null
+          created_at?: string
+          id?: string
+          message_id: string
+          rating: string
+          reason?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          comment?: string | null
+          created_at?: string
+          id?: string
+          message_id?: string
+          rating?: string
+          reason?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "message_feedback_message_id_fkey"
+            columns: ["message_id"]
+            isOneToOne: false
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       messages: {
         Row: {
           chat_id: string
+          completion_tokens: number | null
           content: string
           created_at: string
           id: string
-          image_url: string | null
+          model: string | null
+          parent_id: string | null
+          persona_version: number | null
+          pinned: boolean
+          prompt_tokens: number | null
           role: string
+          sources: Json | null
+          truncated: boolean
         }
         Insert: {
           chat_id: string
+          completion_tokens?: number | null
           content: string
           created_at?: string
           id?: string
-          image_url?: string | null
+          model?: string | null
+          parent_id?: string | null
+          persona_version?: number | null
+          pinned?: boolean
+          prompt_tokens?: number | null
           role: string
+          sources?: Json | null
+          truncated?: boolean
         }
         Update: {
           chat_id?: string
+          completion_tokens?: number | null
           content?: string
           created_at?: string
           id?: string
-          image_url?: string | null
+          model?: string | null
+          parent_id?: string | null
+          persona_version?: number | null
+          pinned?: boolean
+          prompt_tokens?: number | null
           role?: string
+          sources?: Json | null
+          truncated?: boolean
         }
         Relationships: [
           {
@@ -98,8 +466,130 @@ export type Database = {
             referencedRelation: "chats"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "messages_parent_id_fkey"
+            columns: ["parent_id"]
+            isOneToOne: false
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      model_comparisons: {
+        Row: {
+          answers: Json
+          chat_id: string
+          chosen_at: string | null
+          created_at: string
+          id: string
+          sources: Json | null
+          user_id: string
+          user_message_id: string
+          winner_index: number | null
+          winner_message_id: string | null
+          winner_model: string | null
+        }
+        Insert: {
+          answers: Json
+          chat_id: string
+          chosen_at?: string | null
+          created_at?: string
+          id?: string
+          sources?: Json | null
+          user_id: string
+          user_message_id: string
+          winner_index?: number | null
+          winner_message_id?: string | null
+          winner_model?: string | null
+        }
+        Update: {
+          answers?: Json
+          chat_id?: string
+          chosen_at?: string | null
+          created_at?: string
+          id?: string
+          sources?: Json | null
+          user_id?: string
+          user_message_id?: string
+          winner_index?: number | null
+          winner_message_id?: string | null
+          winner_model?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "model_comparisons_chat_id_fkey"
+            columns: ["chat_id"]
+            isOneToOne: false
+            referencedRelation: "chats"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "model_comparisons_user_message_id_fkey"
+            columns: ["user_message_id"]
+            isOneToOne: false
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "model_comparisons_winner_message_id_fkey"
+            columns: ["winner_message_id"]
+            isOneToOne: false
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
         ]
       }
+      models: {
+        Row: {
+          capabilities: string[]
+          context_tokens: number
+          cost_weight: number
+          created_at: string
+          description: Json
+          display_name: string
+          enabled: boolean
+          id: string
+          persona_prompt: string
+          persona_version: number
+          provider_model: string
+          sort_order: number
+          tier: string
+          updated_at: string
+        }
+        Insert: {
+          capabilities?: string[]
+          context_tokens?: number
+          cost_weight?: number
+          created_at?: string
+          description?: Json
+          display_name: string
+          enabled?: boolean
+          id: string
+          persona_prompt: string
+          persona_version?: number
+          provider_model: string
+          sort_order?: number
+          tier?: string
+          updated_at?: string
+        }
+        Update: {
+          capabilities?: string[]
+          context_tokens?: number
+          cost_weight?: number
+          created_at?: string
+          description?: Json
+          display_name?: string
+          enabled?: boolean
+          id?: string
+          persona_prompt?: string
+          persona_version?: number
+          provider_model?: string
+          sort_order?: number
+          tier?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
       otp_attempts: {
         Row: {
           attempt_type: string
@@ -155,6 +645,7 @@ export type Database = {
         Row: {
           avatar_url: string | null
           created_at: string
+          credits_used: number
           display_name: string | null
           email: string | null
           id: string
@@ -167,12 +658,14 @@ export type Database = {
           selected_model: string
           storage_used_bytes: number
           tcoins: number
+          tokens_used: number
           updated_at: string
           usage_reset_at: string
         }
         Insert: {
           avatar_url?: string | null
           created_at?: string
+          credits_used?: number
           display_name?: string | null
           email?: string | null
           id: string
@@ -185,12 +678,14 @@ export type Database = {
           selected_model?: string
           storage_used_bytes?: number
           tcoins?: number
+          tokens_used?: number
           updated_at?: string
           usage_reset_at?: string
         }
         Update: {
           avatar_url?: string | null
           created_at?: string
+          credits_used?: number
           display_name?: string | null
           email?: string | null
           id?: string
@@ -203,10 +698,19 @@ export type Database = {
           selected_model?: string
           storage_used_bytes?: number
           tcoins?: number
+          tokens_used?: number
           updated_at?: string
           usage_reset_at?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "profiles_selected_model_fkey"
+            columns: ["selected_model"]
+            isOneToOne: false
+            referencedRelation: "models"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       promo_code_uses: {
         Row: {
@@ -270,6 +774,95 @@ export type Database = {
         }
         Relationships: []
       }
+      shared_artifacts: {
+        Row: {
+          chat_id: string
+          content: string
+          created_at: string
+          id: string
+          kind: string
+          message_id: string
+          slug: string
+          title: string | null
+          user_id: string
+        }
+        Insert: {
+          chat_id: string
+          content: string
+          created_at?: string
+          id?: string
+          kind: string
+          message_id: string
+          slug: string
+          title?: string | null
+          user_id: string
+        }
+        Update: {
+          chat_id?: string
+          content?: string
+          created_at?: string
+          id?: string
+          kind?: string
+          message_id?: string
+          slug?: string
+          title?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "shared_artifacts_chat_id_fkey"
+            columns: ["chat_id"]
+            isOneToOne: false
+            referencedRelation: "chats"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "shared_artifacts_message_id_fkey"
+            columns: ["message_id"]
+            isOneToOne: false
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      shared_chats: {
+        Row: {
+          chat_id: string
+          created_at: string
+          id: string
+          messages: Json
+          slug: string
+          title: string
+          user_id: string
+        }
+        Insert: {
+          chat_id: string
+          created_at?: string
+          id?: string
+          messages: Json
+          slug: string
+          title: string
+          user_id: string
+        }
+        Update: {
+          chat_id?: string
+          created_at?: string
+          id?: string
+          messages?: Json
+          slug?: string
+          title?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "shared_chats_chat_id_fkey"
+            columns: ["chat_id"]
+            isOneToOne: false
+            referencedRelation: "chats"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       tcoin_transactions: {
         Row: {
           amount: number
@@ -297,6 +890,159 @@ export type Database = {
         }
         Relationships: []
       }
+      usage_events: {
+        Row: {
+          chat_id: string | null
+          comparison_id: string | null
+          completion_tokens: number
+          created_at: string
+          credits: number
+          id: string
+          message_id: string | null
+          model: string
+          prompt_tokens: number
+          user_id: string
+        }
+        Insert: {
+          chat_id?: string | null
+          comparison_id?: string | null
+          completion_tokens?: number
+          created_at?: string
+          credits?: number
+          id?: string
+          message_id?: string | null
+          model: string
+          prompt_tokens?: number
+          user_id: string
+        }
+        Update: {
+          chat_id?: string | null
+          comparison_id?: string | null
+          completion_tokens?: number
+          created_at?: string
+          credits?: number
+          id?: string
+          message_id?: string | null
+          model?: string
+          prompt_tokens?: number
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "usage_events_chat_id_fkey"
+            columns: ["chat_id"]
+            isOneToOne: false
+            referencedRelation: "chats"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "usage_events_comparison_id_fkey"
+            columns: ["comparison_id"]
+            isOneToOne: false
+            referencedRelation: "model_comparisons"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "usage_events_message_id_fkey"
+            columns: ["message_id"]
+            isOneToOne: false
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      usage_limits: {
+        Row: {
+          credits_limit: number
+          images_gen_limit: number
+          images_prompt_limit: number
+          messages_limit: number
+          metric: string
+          tier: string
+          tokens_limit: number
+          updated_at: string
+        }
+        Insert: {
+          credits_limit: number
+          images_gen_limit: number
+          images_prompt_limit: number
+          messages_limit: number
+          metric?: string
+          tier: string
+          tokens_limit: number
+          updated_at?: string
+        }
+        Update: {
+          credits_limit?: number
+          images_gen_limit?: number
+          images_prompt_limit?: number
+          messages_limit?: number
+          metric?: string
+          tier?: string
+          tokens_limit?: number
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      user_memories: {
+        Row: {
+          content: string
+          created_at: string
+          id: string
+          source_message_id: string | null
+          status: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          content: string
+          created_at?: string
+          id?: string
+          source_message_id?: string | null
+          status?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          content?: string
+          created_at?: string
+          id?: string
+          source_message_id?: string | null
+          status?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "user_memories_source_message_id_fkey"
+            columns: ["source_message_id"]
+            isOneToOne: false
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      user_roles: {
+        Row: {
+          created_at: string
+          id: string
+          role: Database["public"]["Enums"]["app_role"]
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          role: Database["public"]["Enums"]["app_role"]
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          role?: Database["public"]["Enums"]["app_role"]
+          user_id?: string
+        }
+        Relationships: []
+      }
     }
     Views: {
       [_ in never]: never
@@ -308,28 +1054,143 @@ export type Database = {
       }
       can_user_send_message: { Args: { _user_id: string }; Returns: Json }
       check_and_reset_usage: { Args: { _user_id: string }; Returns: undefined }
+      choose_comparison_answer: {
+        Args: { _comparison_id: string; _index: number }
+        Returns: Json
+      }
       count_user_messages_in_hours: {
         Args: { _hours: number; _user_id: string }
         Returns: number
       }
+      delete_knowledge_document: {
+        Args: { _document_id: string }
+        Returns: string
+      }
+      feedback_summary: {
+        Args: { _since?: string }
+        Returns: {
+          last_feedback_at: string
+          model: string
+          negative: number
+          persona_version: number
+          positive: number
+          reasons: Json
+        }[]
+      }
       get_user_limits: { Args: { _user_id: string }; Returns: Json }
       get_user_storage_limit: { Args: { _user_id: string }; Returns: number }
+      has_role: {
+        Args: {
+          _role: Database["public"]["Enums"]["app_role"]
+          _user_id: string
+        }
+        Returns: boolean
+      }
       increment_image_gen_usage: { Args: { _user_id: string }; Returns: Json }
       increment_message_usage: {
-        Args: { _has_image?: boolean; _user_id: string }
+        Args: { _cost?: number; _has_image?: boolean; _user_id: string }
         Returns: Json
       }
       increment_storage_usage: {
         Args: { _bytes: number; _user_id: string }
         Returns: undefined
       }
+      match_knowledge_chunks: {
+        Args: {
+          _match_count?: number
+          _min_similarity?: number
+          _query_embedding: string
+          _user_id: string
+        }
+        Returns: {
+          chunk_index: number
+          content: string
+          document_id: string
+          id: string
+          similarity: number
+          title: string
+        }[]
+      }
+      recent_feedback_comments: {
+        Args: { _limit?: number }
+        Returns: {
+          comment: string
+          created_at: string
+          id: string
+          model: string
+          persona_version: number
+          rating: string
+          reason: string
+        }[]
+      }
+      record_usage_event: {
+        Args: {
+          _chat_id?: string
+          _comparison_id?: string
+          _completion_tokens: number
+          _message_id?: string
+          _model: string
+          _prompt_tokens: number
+          _user_id: string
+        }
+        Returns: undefined
+      }
+      refund_message_usage: {
+        Args: { _completion_tokens?: number; _cost?: number; _user_id: string }
+        Returns: undefined
+      }
+      release_storage_usage: {
+        Args: { _bytes: number; _user_id: string }
+        Returns: undefined
+      }
+      save_chat_exchange: {
+        Args: {
+          _assistant_content: string
+          _attachment_ids: string[]
+          _chat_id: string
+          _parent_id: string
+          _model?: string
+          _persona_version?: number
+          _sources?: Json
+          _truncated?: boolean
+          _user_content: string
+        }
+        Returns: Json
+      }
+      search_chats: {
+        Args: { _limit?: number; _query: string }
+        Returns: {
+          chat_id: string
+          chat_title: string
+          created_at: string
+          message_id: string
+          rank: number
+          role: string
+          snippet: string
+        }[]
+      }
+      search_document: { Args: { _text: string }; Returns: unknown }
+      search_query: { Args: { _query: string }; Returns: unknown }
+      share_artifact: {
+        Args: {
+          _content: string
+          _kind: string
+          _message_id: string
+          _title: string
+        }
+        Returns: string
+      }
+      share_chat: {
+        Args: { _chat_id: string; _message_ids?: string[] }
+        Returns: string
+      }
       validate_promo_code: {
         Args: { _code: string; _user_id: string }
         Returns: Json
       }
     }
     Enums: {
-      [_ in never]: never
+      app_role: "admin"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -456,6 +1317,8 @@ export type CompositeTypes<
 
 export const Constants = {
   public: {
-    Enums: {},
+    Enums: {
+      app_role: ["admin"],
+    },
   },
 } as const
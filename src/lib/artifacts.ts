@@ -0,0 +1,225 @@
+import type { Message } from '@/hooks/useChats';
+
+// Artifacts are fenced code blocks in assistant replies that can be previewed: HTML
+// pages, SVG images, Mermaid diagrams and single-file React components. The model
+// tags them (see supabase/functions/_shared/artifacts.ts) with an id it reuses when
+// revising, e.g. ```html artifact="pricing-page" title="Pricing page"; blocks with the
+// same id are the versions of one artifact.
+
+export type ArtifactKind = 'html' | 'svg' | 'mermaid' | 'react';
+
+export interface ArtifactVersion {
+  messageId: string;
+  content: string;
+  created_at: string;
+}
+
+export interface Artifact {
+  id: string;
+  kind: ArtifactKind;
+  // Null for untagged blocks; the panel shows the kind instead
+  title: string | null;
+  // Oldest first
+  versions: ArtifactVersion[];
+}
+
+const KIND_BY_LANGUAGE: Record<string, ArtifactKind> = {
+  html: 'html',
+  svg: 'svg',
+  xml: 'svg',
+  mermaid: 'mermaid',
+  jsx: 'react',
+  tsx: 'react',
+  react: 'react',
+};
+
+export const ARTIFACT_FILE_EXTENSIONS: Record<ArtifactKind, string> = {
+  html: 'html',
+  svg: 'svg',
+  mermaid: 'mmd',
+  react: 'jsx',
+};
+
+export const ARTIFACT_MIME_TYPES: Record<ArtifactKind, string> = {
+  html: 'text/html',
+  svg: 'image/svg+xml',
+  mermaid: 'text/plain',
+  react: 'text/javascript',
+};
+
+interface FencedBlock {
+  language: string;
+  meta: string;
+  content: string;
+}
+
+// Fenced code blocks of a markdown text, in order
+function fencedBlocks(markdown: string): FencedBlock[] {
+  const blocks: FencedBlock[] = [];
+  let open: { fence: string; language: string; meta: string; lines: string[] } | null = null;
+
+  for (const line of markdown.split('\n')) {
+    if (!open) {
+      const match = line.match(/^ {0,3}(`{3,}|~{3,})\s*([^\s`]*)\s*(.*)$/);
+      if (match) open = { fence: match[1], language: match[2].toLowerCase(), meta: match[3], lines: [] };
+      continue;
+    }
+
+    const close = line.match(/^ {0,3}(`{3,}|~{3,})\s*$/);
+    if (close && close[1][0] === open.fence[0] && close[1].length >= open.fence.length) {
+      blocks.push({ language: open.language, meta: open.meta, content: open.lines.join('\n') });
+      open = null;
+    } else {
+      open.lines.push(line);
+    }
+  }
+
+  return blocks;
+}
+
+function metaValue(meta: string, key: string): string | null {
+  const match = meta.match(new RegExp(`(?:^|\\s)${key}=(?:"([^"]*)"|'([^']*)'|(\\S+))`));
+  const value = match ? (match[1] ?? match[2] ?? match[3]).trim() : '';
+  return value || null;
+}
+
+export function artifactKind(language: string | null | undefined): ArtifactKind | null {
+  return (language && KIND_BY_LANGUAGE[language.toLowerCase()]) || null;
+}
+
+// Untagged blocks count only when they are clearly meant to be viewed on their own,
+// so a short snippet in an explanation doesn't become an artifact
+function looksStandalone(kind: ArtifactKind, content: string): boolean {
+  const start = content.trimStart().slice(0, 200).toLowerCase();
+  switch (kind) {
+    case 'html':
+      return start.startsWith('<!doctype html') || start.startsWith('<html');
+    case 'svg':
+      return start.startsWith('<svg') || (start.startsWith('<?xml') && start.includes('<svg'));
+    case 'react':
+      return /export\s+default\s/.test(content);
+    case 'mermaid':
+      // Already drawn in the message
+      return false;
+  }
+}
+
+// Artifacts of a conversation path, in order of first appearance
+export function extractArtifacts(messages: Message[]): Artifact[] {
+  const artifacts = new Map<string, Artifact>();
+
+  for (const message of messages) {
+    if (message.role !== 'assistant') continue;
+
+    fencedBlocks(message.content).forEach((block, index) => {
+      const kind = artifactKind(block.language);
+      if (!kind || !block.content.trim()) return;
+
+      const tag = metaValue(block.meta, 'artifact');
+      if (!tag && !looksStandalone(kind, block.content)) return;
+
+      const id = tag ?? `${message.id}:${index}`;
+      const artifact = artifacts.get(id) ?? { id, kind, title: null, versions: [] };
+      // A revision may change the title (or, rarely, the kind)
+      artifact.kind = kind;
+      artifact.title = metaValue(block.meta, 'title') ?? artifact.title ?? tag;
+      // Repeating an artifact unchanged isn't a new version
+      if (artifact.versions[artifact.versions.length - 1]?.content !== block.content) {
+        artifact.versions.push({ messageId: message.id, content: block.content, created_at: message.created_at });
+      }
+      artifacts.set(id, artifact);
+    });
+  }
+
+  return [...artifacts.values()];
+}
+
+export function artifactFileName(artifact: { title: string | null; kind: ArtifactKind }): string {
+  const base = (artifact.title ?? '')
+    .replace(/[\\/:*?"<>|]+/g, '')
+    .trim()
+    .replace(/\s+/g, '-')
+    .slice(0, 60) || 'artifact';
+  return `${base}.${ARTIFACT_FILE_EXTENSIONS[artifact.kind]}`;
+}
+
+// Embeds text in an inline <script> without it being able to close the tag
+function scriptJson(value: unknown): string {
+  return JSON.stringify(value).replace(/</g, '\\u003c');
+}
+
+const REACT_VERSION = '18.3.1';
+
+// React components are compiled in the frame with Babel; react and other bare
+// imports resolve to esm.sh, sharing one React
+function reactDocument(source: string): string {
+  const imports = {
+    'react': `https://esm.sh/react@${REACT_VERSION}`,
+    'react/': `https://esm.sh/react@${REACT_VERSION}/`,
+    'react-dom': `https://esm.sh/react-dom@${REACT_VERSION}`,
+    'react-dom/': `https://esm.sh/react-dom@${REACT_VERSION}/`,
+  };
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<script type="importmap">${scriptJson({ imports })}</script>
+<script src="https://cdn.tailwindcss.com"></script>
+<script src="https://unpkg.com/@babel/standalone@7/babel.min.js"></script>
+</head>
+<body>
+<div id="root"></div>
+<script type="module">
+const source = ${scriptJson(source)};
+const showError = (error) => {
+  const pre = document.createElement('pre');
+  pre.style.cssText = 'color:#b91c1c;white-space:pre-wrap;font:13px ui-monospace,monospace;padding:16px';
+  pre.textContent = String(error && error.stack || error);
+  document.body.replaceChildren(pre);
+};
+try {
+  let { code } = Babel.transform(source, {
+    filename: 'artifact.tsx',
+    presets: [['react', { runtime: 'automatic' }], ['typescript', { isTSX: true, allExtensions: true }]],
+  });
+  code = code.replace(/(from\\s*|import\\s*\\(?\\s*)(["'])([^"'./:][^"':]*)\\2/g, (match, prefix, quote, name) =>
+    name === 'react' || name.startsWith('react/') || name === 'react-dom' || name.startsWith('react-dom/')
+      ? match
+      : prefix + quote + 'https://esm.sh/' + name + '?external=react,react-dom' + quote);
+  const module = await import(URL.createObjectURL(new Blob([code], { type: 'text/javascript' })));
+  const { createElement } = await import('react');
+  const { createRoot } = await import('react-dom/client');
+  createRoot(document.getElementById('root')).render(createElement(module.default));
+} catch (error) {
+  showError(error);
+}
+</script>
+</body>
+</html>`;
+}
+
+function svgDocument(source: string): string {
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<style>html,body{margin:0;height:100%}body{display:flex;align-items:center;justify-content:center}svg{max-width:100%;max-height:100%}</style>
+</head>
+<body>${source}</body>
+</html>`;
+}
+
+// Document for the preview frame. Mermaid isn't framed: it is drawn by the app's own
+// (strict) Mermaid renderer.
+export function artifactDocument(kind: Exclude<ArtifactKind, 'mermaid'>, source: string): string {
+  switch (kind) {
+    case 'html':
+      return source;
+    case 'svg':
+      return svgDocument(source);
+    case 'react':
+      return reactDocument(source);
+  }
+}
@@ -0,0 +1,50 @@
+import { FunctionsHttpError } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import type { MessageAttachment } from '@/hooks/useChats';
+
+export const ATTACHMENTS_BUCKET = 'chat-attachments';
+
+export const MAX_ATTACHMENTS_PER_MESSAGE = 10;
+
+// File picker filters: the text, PDF and code documents the server extracts text
+// from, and those plus images for chat attachments
+export const ACCEPTED_DOCUMENTS = [
+  'application/pdf', 'text/*',
+  '.md', '.csv', '.json', '.xml', '.yaml', '.yml', '.toml', '.ini', '.log',
+  '.js', '.jsx', '.ts', '.tsx', '.py', '.rb', '.php', '.java', '.kt', '.swift',
+  '.go', '.rs', '.c', '.h', '.cpp', '.hpp', '.cs', '.sh', '.sql', '.html', '.css', '.scss',
+].join(',');
+
+export const ACCEPTED_ATTACHMENTS = `image/png,image/jpeg,image/gif,image/webp,${ACCEPTED_DOCUMENTS}`;
+
+// Attachment storage paths are object paths in the attachments bucket; local previews
+// (blob:) and rows not yet migrated (data:) are already usable as image sources
+export function isStoredAttachment(ref: string): boolean {
+  return !/^(data:|blob:|https?:)/.test(ref);
+}
+
+// Uploads a chat attachment through the upload-attachment function (which checks the
+// storage quota and extracts document text) and resolves with the not yet linked
+// attachment row. Errors carry the server's code, e.g. `storage_limit_exceeded`.
+export async function uploadAttachment(file: File): Promise<MessageAttachment> {
+  const body = new FormData();
+  body.append('file', file);
+
+  const { data, error } = await supabase.functions.invoke('upload-attachment', { body });
+
+  if (error) {
+    if (error instanceof FunctionsHttpError) {
+      const details = await error.context.json().catch(() => null);
+      throw new Error(details?.error || error.message);
+    }
+    throw error;
+  }
+
+  return data as MessageAttachment;
+}
+
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
@@ -0,0 +1,321 @@
+import { createElement } from 'react';
+import ReactMarkdown from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import { supabase } from '@/integrations/supabase/client';
+import { ATTACHMENTS_BUCKET, isStoredAttachment } from '@/lib/attachments';
+import { buildActiveBranch } from '@/lib/messageTree';
+import type { Chat, Message, MessageSource } from '@/hooks/useChats';
+
+// JSON exports are versioned so the importer can read older files
+export const EXPORT_FORMAT = 'thetai-chat-export';
+export const EXPORT_VERSION = 1;
+
+export interface ExportedAttachment {
+  file_name: string;
+  mime_type: string;
+  kind: 'image' | 'document';
+  size_bytes: number;
+  created_at: string;
+  // File contents as a data URL; null if the file could not be read
+  data: string | null;
+}
+
+export interface ExportedMessage {
+  id: string;
+  // Messages form a tree; alternatives (regenerations, edits) share a parent
+  parent_id: string | null;
+  role: 'user' | 'assistant';
+  content: string;
+  // Model that wrote an assistant reply, when known
+  model: string | null;
+  pinned: boolean;
+  truncated: boolean;
+  sources: MessageSource[] | null;
+  created_at: string;
+  attachments: ExportedAttachment[];
+}
+
+export interface ExportedChat {
+  id: string;
+  title: string;
+  created_at: string;
+  updated_at: string;
+  use_knowledge: boolean;
+  // Per-chat model settings; null follows the account's defaults
+  model: string | null;
+  temperature: number | null;
+  custom_instructions: string | null;
+  pinned: boolean;
+  folder: string | null;
+  tags: string[];
+  messages: ExportedMessage[];
+}
+
+export interface ChatExportFile {
+  format: typeof EXPORT_FORMAT;
+  version: number;
+  exported_at: string;
+  chats: ExportedChat[];
+}
+
+export type ExportFormat = 'markdown' | 'json' | 'pdf';
+
+export interface ExportLabels {
+  user: string;
+  assistant: string;
+  stopped: string;
+}
+
+const PAGE_SIZE = 1000;
+// Chat ids go into the request URL, so they are sent in batches
+const CHAT_ID_BATCH_SIZE = 100;
+const ATTACHMENT_DOWNLOAD_CONCURRENCY = 4;
+
+async function fetchMessages(chatIds: string[]): Promise<Message[]> {
+  const messages: Message[] = [];
+  for (let batch = 0; batch < chatIds.length; batch += CHAT_ID_BATCH_SIZE) {
+    const ids = chatIds.slice(batch, batch + CHAT_ID_BATCH_SIZE);
+    for (let from = 0; ; from += PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from('messages')
+        .select('*, attachments:message_attachments(id, message_id, storage_path, file_name, mime_type, kind, size_bytes, created_at)')
+        .in('chat_id', ids)
+        .order('created_at', { ascending: true })
+        .range(from, from + PAGE_SIZE - 1);
+
+      if (error) throw error;
+      messages.push(...(data as unknown as Message[]));
+      if (data.length < PAGE_SIZE) break;
+    }
+  }
+  return messages;
+}
+
+// Like Promise.all over `items.map(fn)`, with at most `limit` calls running at once
+async function mapWithConcurrency<T, R>(items: T[], limit: number, fn: (item: T) => Promise<R>): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index]);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
+
+function blobToDataUrl(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
+async function readAttachment(storagePath: string): Promise<string | null> {
+  if (!isStoredAttachment(storagePath)) {
+    return storagePath.startsWith('data:') ? storagePath : null;
+  }
+
+  const { data, error } = await supabase.storage.from(ATTACHMENTS_BUCKET).download(storagePath);
+  if (error || !data) {
+    console.error('Failed to read attachment for export:', storagePath, error);
+    return null;
+  }
+  return blobToDataUrl(data);
+}
+
+// Collects the chats with all their branches, attachment contents, folder and tags
+export async function loadChatsForExport(chats: Chat[]): Promise<ChatExportFile> {
+  const chatIds = chats.map(c => c.id);
+  const [messages, folders, tags, assignments] = await Promise.all([
+    chatIds.length > 0 ? fetchMessages(chatIds) : Promise.resolve([]),
+    supabase.from('chat_folders').select('id, name'),
+    supabase.from('chat_tags').select('id, name'),
+    supabase.from('chat_tag_assignments').select('chat_id, tag_id'),
+  ]);
+
+  const folderNames = new Map((folders.data ?? []).map(f => [f.id, f.name]));
+  const tagNames = new Map((tags.data ?? []).map(tag => [tag.id, tag.name]));
+
+  const attachments = messages.flatMap(message => message.attachments ?? []);
+  const attachmentData = await mapWithConcurrency(
+    attachments, ATTACHMENT_DOWNLOAD_CONCURRENCY, attachment => readAttachment(attachment.storage_path)
+  );
+  const dataByAttachment = new Map(attachments.map((attachment, i) => [attachment.id, attachmentData[i]]));
+
+  const exportedMessages = messages.map((message): ExportedMessage => ({
+    id: message.id,
+    parent_id: message.parent_id,
+    role: message.role,
+    content: message.content,
+    model: message.model,
+    pinned: message.pinned,
+    truncated: message.truncated,
+    sources: message.sources,
+    created_at: message.created_at,
+    attachments: (message.attachments ?? []).map(attachment => ({
+      file_name: attachment.file_name,
+      mime_type: attachment.mime_type,
+      kind: attachment.kind,
+      size_bytes: attachment.size_bytes,
+      created_at: attachment.created_at,
+      data: dataByAttachment.get(attachment.id) ?? null,
+    })),
+  }));
+
+  const messagesByChat = new Map<string, ExportedMessage[]>();
+  messages.forEach((message, i) => {
+    const list = messagesByChat.get(message.chat_id) ?? [];
+    list.push(exportedMessages[i]);
+    messagesByChat.set(message.chat_id, list);
+  });
+
+  return {
+    format: EXPORT_FORMAT,
+    version: EXPORT_VERSION,
+    exported_at: new Date().toISOString(),
+    chats: chats.map(chat => ({
+      id: chat.id,
+      title: chat.title,
+      created_at: chat.created_at,
+      updated_at: chat.updated_at,
+      use_knowledge: chat.use_knowledge,
+      model: chat.model,
+      temperature: chat.temperature,
+      custom_instructions: chat.custom_instructions,
+      pinned: !!chat.pinned_at,
+      folder: chat.folder_id ? folderNames.get(chat.folder_id) ?? null : null,
+      tags: (assignments.data ?? [])
+        .filter(a => a.chat_id === chat.id)
+        .map(a => tagNames.get(a.tag_id))
+        .filter((name): name is string => !!name),
+      messages: messagesByChat.get(chat.id) ?? [],
+    })),
+  };
+}
+
+// Markdown and PDF show the conversation as it currently reads: the newest branch
+function activePath(chat: ExportedChat): ExportedMessage[] {
+  return buildActiveBranch(chat.messages, {}).path;
+}
+
+export function toMarkdown(file: ChatExportFile, labels: ExportLabels): string {
+  return file.chats.map(chat => {
+    const lines = [`# ${chat.title}`, '', `_${new Date(chat.created_at).toLocaleString()}_`, ''];
+
+    for (const message of activePath(chat)) {
+      lines.push(`## ${message.role === 'user' ? labels.user : labels.assistant}`, '');
+      if (message.content) lines.push(message.content, '');
+      for (const attachment of message.attachments) {
+        lines.push(attachment.kind === 'image' && attachment.data
+          ? `![${attachment.file_name}](${attachment.data})`
+          : `📎 ${attachment.file_name}`);
+      }
+      if (message.attachments.length > 0) lines.push('');
+      if (message.truncated) lines.push(`_${labels.stopped}_`, '');
+    }
+
+    return lines.join('\n');
+  }).join('\n---\n\n');
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+const PRINT_STYLES = `
+  body { font-family: system-ui, sans-serif; color: #111; max-width: 800px; margin: 0 auto; padding: 24px; line-height: 1.5; }
+  h1 { font-size: 22px; margin: 0 0 4px; }
+  .date { color: #666; font-size: 12px; margin-bottom: 24px; }
+  .message { margin: 0 0 16px; padding: 12px 16px; border-radius: 8px; break-inside: avoid; }
+  .user { background: #f1f3f5; }
+  .assistant { border: 1px solid #e5e7eb; }
+  .role { font-weight: 600; font-size: 12px; text-transform: uppercase; color: #555; margin-bottom: 4px; }
+  .stopped { color: #888; font-style: italic; font-size: 12px; }
+  img { max-width: 100%; max-height: 400px; display: block; margin: 8px 0; }
+  pre { background: #f6f8fa; padding: 8px; overflow-x: auto; white-space: pre-wrap; }
+  code { font-family: ui-monospace, monospace; font-size: 13px; }
+  table { border-collapse: collapse; margin: 8px 0; }
+  th, td { border: 1px solid #d0d7de; padding: 4px 8px; }
+  .chat + .chat { page-break-before: always; }
+`;
+
+// Builds a printable HTML document; the browser's print dialog saves it as PDF
+export async function toPrintHtml(file: ChatExportFile, labels: ExportLabels): Promise<string> {
+  const { renderToStaticMarkup } = await import('react-dom/server');
+  const renderMarkdown = (content: string) =>
+    renderToStaticMarkup(createElement(ReactMarkdown, { remarkPlugins: [remarkGfm] }, content));
+
+  const chats = file.chats.map(chat => {
+    const messages = activePath(chat).map(message => `
+      <div class="message ${message.role}">
+        <div class="role">${escapeHtml(message.role === 'user' ? labels.user : labels.assistant)}</div>
+        ${renderMarkdown(message.content)}
+        ${message.attachments.map(a => a.kind === 'image' && a.data
+          ? `<img src="${escapeHtml(a.data)}" alt="${escapeHtml(a.file_name)}" />`
+          : `<p>📎 ${escapeHtml(a.file_name)}</p>`).join('')}
+        ${message.truncated ? `<div class="stopped">${escapeHtml(labels.stopped)}</div>` : ''}
+      </div>`).join('');
+
+    return `
+      <section class="chat">
+        <h1>${escapeHtml(chat.title)}</h1>
+        <div class="date">${escapeHtml(new Date(chat.created_at).toLocaleString())}</div>
+        ${messages}
+      </section>`;
+  }).join('');
+
+  const title = file.chats.length === 1 ? file.chats[0].title : 'ThetAI';
+  return `<!DOCTYPE html><html><head><meta charset="utf-8"><title>${escapeHtml(title)}</title>` +
+    `<style>${PRINT_STYLES}</style></head><body>${chats}</body></html>`;
+}
+
+export function downloadFile(fileName: string, content: string, mimeType: string) {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+function exportFileName(chats: Chat[], extension: string): string {
+  const date = new Date().toISOString().slice(0, 10);
+  const base = chats.length === 1
+    ? chats[0].title.replace(/[\\/:*?"<>|]+/g, '').trim().slice(0, 60) || 'chat'
+    : 'thetai-chats';
+  return `${base}-${date}.${extension}`;
+}
+
+// Exports one or more chats. The PDF opens in a print window, which has to be
+// created synchronously from the click so popup blockers let it through.
+export async function exportChats(chats: Chat[], format: ExportFormat, labels: ExportLabels) {
+  const printWindow = format === 'pdf' ? window.open('', '_blank') : null;
+  if (format === 'pdf' && !printWindow) throw new Error('popup_blocked');
+
+  try {
+    const file = await loadChatsForExport(chats);
+
+    if (format === 'json') {
+      downloadFile(exportFileName(chats, 'json'), JSON.stringify(file, null, 2), 'application/json');
+    } else if (format === 'markdown') {
+      downloadFile(exportFileName(chats, 'md'), toMarkdown(file, labels), 'text/markdown');
+    } else if (printWindow) {
+      printWindow.document.write(await toPrintHtml(file, labels));
+      printWindow.document.close();
+      // Print once images are decoded
+      await Promise.all(Array.from(printWindow.document.images).map(img => img.decode().catch(() => undefined)));
+      printWindow.print();
+    }
+  } catch (error) {
+    printWindow?.close();
+    throw error;
+  }
+}
@@ -0,0 +1,233 @@
+import { FunctionsHttpError } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import { EXPORT_FORMAT, EXPORT_VERSION, ChatExportFile } from '@/lib/chatExport';
+
+export type ImportSource = 'chatgpt' | 'thetai';
+
+export interface ImportedAttachment {
+  file_name: string;
+  mime_type: string;
+  // data URL
+  data: string;
+}
+
+// Message ids are the source's own ids and only link messages to their parents
+export interface ImportedMessage {
+  id: string;
+  parent_id: string | null;
+  role: 'user' | 'assistant';
+  content: string;
+  created_at: string;
+  pinned?: boolean;
+  truncated?: boolean;
+  sources?: unknown;
+  model?: string | null;
+  attachments?: ImportedAttachment[];
+}
+
+export interface ImportedChat {
+  source: ImportSource;
+  // Conversation id in the source, used to recognise repeated imports
+  source_id: string;
+  title: string;
+  created_at: string;
+  updated_at: string;
+  messages: ImportedMessage[];
+}
+
+export interface ImportResult {
+  chat_id: string;
+  messages: number;
+  attachments: number;
+  attachments_skipped: number;
+}
+
+// Thrown for files that are neither a ChatGPT nor a ThetAI export; the message is the
+// error code shown to the user
+export class ImportFormatError extends Error {}
+
+// ChatGPT's conversations.json: a list of conversations, each a tree of nodes in
+// `mapping` whose messages hold their text in content.parts
+interface ChatGptNode {
+  id: string;
+  parent?: string | null;
+  children?: string[];
+  message?: {
+    id: string;
+    author?: { role?: string };
+    create_time?: number | null;
+    content?: { content_type?: string; parts?: unknown[]; text?: string };
+  } | null;
+}
+
+interface ChatGptConversation {
+  id?: string;
+  conversation_id?: string;
+  title?: string;
+  create_time?: number;
+  update_time?: number;
+  mapping: Record<string, ChatGptNode>;
+}
+
+function fromUnixSeconds(seconds: number | null | undefined): string | null {
+  return typeof seconds === 'number' && seconds > 0 ? new Date(seconds * 1000).toISOString() : null;
+}
+
+function chatGptText(node: ChatGptNode): string {
+  const content = node.message?.content;
+  if (!content) return '';
+  if (Array.isArray(content.parts)) {
+    // Image and file parts are objects pointing at files outside conversations.json
+    return content.parts.filter((p): p is string => typeof p === 'string').join('\n').trim();
+  }
+  return typeof content.text === 'string' ? content.text.trim() : '';
+}
+
+function parseChatGptConversation(conversation: ChatGptConversation, index: number): ImportedChat {
+  const chatCreatedAt = fromUnixSeconds(conversation.create_time) ?? new Date().toISOString();
+  const nodes = conversation.mapping;
+
+  // System, tool and empty messages are dropped; their children hang on the nearest
+  // kept ancestor. Nodes without a time inherit their parent's.
+  const kept = new Map<string, ImportedMessage>();
+  const times = new Map<string, string>();
+  const keptAncestor = (nodeId: string | null | undefined): string | null => {
+    const seen = new Set<string>();
+    let current = nodeId ? nodes[nodeId] : undefined;
+    while (current && !seen.has(current.id)) {
+      seen.add(current.id);
+      if (kept.has(current.id)) return current.id;
+      current = current.parent ? nodes[current.parent] : undefined;
+    }
+    return null;
+  };
+
+  // Walk from the roots so parents are handled before their children
+  const roots = Object.values(nodes).filter(node => !node.parent || !nodes[node.parent]);
+  const queue = [...roots];
+  const visited = new Set<string>();
+
+  while (queue.length > 0) {
+    const node = queue.shift()!;
+    if (visited.has(node.id)) continue;
+    visited.add(node.id);
+
+    const parentTime = node.parent ? times.get(node.parent) : undefined;
+    const createdAt = fromUnixSeconds(node.message?.create_time) ?? parentTime ?? chatCreatedAt;
+    times.set(node.id, createdAt);
+
+    const role = node.message?.author?.role;
+    const content = chatGptText(node);
+    if ((role === 'user' || role === 'assistant') && content) {
+      kept.set(node.id, {
+        id: node.id,
+        parent_id: keptAncestor(node.parent),
+        role,
+        content,
+        created_at: createdAt,
+      });
+    }
+
+    for (const childId of node.children ?? []) {
+      if (nodes[childId]) queue.push(nodes[childId]);
+    }
+  }
+
+  return {
+    source: 'chatgpt',
+    source_id: conversation.conversation_id ?? conversation.id ?? `${chatCreatedAt}-${index}`,
+    title: conversation.title?.trim() || 'ChatGPT',
+    created_at: chatCreatedAt,
+    updated_at: fromUnixSeconds(conversation.update_time) ?? chatCreatedAt,
+    messages: [...kept.values()],
+  };
+}
+
+function parseThetaiExport(file: ChatExportFile): ImportedChat[] {
+  if (typeof file.version !== 'number' || file.version > EXPORT_VERSION) {
+    throw new ImportFormatError('unsupported_version');
+  }
+  if (!Array.isArray(file.chats)) throw new ImportFormatError('unsupported_format');
+
+  return file.chats.map(chat => ({
+    source: 'thetai',
+    source_id: chat.id,
+    title: chat.title,
+    created_at: chat.created_at,
+    updated_at: chat.updated_at,
+    messages: (chat.messages ?? []).map(message => ({
+      id: message.id,
+      parent_id: message.parent_id,
+      role: message.role,
+      content: message.content,
+      created_at: message.created_at,
+      pinned: message.pinned,
+      truncated: message.truncated,
+      sources: message.sources,
+      model: message.model,
+      attachments: (message.attachments ?? [])
+        .filter(a => a.data)
+        .map(a => ({ file_name: a.file_name, mime_type: a.mime_type, data: a.data! })),
+    })),
+  }));
+}
+
+function isChatGptConversation(value: unknown): value is ChatGptConversation {
+  return !!value && typeof value === 'object' && 'mapping' in value && typeof value.mapping === 'object';
+}
+
+// Reads a ChatGPT conversations.json (or a single conversation) or a ThetAI JSON export
+export function parseImportFile(text: string): ImportedChat[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new ImportFormatError('invalid_json');
+  }
+
+  if (data && typeof data === 'object' && 'format' in data && data.format === EXPORT_FORMAT) {
+    return parseThetaiExport(data as ChatExportFile);
+  }
+
+  const conversations = Array.isArray(data) ? data : [data];
+  if (conversations.length > 0 && conversations.every(isChatGptConversation)) {
+    return conversations.map(parseChatGptConversation);
+  }
+
+  throw new ImportFormatError('unsupported_format');
+}
+
+// Ids of source conversations that already exist in the account: imported before, or,
+// for ThetAI exports, still present as the original chat
+export async function findImportedChats(chats: ImportedChat[]): Promise<Set<string>> {
+  const { data, error } = await supabase
+    .from('chats')
+    .select('id, import_source, import_id');
+
+  if (error) throw error;
+
+  const existing = new Set<string>();
+  for (const row of data ?? []) {
+    existing.add(`thetai:${row.id}`);
+    if (row.import_source && row.import_id) existing.add(`${row.import_source}:${row.import_id}`);
+  }
+
+  return new Set(chats
+    .filter(chat => existing.has(`${chat.source}:${chat.source_id}`))
+    .map(chat => chat.source_id));
+}
+
+// Errors carry the server's code, e.g. `already_imported`
+export async function importChat(chat: ImportedChat): Promise<ImportResult> {
+  const { data, error } = await supabase.functions.invoke('import-chat', { body: { chat } });
+
+  if (error) {
+    if (error instanceof FunctionsHttpError) {
+      const details = await error.context.json().catch(() => null);
+      throw new Error(details?.error || error.message);
+    }
+    throw error;
+  }
+
+  return data as ImportResult;
+}
@@ -0,0 +1,129 @@
+import type { Message } from '@/hooks/useChats';
+import type { ModelComparison } from '@/hooks/useComparisons';
+
+export interface StoredExchange {
+  user_message: Message;
+  assistant_message: Message;
+}
+
+export interface ChatStreamResult {
+  content: string;
+  // Rows the server saved once the reply finished (sent as `event: stored`)
+  stored: StoredExchange | null;
+}
+
+export interface StoredComparison {
+  user_message: Message;
+  comparison: ModelComparison;
+}
+
+export interface ComparisonStreamResult {
+  // One answer per compared model, in the requested order
+  contents: string[];
+  stored: StoredComparison | null;
+}
+
+// Payloads of the chat stream: completion chunks, compared answer chunks and errors
+// (`event: stored` carries the saved rows instead)
+interface StreamPayload {
+  choices?: { delta?: { content?: string } }[];
+  index?: number;
+  delta?: string;
+  error?: string;
+}
+
+// Reads the SSE stream returned by the `chat` edge function, handing each event's
+// JSON payload to onEvent until [DONE]. `event: error` payloads are thrown.
+async function readEvents(
+  response: Response,
+  onEvent: (event: string, json: StreamPayload) => void
+): Promise<void> {
+  const reader = response.body?.getReader();
+  if (!reader) return;
+
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let event = 'message';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+
+    // Keep the last (possibly incomplete) line in the buffer
+    const lines = buffer.split('\n');
+    buffer = lines.pop() ?? '';
+
+    for (const rawLine of lines) {
+      const line = rawLine.replace(/\r$/, '');
+
+      if (line === '') {
+        event = 'message'; // blank line ends an SSE event
+        continue;
+      }
+      if (line.startsWith('event: ')) {
+        event = line.slice(7).trim();
+        continue;
+      }
+      if (!line.startsWith('data: ')) continue; // comments, keep-alives
+
+      const payload = line.slice(6).trim();
+      if (payload === '[DONE]') return;
+
+      try {
+        const json = JSON.parse(payload);
+        if (event === 'error') throw new Error(json.error || 'stream_error');
+        onEvent(event, json);
+      } catch (error) {
+        if (event === 'error') throw error;
+        console.warn('Skipping malformed stream chunk:', payload);
+      }
+    }
+  }
+}
+
+// Reads an OpenAI-style SSE stream returned by the `chat` edge function.
+// Calls onDelta (if given) for every content chunk and resolves with the full text.
+export async function readChatStream(
+  response: Response,
+  onDelta?: (delta: string) => void
+): Promise<ChatStreamResult> {
+  const result: ChatStreamResult = { content: '', stored: null };
+
+  await readEvents(response, (event, json) => {
+    if (event === 'stored') {
+      result.stored = json as unknown as StoredExchange;
+      return;
+    }
+    const content = json.choices?.[0]?.delta?.content;
+    if (content) {
+      result.content += content;
+      onDelta?.(content);
+    }
+  });
+
+  return result;
+}
+
+// Reads the stream of a compared prompt: `{ index, delta }` chunks, one answer per
+// model, then the stored prompt and comparison
+export async function readComparisonStream(
+  response: Response,
+  onDelta?: (index: number, delta: string) => void
+): Promise<ComparisonStreamResult> {
+  const result: ComparisonStreamResult = { contents: [], stored: null };
+
+  await readEvents(response, (event, json) => {
+    if (event === 'stored') {
+      result.stored = json as unknown as StoredComparison;
+      return;
+    }
+    if (typeof json.index === 'number' && typeof json.delta === 'string') {
+      result.contents[json.index] = (result.contents[json.index] ?? '') + json.delta;
+      onDelta?.(json.index, json.delta);
+    }
+  });
+
+  return result;
+}
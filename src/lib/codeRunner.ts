@@ -0,0 +1,146 @@
+// Runs code blocks from assistant replies in Web Workers. The Supabase session lives
+// in the page's localStorage, which workers can't reach; the workers also lose their
+// network and storage APIs before any user code runs (see workers/sandbox.ts).
+
+export type RunLanguage = 'javascript' | 'python';
+
+// Code block languages that get a Run button
+export const RUNNABLE_LANGUAGES: Record<string, RunLanguage> = {
+  js: 'javascript',
+  javascript: 'javascript',
+  mjs: 'javascript',
+  py: 'python',
+  python: 'python',
+};
+
+// Wall-clock limits, counted from when the code starts (not while Pyodide loads)
+export const RUN_TIME_LIMIT_MS: Record<RunLanguage, number> = {
+  javascript: 10_000,
+  python: 30_000,
+};
+
+// Heap cap for the Python runtime. Browsers offer no way to cap a worker's JS heap;
+// a runaway JS allocation crashes the worker, which ends the run with an error.
+export const PYTHON_MEMORY_LIMIT_BYTES = 512 * 1024 * 1024;
+
+// Output beyond this is dropped
+export const MAX_OUTPUT_CHARS = 100_000;
+
+export type RunOutput =
+  | { type: 'stdout' | 'stderr'; text: string }
+  // PNG data URL, e.g. a matplotlib figure
+  | { type: 'image'; src: string };
+
+export type RunStatus = 'done' | 'error' | 'timeout' | 'memory' | 'stopped';
+
+export interface RunResult {
+  status: RunStatus;
+  durationMs: number;
+}
+
+// Messages between the page and the runner workers
+export interface RunnerRequest {
+  id: string;
+  code: string;
+}
+
+export type RunnerMessage =
+  | { id: string; type: 'started' }
+  | { id: string; type: 'stdout' | 'stderr'; text: string }
+  | { id: string; type: 'image'; src: string }
+  | { id: string; type: 'done'; error?: string; memoryExceeded?: boolean };
+
+export interface CodeRun {
+  result: Promise<RunResult>;
+  stop: () => void;
+}
+
+function createWorker(language: RunLanguage): Worker {
+  return language === 'python'
+    ? new Worker(new URL('../workers/pythonRunner.worker.ts', import.meta.url), { type: 'module' })
+    : new Worker(new URL('../workers/jsRunner.worker.ts', import.meta.url), { type: 'module' });
+}
+
+// Pyodide takes seconds to start, so its worker is kept between runs (and runs one
+// program at a time); a JS worker is cheap and made fresh for every run
+let pythonWorker: Worker | null = null;
+// Runs waiting on that worker, ended when it is replaced
+const pythonRuns = new Set<(status: RunStatus) => void>();
+
+// `onStarted` fires once the runtime is ready and the code itself starts
+export function runCode(
+  language: RunLanguage,
+  code: string,
+  onOutput: (output: RunOutput) => void,
+  onStarted?: () => void,
+): CodeRun {
+  const id = crypto.randomUUID();
+  const worker = language === 'python' ? (pythonWorker ??= createWorker('python')) : createWorker(language);
+
+  let stop = () => {};
+  const result = new Promise<RunResult>((resolve) => {
+    let startedAt = performance.now();
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let outputChars = 0;
+    let finished = false;
+
+    const finish = (status: RunStatus, kill = false) => {
+      if (finished) return;
+      finished = true;
+      pythonRuns.delete(finish);
+      clearTimeout(timer);
+      worker.removeEventListener('message', handleMessage);
+      worker.removeEventListener('error', handleError);
+      if (kill || language !== 'python') {
+        worker.terminate();
+      }
+      if (kill && worker === pythonWorker) {
+        pythonWorker = null;
+        for (const other of [...pythonRuns]) other('stopped');
+      }
+      resolve({ status, durationMs: Math.round(performance.now() - startedAt) });
+    };
+
+    const handleMessage = (event: MessageEvent<RunnerMessage>) => {
+      const message = event.data;
+      if (message.id !== id) return;
+
+      if (message.type === 'started') {
+        startedAt = performance.now();
+        timer = setTimeout(() => finish('timeout', true), RUN_TIME_LIMIT_MS[language]);
+        onStarted?.();
+      } else if (message.type === 'stdout' || message.type === 'stderr') {
+        if (outputChars >= MAX_OUTPUT_CHARS) return;
+        const text = message.text.slice(0, MAX_OUTPUT_CHARS - outputChars);
+        outputChars += text.length;
+        onOutput({ type: message.type, text });
+      } else if (message.type === 'image') {
+        // Only images produced by the runtime are shown, never markup
+        if (/^data:image\/png;base64,[A-Za-z0-9+/=]+$/.test(message.src)) {
+          onOutput({ type: 'image', src: message.src });
+        }
+      } else if (message.type === 'done') {
+        if (message.error) onOutput({ type: 'stderr', text: message.error });
+        // Python's heap can't shrink back, so the worker is replaced after a memory error
+        finish(message.memoryExceeded ? 'memory' : message.error ? 'error' : 'done', message.memoryExceeded);
+      }
+    };
+
+    // An uncaught error or a crash (e.g. out of memory); the worker isn't reused
+    const handleError = (event: ErrorEvent) => {
+      event.preventDefault();
+      onOutput({ type: 'stderr', text: event.message || 'The runtime stopped unexpectedly' });
+      finish('error', true);
+    };
+
+    if (language === 'python') pythonRuns.add(finish);
+    worker.addEventListener('message', handleMessage);
+    worker.addEventListener('error', handleError);
+    stop = () => finish('stopped', true);
+
+    const request: RunnerRequest = { id, code };
+    worker.postMessage(request);
+  });
+
+  return { result, stop: () => stop() };
+}
@@ -0,0 +1,47 @@
+import type { ExtraProps, Options } from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import remarkMath from 'remark-math';
+import rehypeSanitize, { defaultSchema } from 'rehype-sanitize';
+import rehypeKatex from 'rehype-katex';
+import rehypeHighlight from 'rehype-highlight';
+
+// Model output is untrusted: raw HTML is never rendered, and the tree is sanitized
+// before KaTeX and highlighting add their own (trusted) markup
+const schema = {
+  ...defaultSchema,
+  attributes: {
+    ...defaultSchema.attributes,
+    code: [
+      ...(defaultSchema.attributes?.code ?? []),
+      ['className', /^language-./, 'math-inline', 'math-display'],
+    ],
+  },
+};
+
+export const remarkPlugins: Options['remarkPlugins'] = [remarkGfm, remarkMath];
+
+export const rehypePlugins: Options['rehypePlugins'] = [
+  [rehypeSanitize, schema],
+  rehypeKatex,
+  // Mermaid blocks are drawn as diagrams, not highlighted
+  [rehypeHighlight, { plainText: ['mermaid'] }],
+];
+
+type HastElement = NonNullable<ExtraProps['node']>;
+type HastNode = HastElement | HastElement['children'][number];
+
+// Plain text of a rendered node, e.g. the source of a code block for copying
+export function nodeText(node: HastNode): string {
+  if ('value' in node) return node.value;
+  if ('children' in node) return node.children.map(nodeText).join('');
+  return '';
+}
+
+// Language of a fenced code block from the `language-*` class on its <code>
+export function codeLanguage(pre: HastElement): string | null {
+  const code = pre.children.find((child): child is HastElement => child.type === 'element' && child.tagName === 'code');
+  const classes = code?.properties.className;
+  if (!Array.isArray(classes)) return null;
+  const language = classes.find((c): c is string => typeof c === 'string' && c.startsWith('language-'));
+  return language ? language.slice('language-'.length) : null;
+}
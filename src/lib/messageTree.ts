@@ -0,0 +1,78 @@
+import type { Message } from '@/hooks/useChats';
+
+// Key for messages without a parent (the first turn and its edited alternatives)
+const ROOT = 'root';
+
+export interface BranchInfo {
+  // Alternatives under the same parent, oldest first
+  siblingIds: string[];
+  index: number;
+}
+
+// Anything shaped like a message tree node: stored messages as well as exported ones
+type TreeNode = Pick<Message, 'id' | 'parent_id' | 'created_at'>;
+
+export interface ActiveBranch<T extends TreeNode = Message> {
+  path: T[];
+  branches: Record<string, BranchInfo>;
+}
+
+export function parentKey(message: Pick<Message, 'parent_id'>): string {
+  return message.parent_id ?? ROOT;
+}
+
+// Follows the selected child at every fork (the newest one when nothing was
+// selected) and returns the active conversation path plus sibling info per message.
+export function buildActiveBranch<T extends TreeNode>(
+  messages: T[],
+  selected: Record<string, string>
+): ActiveBranch<T> {
+  const children = new Map<string, T[]>();
+  for (const message of messages) {
+    const key = parentKey(message);
+    const list = children.get(key) ?? [];
+    list.push(message);
+    children.set(key, list);
+  }
+  for (const list of children.values()) {
+    list.sort((a, b) => a.created_at.localeCompare(b.created_at));
+  }
+
+  const path: T[] = [];
+  const branches: Record<string, BranchInfo> = {};
+  const visited = new Set<string>();
+  let key = ROOT;
+
+  while (children.has(key) && !visited.has(key)) {
+    visited.add(key);
+    const siblings = children.get(key)!;
+    const chosen = siblings.find(m => m.id === selected[key]) ?? siblings[siblings.length - 1];
+
+    path.push(chosen);
+    branches[chosen.id] = {
+      siblingIds: siblings.map(m => m.id),
+      index: siblings.indexOf(chosen),
+    };
+    key = chosen.id;
+  }
+
+  return { path, branches };
+}
+
+// Branch selection that makes the given message part of the active path: at every
+// fork above it, the child leading to it is chosen.
+export function selectionForMessage(
+  messages: Message[],
+  messageId: string
+): Record<string, string> {
+  const byId = new Map(messages.map(m => [m.id, m]));
+  const selected: Record<string, string> = {};
+  let current = byId.get(messageId);
+
+  while (current && !(parentKey(current) in selected)) {
+    selected[parentKey(current)] = current.id;
+    current = current.parent_id ? byId.get(current.parent_id) : undefined;
+  }
+
+  return selected;
+}
@@ -0,0 +1,22 @@
+import { FunctionsHttpError } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import type { ArtifactKind } from '@/lib/artifacts';
+
+export interface SharedArtifact {
+  title: string | null;
+  kind: ArtifactKind;
+  content: string;
+  created_at: string;
+}
+
+// Resolves to null when the link does not exist or was revoked
+export async function fetchSharedArtifact(slug: string): Promise<SharedArtifact | null> {
+  const { data, error } = await supabase.functions.invoke('get-shared-artifact', { body: { slug } });
+
+  if (error) {
+    if (error instanceof FunctionsHttpError && error.context.status === 404) return null;
+    throw error;
+  }
+
+  return data as SharedArtifact;
+}
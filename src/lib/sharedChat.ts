@@ -0,0 +1,35 @@
+import { FunctionsHttpError } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import type { Message } from '@/hooks/useChats';
+
+// A share link's snapshot as the public page receives it. Attachment storage_path
+// holds a short-lived signed URL instead of an object path.
+export interface SharedChat {
+  title: string;
+  created_at: string;
+  messages: Message[];
+}
+
+type SharedMessage = Pick<Message, 'id' | 'role' | 'content' | 'truncated' | 'sources' | 'created_at' | 'attachments'>;
+
+// Resolves to null when the link does not exist or was revoked
+export async function fetchSharedChat(slug: string): Promise<SharedChat | null> {
+  const { data, error } = await supabase.functions.invoke('get-shared-chat', { body: { slug } });
+
+  if (error) {
+    if (error instanceof FunctionsHttpError && error.context.status === 404) return null;
+    throw error;
+  }
+
+  const messages = (data.messages as SharedMessage[]).map((message, i, all): Message => ({
+    ...message,
+    chat_id: '',
+    parent_id: i > 0 ? all[i - 1].id : null,
+    pinned: false,
+    model: null,
+    prompt_tokens: null,
+    completion_tokens: null,
+  }));
+
+  return { title: data.title, created_at: data.created_at, messages };
+}
@@ -45,6 +45,41 @@ export const translations = {
         create: "Create content",
         analyze: "Analyze data",
       },
+      pin: "Pin to context",
+      unpin: "Unpin",
+      regenerate: "Regenerate response",
+      previousVersion: "Previous version",
+      nextVersion: "Next version",
+      edit: "Edit message",
+      saveEdit: "Save & send",
+      cancelEdit: "Cancel",
+      stop: "Stop generating",
+      stopped: "Generation stopped",
+      attachFiles: "Attach files",
+      removeAttachment: "Remove",
+      useKnowledge: "Use knowledge base",
+      sources: "Sources",
+      sourcePart: "part",
+      copy: "Copy",
+      copied: "Copied",
+      copyCode: "Copy code",
+      runCode: "Run",
+      stopCode: "Stop",
+      loadingPython: "Loading Python…",
+      runFinished: "Finished in",
+      runFailed: "Failed after",
+      runTimedOut: "Time limit exceeded",
+      runMemoryLimit: "Memory limit exceeded",
+      runStopped: "Stopped",
+      noOutput: "No output",
+      clearOutput: "Clear output",
+      error: "Error",
+      uploadFailed: "Could not upload the file",
+      storageFull: "Storage is full. Upgrade to ThetAI Plus!",
+      fileTooLarge: "File is too large (10 MB max)",
+      unsupportedFileType: "This file type is not supported",
+      tokensLimit: "Token limit reached",
+      tokensLimitHint: "The limit resets within 6 hours. More tokens with ThetAI Plus!",
     },
     settings: {
       title: "Settings",
@@ -58,12 +93,6 @@ export const translations = {
       notEnough: "Not enough TCoins",
       close: "Close",
       aiModel: "AI Model",
-      modelFree: "thetai-1.0-free",
-      modelNano: "thetai-1.0-nano",
-      modelOmni: "thetai-1.0-omni",
-      modelFreeDesc: "Base model for Free tier",
-      modelNanoDesc: "Fast and efficient",
-      modelOmniDesc: "Thinks longer, answers with quality",
       plusOnly: "Plus only",
       account: "Account",
       nickname: "Nickname",
@@ -95,6 +124,10 @@ export const translations = {
       cancelSubscription: "Cancel subscription",
       subscriptionCancelled: "Subscription cancelled",
       cancelConfirm: "Are you sure you want to cancel?",
+      tokens: "Tokens",
+      credits: "Credits",
+      tokensBreakdown: "Tokens are counted for both your prompts and the replies",
+      creditsHint: "1 credit = 1000 tokens, weighted by the model's cost",
     },
     language: {
       select: "Language",
@@ -168,6 +201,32 @@ export const translations = {
       imageGenerator: "Image Generator",
       voiceChat: "Voice Chat",
       imageLibrary: "Image Library",
+      knowledge: "Knowledge",
+      searchPlaceholder: "Search chats…",
+      clearSearch: "Clear search",
+      noResults: "Nothing found",
+      you: "You",
+      pinned: "Pinned",
+      chats: "Chats",
+      newFolder: "New folder",
+      folderName: "Folder name",
+      newSubfolder: "New subfolder",
+      rename: "Rename",
+      delete: "Delete",
+      deleteFolderConfirm: "Delete this folder? Its chats will be kept.",
+      pin: "Pin",
+      unpin: "Unpin",
+      moveTo: "Move to",
+      noFolder: "No folder",
+      tags: "Tags",
+      newTag: "New tag",
+      tagName: "Tag name",
+      changeColor: "Change colour",
+      deleteTag: "Delete tag",
+      deleteTagConfirm: "Delete this tag from all chats?",
+      noTaggedChats: "No chats with this tag",
+      chatOptions: "Chat options",
+      chatTitle: "Chat title",
     },
     imageLibrary: {
       title: "Image Library",
@@ -180,6 +239,168 @@ export const translations = {
       generatedAt: "Generated",
       goToGenerator: "Go to Generator",
     },
+    knowledge: {
+      title: "Knowledge",
+      description: "Documents your chats can draw on",
+      upload: "Upload documents",
+      empty: "No documents yet",
+      emptySubtitle: "Upload text, PDF or code files, then turn on Knowledge in a chat to use them in answers.",
+      processing: "Processing…",
+      failed: "Processing failed",
+      chunks: "chunks",
+      delete: "Delete",
+      deleted: "Document deleted",
+      unsupported: "This file type is not supported",
+      storageFull: "Storage is full",
+      uploadFailed: "Upload failed",
+    },
+    memory: {
+      title: "Memory",
+      description: "Facts about you that ThetAI keeps in mind in every chat",
+      empty: "Nothing remembered yet",
+      addPlaceholder: "e.g. I prefer short answers",
+      add: "Add",
+      proposed: "Suggested by ThetAI",
+      rememberThis: "Remember this?",
+      confirm: "Remember",
+      dismiss: "Dismiss",
+      edit: "Edit",
+      delete: "Forget",
+      saved: "Memory saved",
+    },
+    export: {
+      title: "Export",
+      markdown: "Markdown",
+      json: "JSON (for import)",
+      pdf: "PDF (print)",
+      dataTitle: "Your chats",
+      dataDescription: "Download all conversations with their attachments",
+      exportAll: "Export all",
+      exporting: "Preparing export…",
+      failed: "Export failed",
+      popupBlocked: "Allow pop-ups to print the PDF",
+      noChats: "No chats to export",
+    },
+    import: {
+      title: "Import chats",
+      description: "ChatGPT conversations.json or a ThetAI JSON export",
+      chooseFile: "Choose file",
+      found: "Conversations found",
+      messages: "messages",
+      alreadyImported: "Already imported",
+      duplicatesSkipped: "Conversations that are already in your account will be skipped.",
+      selectAll: "Select all",
+      selectNone: "Select none",
+      importSelected: "Import",
+      importing: "Importing",
+      done: "Chats imported",
+      failedCount: "failed",
+      attachmentsSkipped: "Some attachments were skipped: storage is full",
+      invalidFile: "This file is not a supported export",
+      unsupportedVersion: "This export was made by a newer version of ThetAI",
+      empty: "No conversations in this file",
+      back: "Back",
+    },
+    share: {
+      action: "Share",
+      title: "Share chat",
+      description: "Anyone with the link can read a copy of this conversation as it is now. Later messages are not included.",
+      create: "Create link",
+      activeLinks: "Active links",
+      copy: "Copy link",
+      copied: "Link copied",
+      revoke: "Revoke link",
+      revoked: "Link revoked",
+      createdAt: "Created",
+      failed: "Could not create the link",
+      sharedOn: "Shared",
+      notFound: "Link not found",
+      notFoundHint: "It may have been revoked by its owner.",
+      loadFailed: "Could not load the chat",
+    },
+    feedback: {
+      good: "Good response",
+      bad: "Bad response",
+      whatWasGood: "What was good?",
+      whatWentWrong: "What went wrong?",
+      commentPlaceholder: "Add a comment (optional)",
+      skip: "Skip",
+      send: "Send",
+      dashboardTitle: "Answer feedback",
+      dashboardDescription: "Satisfaction per model and persona version",
+      model: "Model",
+      personaVersion: "Persona",
+      ratings: "Ratings",
+      satisfaction: "Satisfaction",
+      topReasons: "Top reasons",
+      unknownModel: "Not recorded",
+      noFeedback: "No feedback for this period yet",
+      recentComments: "Recent comments",
+      noComments: "No comments yet",
+      reasons: {
+        helpful: "Helpful",
+        accurate: "Accurate",
+        well_written: "Well written",
+        inaccurate: "Inaccurate",
+        unhelpful: "Not helpful",
+        incomplete: "Incomplete",
+        wrong_language: "Wrong language",
+        other: "Other",
+      },
+      periods: {
+        "7d": "7 days",
+        "30d": "30 days",
+        all: "All time",
+      },
+      saveFailed: "Could not save your rating",
+    },
+    artifacts: {
+      title: "Artifacts",
+      open: "Open preview",
+      show: "Show artifacts",
+      close: "Close",
+      preview: "Preview",
+      code: "Code",
+      version: "Version",
+      previousVersion: "Previous version",
+      nextVersion: "Next version",
+      download: "Download",
+      share: "Share",
+      shareDescription: "Anyone with the link can view this version of the artifact.",
+      html: "HTML page",
+      svg: "SVG image",
+      mermaid: "Diagram",
+      react: "React component",
+      loadFailed: "Could not load the artifact",
+    },
+    compare: {
+      toggle: "Compare models",
+      hint: "The prompt goes to each selected model; each answer counts against your limit by its model's cost.",
+      selectModels: "Choose 2–3 models",
+      cost: "Cost",
+      pickHint: "Pick the answer to continue the chat with",
+      choose: "Use this answer",
+      failed: "This model didn't answer",
+      needTwo: "Choose at least two models to compare",
+      modelUnavailable: "Model unavailable",
+      modelUnavailableHint: "One of the selected models is only available with ThetAI Plus.",
+      chooseFailed: "Could not save your choice",
+    },
+    chatSettings: {
+      title: "Chat settings",
+      description: "Apply to this chat only; everything else follows your settings.",
+      model: "Model",
+      profileDefault: "As in settings",
+      modelLocked: "This model needs ThetAI Plus; the default model will answer instead.",
+      temperature: "Temperature",
+      temperatureHint: "Lower is more focused, higher is more creative.",
+      defaultTemperature: "Default",
+      reset: "Reset",
+      instructions: "Custom instructions",
+      instructionsPlaceholder: "E.g. answer briefly, in English, as a code reviewer",
+      save: "Save",
+      saved: "Chat settings saved",
+    },
   },
   ru: {
     auth: {
@@ -227,6 +448,41 @@ export const translations = {
         create: "Создай контент",
         analyze: "Проанализируй данные",
       },
+      pin: "Закрепить в контексте",
+      unpin: "Открепить",
+      regenerate: "Сгенерировать заново",
+      previousVersion: "Предыдущая версия",
+      nextVersion: "Следующая версия",
+      edit: "Редактировать сообщение",
+      saveEdit: "Сохранить и отправить",
+      cancelEdit: "Отмена",
+      stop: "Остановить генерацию",
+      stopped: "Генерация остановлена",
+      attachFiles: "Прикрепить файлы",
+      removeAttachment: "Убрать",
+      useKnowledge: "Использовать базу знаний",
+      sources: "Источники",
+      sourcePart: "часть",
+      copy: "Копировать",
+      copied: "Скопировано",
+      copyCode: "Копировать код",
+      runCode: "Запустить",
+      stopCode: "Остановить",
+      loadingPython: "Загрузка Python…",
+      runFinished: "Выполнено за",
+      runFailed: "Ошибка через",
+      runTimedOut: "Превышен лимит времени",
+      runMemoryLimit: "Превышен лимит памяти",
+      runStopped: "Остановлено",
+      noOutput: "Нет вывода",
+      clearOutput: "Очистить вывод",
+      error: "Ошибка",
+      uploadFailed: "Не удалось загрузить файл",
+      storageFull: "Хранилище заполнено. Перейдите на ThetAI Plus!",
+      fileTooLarge: "Файл слишком большой (максимум 10 МБ)",
+      unsupportedFileType: "Этот тип файла не поддерживается",
+      tokensLimit: "Лимит токенов исчерпан",
+      tokensLimitHint: "Лимит восстановится через 6 часов. Больше токенов — в ThetAI Plus!",
     },
     settings: {
       title: "Настройки",
@@ -240,12 +496,6 @@ export const translations = {
       notEnough: "Недостаточно TCoins",
       close: "Закрыть",
       aiModel: "Модель ИИ",
-      modelFree: "thetai-1.0-free",
-      modelNano: "thetai-1.0-nano",
-      modelOmni: "thetai-1.0-omni",
-      modelFreeDesc: "Базовая модель для Free тарифа",
-      modelNanoDesc: "Быстрая и эффективная",
-      modelOmniDesc: "Думает дольше, отвечает качественно",
       plusOnly: "Только Plus",
       account: "Аккаунт",
       nickname: "Никнейм",
@@ -277,6 +527,10 @@ export const translations = {
       cancelSubscription: "Отменить подписку",
       subscriptionCancelled: "Подписка отменена",
       cancelConfirm: "Вы уверены, что хотите отменить?",
+      tokens: "Токены",
+      credits: "Кредиты",
+      tokensBreakdown: "Считаются токены и ваших запросов, и ответов",
+      creditsHint: "1 кредит = 1000 токенов с учётом стоимости модели",
     },
     language: {
       select: "Язык",
@@ -350,6 +604,32 @@ export const translations = {
       imageGenerator: "Генератор изображений",
       voiceChat: "Голосовой чат",
       imageLibrary: "Библиотека изображений",
+      knowledge: "База знаний",
+      searchPlaceholder: "Поиск по чатам…",
+      clearSearch: "Очистить поиск",
+      noResults: "Ничего не найдено",
+      you: "Вы",
+      pinned: "Закреплённые",
+      chats: "Чаты",
+      newFolder: "Новая папка",
+      folderName: "Название папки",
+      newSubfolder: "Новая подпапка",
+      rename: "Переименовать",
+      delete: "Удалить",
+      deleteFolderConfirm: "Удалить папку? Чаты из неё сохранятся.",
+      pin: "Закрепить",
+      unpin: "Открепить",
+      moveTo: "Переместить в",
+      noFolder: "Без папки",
+      tags: "Теги",
+      newTag: "Новый тег",
+      tagName: "Название тега",
+      changeColor: "Сменить цвет",
+      deleteTag: "Удалить тег",
+      deleteTagConfirm: "Удалить этот тег у всех чатов?",
+      noTaggedChats: "Нет чатов с этим тегом",
+      chatOptions: "Действия с чатом",
+      chatTitle: "Название чата",
     },
     imageLibrary: {
       title: "Библиотека изображений",
@@ -362,6 +642,168 @@ export const translations = {
       generatedAt: "Создано",
       goToGenerator: "Перейти к генератору",
     },
+    knowledge: {
+      title: "База знаний",
+      description: "Документы, на которые могут опираться ваши чаты",
+      upload: "Загрузить документы",
+      empty: "Пока нет документов",
+      emptySubtitle: "Загрузите текстовые, PDF или файлы с кодом, затем включите базу знаний в чате, чтобы использовать их в ответах.",
+      processing: "Обработка…",
+      failed: "Ошибка обработки",
+      chunks: "фрагм.",
+      delete: "Удалить",
+      deleted: "Документ удалён",
+      unsupported: "Этот тип файла не поддерживается",
+      storageFull: "Хранилище заполнено",
+      uploadFailed: "Не удалось загрузить",
+    },
+    memory: {
+      title: "Память",
+      description: "Факты о вас, которые ThetAI учитывает в каждом чате",
+      empty: "Пока ничего не запомнено",
+      addPlaceholder: "Например: предпочитаю короткие ответы",
+      add: "Добавить",
+      proposed: "Предложено ThetAI",
+      rememberThis: "Запомнить?",
+      confirm: "Запомнить",
+      dismiss: "Отклонить",
+      edit: "Изменить",
+      delete: "Забыть",
+      saved: "Запомнено",
+    },
+    export: {
+      title: "Экспорт",
+      markdown: "Markdown",
+      json: "JSON (для импорта)",
+      pdf: "PDF (печать)",
+      dataTitle: "Ваши чаты",
+      dataDescription: "Скачайте все переписки вместе с вложениями",
+      exportAll: "Экспортировать всё",
+      exporting: "Готовим экспорт…",
+      failed: "Не удалось экспортировать",
+      popupBlocked: "Разрешите всплывающие окна, чтобы напечатать PDF",
+      noChats: "Нет чатов для экспорта",
+    },
+    import: {
+      title: "Импорт чатов",
+      description: "conversations.json из ChatGPT или JSON-экспорт ThetAI",
+      chooseFile: "Выбрать файл",
+      found: "Найдено переписок",
+      messages: "сообщений",
+      alreadyImported: "Уже импортирован",
+      duplicatesSkipped: "Переписки, которые уже есть в аккаунте, будут пропущены.",
+      selectAll: "Выбрать все",
+      selectNone: "Снять выбор",
+      importSelected: "Импортировать",
+      importing: "Импорт",
+      done: "Чаты импортированы",
+      failedCount: "с ошибкой",
+      attachmentsSkipped: "Часть вложений пропущена: хранилище заполнено",
+      invalidFile: "Этот файл не поддерживается",
+      unsupportedVersion: "Экспорт сделан более новой версией ThetAI",
+      empty: "В файле нет переписок",
+      back: "Назад",
+    },
+    share: {
+      action: "Поделиться",
+      title: "Поделиться чатом",
+      description: "Любой, у кого есть ссылка, сможет прочитать копию этого диалога в текущем виде. Новые сообщения в неё не попадут.",
+      create: "Создать ссылку",
+      activeLinks: "Активные ссылки",
+      copy: "Копировать ссылку",
+      copied: "Ссылка скопирована",
+      revoke: "Отозвать ссылку",
+      revoked: "Ссылка отозвана",
+      createdAt: "Создана",
+      failed: "Не удалось создать ссылку",
+      sharedOn: "Опубликовано",
+      notFound: "Ссылка не найдена",
+      notFoundHint: "Возможно, владелец отозвал её.",
+      loadFailed: "Не удалось загрузить чат",
+    },
+    feedback: {
+      good: "Хороший ответ",
+      bad: "Плохой ответ",
+      whatWasGood: "Что понравилось?",
+      whatWentWrong: "Что пошло не так?",
+      commentPlaceholder: "Комментарий (необязательно)",
+      skip: "Пропустить",
+      send: "Отправить",
+      dashboardTitle: "Оценки ответов",
+      dashboardDescription: "Удовлетворённость по моделям и версиям персоны",
+      model: "Модель",
+      personaVersion: "Персона",
+      ratings: "Оценки",
+      satisfaction: "Удовлетворённость",
+      topReasons: "Частые причины",
+      unknownModel: "Не записана",
+      noFeedback: "За этот период оценок пока нет",
+      recentComments: "Последние комментарии",
+      noComments: "Комментариев пока нет",
+      reasons: {
+        helpful: "Полезно",
+        accurate: "Точно",
+        well_written: "Хорошо написано",
+        inaccurate: "Неточно",
+        unhelpful: "Бесполезно",
+        incomplete: "Неполно",
+        wrong_language: "Не тот язык",
+        other: "Другое",
+      },
+      periods: {
+        "7d": "7 дней",
+        "30d": "30 дней",
+        all: "За всё время",
+      },
+      saveFailed: "Не удалось сохранить оценку",
+    },
+    artifacts: {
+      title: "Артефакты",
+      open: "Открыть предпросмотр",
+      show: "Показать артефакты",
+      close: "Закрыть",
+      preview: "Просмотр",
+      code: "Код",
+      version: "Версия",
+      previousVersion: "Предыдущая версия",
+      nextVersion: "Следующая версия",
+      download: "Скачать",
+      share: "Поделиться",
+      shareDescription: "Любой, у кого есть ссылка, сможет посмотреть эту версию артефакта.",
+      html: "HTML-страница",
+      svg: "SVG-изображение",
+      mermaid: "Диаграмма",
+      react: "React-компонент",
+      loadFailed: "Не удалось загрузить артефакт",
+    },
+    compare: {
+      toggle: "Сравнить модели",
+      hint: "Запрос уйдёт каждой выбранной модели; каждый ответ расходует лимит по стоимости своей модели.",
+      selectModels: "Выберите 2–3 модели",
+      cost: "Стоимость",
+      pickHint: "Выберите ответ, с которым продолжить чат",
+      choose: "Выбрать этот ответ",
+      failed: "Эта модель не ответила",
+      needTwo: "Выберите хотя бы две модели для сравнения",
+      modelUnavailable: "Модель недоступна",
+      modelUnavailableHint: "Одна из выбранных моделей доступна только в ThetAI Plus.",
+      chooseFailed: "Не удалось сохранить выбор",
+    },
+    chatSettings: {
+      title: "Настройки чата",
+      description: "Действуют только в этом чате; остальное — как в ваших настройках.",
+      model: "Модель",
+      profileDefault: "Как в настройках",
+      modelLocked: "Эта модель требует ThetAI Plus; вместо неё ответит модель по умолчанию.",
+      temperature: "Температура",
+      temperatureHint: "Ниже — точнее, выше — креативнее.",
+      defaultTemperature: "По умолчанию",
+      reset: "Сбросить",
+      instructions: "Свои инструкции",
+      instructionsPlaceholder: "Например: отвечай кратко, на английском, как ревьюер кода",
+      save: "Сохранить",
+      saved: "Настройки чата сохранены",
+    },
   },
   uk: {
     auth: {
@@ -409,6 +851,41 @@ export const translations = {
         create: "Створи контент",
         analyze: "Проаналізуй дані",
       },
+      pin: "Закріпити в контексті",
+      unpin: "Відкріпити",
+      regenerate: "Згенерувати знову",
+      previousVersion: "Попередня версія",
+      nextVersion: "Наступна версія",
+      edit: "Редагувати повідомлення",
+      saveEdit: "Зберегти й надіслати",
+      cancelEdit: "Скасувати",
+      stop: "Зупинити генерацію",
+      stopped: "Генерацію зупинено",
+      attachFiles: "Прикріпити файли",
+      removeAttachment: "Прибрати",
+      useKnowledge: "Використовувати базу знань",
+      sources: "Джерела",
+      sourcePart: "частина",
+      copy: "Копіювати",
+      copied: "Скопійовано",
+      copyCode: "Копіювати код",
+      runCode: "Запустити",
+      stopCode: "Зупинити",
+      loadingPython: "Завантаження Python…",
+      runFinished: "Виконано за",
+      runFailed: "Помилка через",
+      runTimedOut: "Перевищено ліміт часу",
+      runMemoryLimit: "Перевищено ліміт пам'яті",
+      runStopped: "Зупинено",
+      noOutput: "Немає виводу",
+      clearOutput: "Очистити вивід",
+      error: "Помилка",
+      uploadFailed: "Не вдалося завантажити файл",
+      storageFull: "Сховище заповнене. Перейдіть на ThetAI Plus!",
+      fileTooLarge: "Файл завеликий (максимум 10 МБ)",
+      unsupportedFileType: "Цей тип файлу не підтримується",
+      tokensLimit: "Ліміт токенів вичерпано",
+      tokensLimitHint: "Ліміт відновиться протягом 6 годин. Більше токенів — у ThetAI Plus!",
     },
     settings: {
       title: "Налаштування",
@@ -422,12 +899,6 @@ export const translations = {
       notEnough: "Недостатньо TCoins",
       close: "Закрити",
       aiModel: "Модель ШІ",
-      modelFree: "thetai-1.0-free",
-      modelNano: "thetai-1.0-nano",
-      modelOmni: "thetai-1.0-omni",
-      modelFreeDesc: "Базова модель для Free тарифу",
-      modelNanoDesc: "Швидка та ефективна",
-      modelOmniDesc: "Думає довше, відповідає якісно",
       plusOnly: "Тільки Plus",
       account: "Акаунт",
       nickname: "Нікнейм",
@@ -459,6 +930,10 @@ export const translations = {
       cancelSubscription: "Скасувати підписку",
       subscriptionCancelled: "Підписку скасовано",
       cancelConfirm: "Ви впевнені, що хочете скасувати?",
+      tokens: "Токени",
+      credits: "Кредити",
+      tokensBreakdown: "Рахуються токени і ваших запитів, і відповідей",
+      creditsHint: "1 кредит = 1000 токенів з урахуванням вартості моделі",
     },
     language: {
       select: "Мова",
@@ -532,6 +1007,32 @@ export const translations = {
       imageGenerator: "Генератор зображень",
       voiceChat: "Голосовий чат",
       imageLibrary: "Бібліотека зображень",
+      knowledge: "База знань",
+      searchPlaceholder: "Пошук у чатах…",
+      clearSearch: "Очистити пошук",
+      noResults: "Нічого не знайдено",
+      you: "Ви",
+      pinned: "Закріплені",
+      chats: "Чати",
+      newFolder: "Нова папка",
+      folderName: "Назва папки",
+      newSubfolder: "Нова підпапка",
+      rename: "Перейменувати",
+      delete: "Видалити",
+      deleteFolderConfirm: "Видалити папку? Чати з неї збережуться.",
+      pin: "Закріпити",
+      unpin: "Відкріпити",
+      moveTo: "Перемістити до",
+      noFolder: "Без папки",
+      tags: "Теги",
+      newTag: "Новий тег",
+      tagName: "Назва тегу",
+      changeColor: "Змінити колір",
+      deleteTag: "Видалити тег",
+      deleteTagConfirm: "Видалити цей тег з усіх чатів?",
+      noTaggedChats: "Немає чатів з цим тегом",
+      chatOptions: "Дії з чатом",
+      chatTitle: "Назва чату",
     },
     imageLibrary: {
       title: "Бібліотека зображень",
@@ -544,6 +1045,168 @@ export const translations = {
       generatedAt: "Створено",
       goToGenerator: "Перейти до генератора",
     },
+    knowledge: {
+      title: "База знань",
+      description: "Документи, на які можуть спиратися ваші чати",
+      upload: "Завантажити документи",
+      empty: "Поки немає документів",
+      emptySubtitle: "Завантажте текстові, PDF або файли з кодом, потім увімкніть базу знань у чаті, щоб використовувати їх у відповідях.",
+      processing: "Обробка…",
+      failed: "Помилка обробки",
+      chunks: "фрагм.",
+      delete: "Видалити",
+      deleted: "Документ видалено",
+      unsupported: "Цей тип файлу не підтримується",
+      storageFull: "Сховище заповнене",
+      uploadFailed: "Не вдалося завантажити",
+    },
+    memory: {
+      title: "Пам'ять",
+      description: "Факти про вас, які ThetAI враховує в кожному чаті",
+      empty: "Поки нічого не запам'ятовано",
+      addPlaceholder: "Наприклад: віддаю перевагу коротким відповідям",
+      add: "Додати",
+      proposed: "Запропоновано ThetAI",
+      rememberThis: "Запам'ятати?",
+      confirm: "Запам'ятати",
+      dismiss: "Відхилити",
+      edit: "Змінити",
+      delete: "Забути",
+      saved: "Запам'ятовано",
+    },
+    export: {
+      title: "Експорт",
+      markdown: "Markdown",
+      json: "JSON (для імпорту)",
+      pdf: "PDF (друк)",
+      dataTitle: "Ваші чати",
+      dataDescription: "Завантажте всі розмови разом із вкладеннями",
+      exportAll: "Експортувати все",
+      exporting: "Готуємо експорт…",
+      failed: "Не вдалося експортувати",
+      popupBlocked: "Дозвольте спливаючі вікна, щоб надрукувати PDF",
+      noChats: "Немає чатів для експорту",
+    },
+    import: {
+      title: "Імпорт чатів",
+      description: "conversations.json з ChatGPT або JSON-експорт ThetAI",
+      chooseFile: "Обрати файл",
+      found: "Знайдено розмов",
+      messages: "повідомлень",
+      alreadyImported: "Вже імпортовано",
+      duplicatesSkipped: "Розмови, які вже є в акаунті, буде пропущено.",
+      selectAll: "Обрати всі",
+      selectNone: "Зняти вибір",
+      importSelected: "Імпортувати",
+      importing: "Імпорт",
+      done: "Чати імпортовано",
+      failedCount: "з помилкою",
+      attachmentsSkipped: "Частину вкладень пропущено: сховище заповнене",
+      invalidFile: "Цей файл не підтримується",
+      unsupportedVersion: "Експорт зроблено новішою версією ThetAI",
+      empty: "У файлі немає розмов",
+      back: "Назад",
+    },
+    share: {
+      action: "Поділитися",
+      title: "Поділитися чатом",
+      description: "Будь-хто з посиланням зможе прочитати копію цієї розмови в поточному вигляді. Нові повідомлення до неї не потраплять.",
+      create: "Створити посилання",
+      activeLinks: "Активні посилання",
+      copy: "Копіювати посилання",
+      copied: "Посилання скопійовано",
+      revoke: "Відкликати посилання",
+      revoked: "Посилання відкликано",
+      createdAt: "Створено",
+      failed: "Не вдалося створити посилання",
+      sharedOn: "Опубліковано",
+      notFound: "Посилання не знайдено",
+      notFoundHint: "Можливо, власник її відкликав.",
+      loadFailed: "Не вдалося завантажити чат",
+    },
+    feedback: {
+      good: "Гарна відповідь",
+      bad: "Погана відповідь",
+      whatWasGood: "Що сподобалося?",
+      whatWentWrong: "Що пішло не так?",
+      commentPlaceholder: "Коментар (необов'язково)",
+      skip: "Пропустити",
+      send: "Надіслати",
+      dashboardTitle: "Оцінки відповідей",
+      dashboardDescription: "Задоволеність за моделями та версіями персони",
+      model: "Модель",
+      personaVersion: "Персона",
+      ratings: "Оцінки",
+      satisfaction: "Задоволеність",
+      topReasons: "Часті причини",
+      unknownModel: "Не записана",
+      noFeedback: "За цей період оцінок поки немає",
+      recentComments: "Останні коментарі",
+      noComments: "Коментарів поки немає",
+      reasons: {
+        helpful: "Корисно",
+        accurate: "Точно",
+        well_written: "Добре написано",
+        inaccurate: "Неточно",
+        unhelpful: "Некорисно",
+        incomplete: "Неповно",
+        wrong_language: "Не та мова",
+        other: "Інше",
+      },
+      periods: {
+        "7d": "7 днів",
+        "30d": "30 днів",
+        all: "За весь час",
+      },
+      saveFailed: "Не вдалося зберегти оцінку",
+    },
+    artifacts: {
+      title: "Артефакти",
+      open: "Відкрити попередній перегляд",
+      show: "Показати артефакти",
+      close: "Закрити",
+      preview: "Перегляд",
+      code: "Код",
+      version: "Версія",
+      previousVersion: "Попередня версія",
+      nextVersion: "Наступна версія",
+      download: "Завантажити",
+      share: "Поділитися",
+      shareDescription: "Будь-хто з посиланням зможе переглянути цю версію артефакту.",
+      html: "HTML-сторінка",
+      svg: "SVG-зображення",
+      mermaid: "Діаграма",
+      react: "React-компонент",
+      loadFailed: "Не вдалося завантажити артефакт",
+    },
+    compare: {
+      toggle: "Порівняти моделі",
+      hint: "Запит надійде кожній вибраній моделі; кожна відповідь витрачає ліміт за вартістю своєї моделі.",
+      selectModels: "Оберіть 2–3 моделі",
+      cost: "Вартість",
+      pickHint: "Оберіть відповідь, з якою продовжити чат",
+      choose: "Обрати цю відповідь",
+      failed: "Ця модель не відповіла",
+      needTwo: "Оберіть щонайменше дві моделі для порівняння",
+      modelUnavailable: "Модель недоступна",
+      modelUnavailableHint: "Одна з обраних моделей доступна лише в ThetAI Plus.",
+      chooseFailed: "Не вдалося зберегти вибір",
+    },
+    chatSettings: {
+      title: "Налаштування чату",
+      description: "Діють лише в цьому чаті; решта — як у ваших налаштуваннях.",
+      model: "Модель",
+      profileDefault: "Як у налаштуваннях",
+      modelLocked: "Ця модель потребує ThetAI Plus; замість неї відповість модель за замовчуванням.",
+      temperature: "Температура",
+      temperatureHint: "Нижче — точніше, вище — креативніше.",
+      defaultTemperature: "За замовчуванням",
+      reset: "Скинути",
+      instructions: "Власні інструкції",
+      instructionsPlaceholder: "Наприклад: відповідай коротко, англійською, як рев'юер коду",
+      save: "Зберегти",
+      saved: "Налаштування чату збережено",
+    },
   },
 };
 
@@ -1,40 +1,105 @@
-import { useState, useEffect, useRef } from 'react';
+import { useState, useEffect, useMemo, useRef } from 'react';
 import { useNavigate, useSearchParams } from 'react-router-dom';
+import { useQueryClient } from '@tanstack/react-query';
+import { FunctionsHttpError } from '@supabase/supabase-js';
 import { Sidebar } from '@/components/Sidebar';
+import { Button } from '@/components/ui/button';
 import { ChatMessage } from '@/components/ChatMessage';
 import { ChatInput } from '@/components/ChatInput';
+import { ChatHeader } from '@/components/ChatHeader';
 import { EmptyChat } from '@/components/EmptyChat';
 import { SettingsModal } from '@/components/SettingsModal';
 import { FloatingShapes } from '@/components/FloatingShapes';
+import { MemoryProposals } from '@/components/MemoryProposals';
+import { ArtifactPanel, ArtifactSelection } from '@/components/ArtifactPanel';
+import { ComparePicker } from '@/components/ComparePicker';
+import { ComparisonView } from '@/components/ComparisonView';
 import { useAuth } from '@/hooks/useAuth';
-import { useChats, useMessages } from '@/hooks/useChats';
+import { useLanguage } from '@/hooks/useLanguage';
+import { useFeedback, FeedbackInput } from '@/hooks/useFeedback';
+import { useChats, useMessages, Message, MessageAttachment } from '@/hooks/useChats';
+import { useComparisons, ModelComparison } from '@/hooks/useComparisons';
 import { useToast } from '@/hooks/use-toast';
 import { supabase } from '@/integrations/supabase/client';
-import { Loader2 } from 'lucide-react';
+import { readChatStream, readComparisonStream } from '@/lib/chatStream';
+import { uploadAttachment } from '@/lib/attachments';
+import { Artifact, ArtifactKind, extractArtifacts } from '@/lib/artifacts';
+import { Loader2, PanelRight } from 'lucide-react';
 
 export default function Chat() {
   const { user, loading: authLoading } = useAuth();
   const navigate = useNavigate();
-  const [searchParams] = useSearchParams();
+  const [searchParams, setSearchParams] = useSearchParams();
   const { toast } = useToast();
+  const { t } = useLanguage();
   
   const [currentChatId, setCurrentChatId] = useState<string | null>(null);
   const [isSettingsOpen, setIsSettingsOpen] = useState(false);
   const [isAiTyping, setIsAiTyping] = useState(false);
-  const [pendingMessage, setPendingMessage] = useState<string | null>(null);
+  const [pendingMessage, setPendingMessage] = useState<{ content: string; attachments: MessageAttachment[] } | null>(null);
+  const [streamingContent, setStreamingContent] = useState('');
+  // First message of the active branch being replaced by a regenerate or an edit;
+  // it and everything after it are hidden until the new branch arrives
+  const [replacingFrom, setReplacingFrom] = useState<string | null>(null);
   
-  const { chats, createChat, updateChatTitle } = useChats();
-  const { messages, addMessage } = useMessages(currentChatId);
+  const { chats, createChat, setChatKnowledge, stopReply } = useChats();
+  // Knowledge toggle before the first message, applied once the chat is created
+  const [newChatKnowledge, setNewChatKnowledge] = useState(false);
+  const { messages, branches, selectBranch, revealMessage, togglePin } = useMessages(currentChatId);
+  const { feedbackByMessage, submitFeedback, removeFeedback } = useFeedback(currentChatId);
+  const { openComparisons, chooseAnswer } = useComparisons(currentChatId);
+  // Compare mode: the models the next prompt goes to (null when off), the answers
+  // streaming in, and the answer being picked
+  const [compareModels, setCompareModels] = useState<string[] | null>(null);
+  const [comparisonStream, setComparisonStream] = useState<{ models: string[]; contents: string[] } | null>(null);
+  const [choosingIndex, setChoosingIndex] = useState<number | null>(null);
+  // Message opened from search: revealed once loaded, then scrolled to and highlighted
+  const [focusMessageId, setFocusMessageId] = useState<string | null>(null);
+  const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null);
+  const queryClient = useQueryClient();
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  // Cancels the reply currently streaming in
+  const abortRef = useRef<AbortController | null>(null);
 
-  // Handle chat ID from URL query params
+  // Artifacts of the branch being read, plus code blocks opened from the messages that
+  // weren't recognised as artifacts
+  const [openedSnippets, setOpenedSnippets] = useState<Artifact[]>([]);
+  const artifacts = useMemo(() => [...extractArtifacts(messages), ...openedSnippets], [messages, openedSnippets]);
+  const [artifactSelection, setArtifactSelection] = useState<ArtifactSelection | null>(null);
+  // Set while a reply is on its way; the panel opens on its own if it brings an artifact
+  const awaitingReplyRef = useRef(false);
+
+  // Handle chat ID (and a message to jump to) from URL query params
   useEffect(() => {
     const chatFromUrl = searchParams.get('chat');
     if (chatFromUrl && chats.some(c => c.id === chatFromUrl)) {
       setCurrentChatId(chatFromUrl);
+      setFocusMessageId(searchParams.get('message'));
     }
   }, [searchParams, chats]);
 
+  useEffect(() => {
+    if (!focusMessageId || !revealMessage(focusMessageId)) return;
+
+    setHighlightedMessageId(focusMessageId);
+    setFocusMessageId(null);
+    // Drop the message from the URL so opening the same result again jumps again
+    setSearchParams(params => {
+      params.delete('message');
+      return params;
+    }, { replace: true });
+  }, [focusMessageId, revealMessage, setSearchParams]);
+
+  useEffect(() => {
+    if (!highlightedMessageId) return;
+
+    document
+      .querySelector(`[data-message-id="${highlightedMessageId}"]`)
+      ?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    const timeout = setTimeout(() => setHighlightedMessageId(null), 2500);
+    return () => clearTimeout(timeout);
+  }, [highlightedMessageId]);
+
   useEffect(() => {
     if (!authLoading && !user) {
       navigate('/auth');
@@ -42,14 +107,56 @@ export default function Chat() {
   }, [user, authLoading, navigate]);
 
   useEffect(() => {
+    setArtifactSelection(null);
+    setOpenedSnippets([]);
+  }, [currentChatId]);
+
+  useEffect(() => {
+    if (isAiTyping) {
+      awaitingReplyRef.current = true;
+      return;
+    }
+    const last = messages[messages.length - 1];
+    if (!awaitingReplyRef.current || last?.role !== 'assistant') return;
+
+    awaitingReplyRef.current = false;
+    const artifact = artifacts.find(a => a.versions[a.versions.length - 1].messageId === last.id);
+    if (artifact) setArtifactSelection({ id: artifact.id, version: artifact.versions.length - 1 });
+  }, [isAiTyping, messages, artifacts]);
+
+  const handleOpenArtifact = (message: Message, content: string, kind: ArtifactKind) => {
+    for (const artifact of artifacts) {
+      const version = artifact.versions.findIndex(v => v.messageId === message.id && v.content === content);
+      if (version !== -1) {
+        setArtifactSelection({ id: artifact.id, version });
+        return;
+      }
+    }
+
+    const snippet: Artifact = {
+      id: `snippet:${message.id}:${openedSnippets.length}`,
+      kind,
+      title: null,
+      versions: [{ messageId: message.id, content, created_at: message.created_at }],
+    };
+    setOpenedSnippets(prev => [...prev, snippet]);
+    setArtifactSelection({ id: snippet.id, version: 0 });
+  };
+
+  // Don't pull the view to the bottom while jumping to a search result
+  const isJumpingRef = useRef(false);
+  isJumpingRef.current = !!(focusMessageId || highlightedMessageId);
+
+  useEffect(() => {
+    if (isJumpingRef.current) return;
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
-  }, [messages]);
+  }, [messages, streamingContent, pendingMessage, comparisonStream]);
 
   const handleNewChat = async () => {
     if (createChat.isPending) return; // Prevent multiple clicks
     
     try {
-      const newChat = await createChat.mutateAsync('Новый чат');
+      const newChat = await createChat.mutateAsync(t.chat.newChat);
       setCurrentChatId(newChat.id);
     } catch (error: any) {
       console.error('Create chat error:', error);
@@ -61,17 +168,30 @@ export default function Chat() {
     }
   };
 
-  const handleSendMessage = async (content: string, imageUrl?: string) => {
-    if (!content.trim() && !imageUrl) return;
+  const handleSendMessage = async (content: string, files: File[] = []) => {
+    if (!content.trim() && files.length === 0) return;
+
+    if (compareModels && compareModels.length < 2) {
+      toast({
+        title: t.chat.error,
+        description: t.compare.needTwo,
+        variant: 'destructive',
+      });
+      return;
+    }
 
     let chatId = currentChatId;
 
     // Create new chat if needed
     if (!chatId) {
       try {
-        const newChat = await createChat.mutateAsync('Новый чат');
+        const newChat = await createChat.mutateAsync(t.chat.newChat);
         chatId = newChat.id;
         setCurrentChatId(newChat.id);
+        if (newChatKnowledge) {
+          await setChatKnowledge.mutateAsync({ chatId, useKnowledge: true });
+          setNewChatKnowledge(false);
+        }
       } catch (error: any) {
         console.error('Create chat error in send:', error);
         toast({
@@ -83,89 +203,309 @@ export default function Chat() {
       }
     }
 
-    // Add user message
+    // Show the user turn right away, with local previews of its files; the server
+    // stores it together with the reply
+    const previews: MessageAttachment[] = files.map((file, index) => ({
+      id: `pending-${index}`,
+      message_id: null,
+      storage_path: URL.createObjectURL(file),
+      file_name: file.name,
+      mime_type: file.type,
+      kind: file.type.startsWith('image/') ? 'image' : 'document',
+      size_bytes: file.size,
+      created_at: new Date().toISOString(),
+    }));
+    setPendingMessage({ content, attachments: previews });
+
     try {
-      await addMessage.mutateAsync({
-        role: 'user',
-        content,
-        imageUrl,
+      let attachmentIds: string[] = [];
+      if (files.length > 0) {
+        setIsAiTyping(true);
+        try {
+          const uploaded = await Promise.all(files.map(uploadAttachment));
+          attachmentIds = uploaded.map(attachment => attachment.id);
+        } catch (error) {
+          console.error('Attachment upload error:', error);
+          const code = error instanceof Error ? error.message : '';
+          toast({
+            title: t.chat.error,
+            description: code === 'storage_limit_exceeded'
+              ? t.chat.storageFull
+              : code === 'file_too_large'
+                ? t.chat.fileTooLarge
+                : code === 'unsupported_file_type'
+                  ? t.chat.unsupportedFileType
+                  : t.chat.uploadFailed,
+            variant: 'destructive',
+          });
+          setIsAiTyping(false);
+          setPendingMessage(null);
+          return;
+        }
+      }
+
+      const body = {
+        parent_id: messages[messages.length - 1]?.id ?? null,
+        message: { content, attachmentIds },
+      };
+      if (compareModels) {
+        await streamComparison(chatId, body, compareModels);
+      } else {
+        await streamReply(chatId, body);
+      }
+    } finally {
+      previews.forEach(preview => URL.revokeObjectURL(preview.storage_path));
+    }
+  };
+
+  const handleFeedback = async (messageId: string, input: FeedbackInput | null) => {
+    try {
+      if (input) {
+        await submitFeedback.mutateAsync({ messageId, ...input });
+      } else {
+        await removeFeedback.mutateAsync(messageId);
+      }
+    } catch (error) {
+      console.error('Feedback error:', error);
+      toast({
+        title: t.chat.error,
+        description: t.feedback.saveFailed,
+        variant: 'destructive',
       });
+    }
+  };
+
+  // Re-asks the model for the user turn an assistant message answered; the new
+  // reply becomes a sibling of the old one
+  const handleRegenerate = async (message: Message) => {
+    if (!currentChatId || !message.parent_id || isAiTyping) return;
+
+    setReplacingFrom(message.id);
+    await streamReply(currentChatId, { parent_id: message.parent_id });
+  };
+
+  // Sends an edited copy of a user message as its sibling, so the original
+  // branch stays reachable through the version switcher
+  const handleEdit = async (message: Message, content: string) => {
+    if (!currentChatId || isAiTyping) return;
+
+    setReplacingFrom(message.id);
+    setPendingMessage({ content, attachments: message.attachments });
+    await streamReply(currentChatId, {
+      parent_id: message.parent_id,
+      message: { content, attachmentIds: message.attachments.map(attachment => attachment.id) },
+    });
+  };
 
-      // Update chat title if it's the first message
-      if (messages.length === 0) {
-        const title = content.slice(0, 50) + (content.length > 50 ? '...' : '');
-        await updateChatTitle.mutateAsync({ chatId, title });
+  // Turns a failed chat request into a toast
+  const reportChatError = async (error: unknown) => {
+    console.error('Chat error:', error);
+    const { message, status: errorStatus } = (error ?? {}) as { message?: string; status?: number };
+    let status = errorStatus;
+
+    // Parse error response if it's JSON
+    let errorData: { error?: string } | null = null;
+    if (error instanceof FunctionsHttpError) {
+      // The function's own response carries the error code
+      status = error.context.status;
+      errorData = await error.context.json().catch(() => null);
+    } else {
+      try {
+        if (message) {
+          errorData = JSON.parse(message);
+        }
+      } catch {
+        // Not JSON, use message as-is
       }
+    }
 
-      // Call AI
-      setIsAiTyping(true);
-      
+    if (errorData?.error === 'model_not_available') {
+      toast({
+        title: t.compare.modelUnavailable,
+        description: t.compare.modelUnavailableHint,
+        variant: 'destructive',
+      });
+    } else if (errorData?.error === 'messages_limit_exceeded') {
+      toast({
+        title: 'Лимит сообщений исчерпан',
+        description: 'Free: 50 сообщений / 6 часов, Plus: 1000 сообщений / 6 часов. Перейдите на ThetAI Plus!',
+        variant: 'destructive',
+      });
+    } else if (errorData?.error === 'tokens_limit_exceeded') {
+      toast({
+        title: t.chat.tokensLimit,
+        description: t.chat.tokensLimitHint,
+        variant: 'destructive',
+      });
+    } else if (errorData?.error === 'images_prompt_limit_exceeded') {
+      toast({
+        title: 'Лимит изображений исчерпан',
+        description: 'Free: 10 изображений / 6 часов, Plus: 100 изображений / 6 часов. Перейдите на ThetAI Plus!',
+        variant: 'destructive',
+      });
+    } else if (errorData?.error === 'rate_limit_exceeded' || message?.includes('429') || status === 429) {
+      toast({
+        title: 'Лимит исчерпан',
+        description: 'Подождите немного или перейдите на ThetAI Plus.',
+        variant: 'destructive',
+      });
+    } else if (message?.includes('402') || status === 402) {
+      toast({
+        title: 'Требуется оплата',
+        description: 'Пополните баланс для продолжения.',
+        variant: 'destructive',
+      });
+    } else {
+      toast({
+        title: 'Ошибка',
+        description: 'Не удалось получить ответ от AI',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  // Calls the chat function, renders tokens as they arrive and merges the rows the
+  // server stored when the stream ended into the message cache
+  const streamReply = async (chatId: string, body: Record<string, unknown>) => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setIsAiTyping(true);
+
+    try {
       const { data, error } = await supabase.functions.invoke('chat', {
-        body: {
-          messages: [
-            ...messages.map(m => ({ role: m.role, content: m.content })),
-            { role: 'user', content, imageUrl }
-          ]
-        }
+        body: { chat_id: chatId, ...body },
+        signal: controller.signal,
       });
 
       if (error) throw error;
 
-      // Add AI response
-      await addMessage.mutateAsync({
-        role: 'assistant',
-        content: data.response,
+      const { stored } = await readChatStream(data as Response, (delta) => {
+        setStreamingContent(prev => prev + delta);
       });
 
+      if (stored) {
+        queryClient.setQueryData<Message[]>(['messages', chatId], (old = []) => [
+          ...old,
+          ...(stored.user_message ? [stored.user_message] : []),
+          stored.assistant_message,
+        ]);
+        selectBranch(stored.assistant_message);
+      }
+      await queryClient.invalidateQueries({ queryKey: ['messages', chatId] });
+
     } catch (error: any) {
-      console.error('Chat error:', error);
-      
-      // Parse error response if it's JSON
-      let errorData: any = null;
-      try {
-        if (error.message) {
-          errorData = JSON.parse(error.message);
-        }
-      } catch {
-        // Not JSON, use message as-is
+      // Stopped by the user: the server stores the partial reply, realtime brings it in
+      if (controller.signal.aborted) {
+        await queryClient.invalidateQueries({ queryKey: ['messages', chatId] });
+        return;
       }
 
-      if (errorData?.error === 'messages_limit_exceeded') {
-        toast({
-          title: 'Лимит сообщений исчерпан',
-          description: 'Free: 50 сообщений / 6 часов, Plus: 1000 сообщений / 6 часов. Перейдите на ThetAI Plus!',
-          variant: 'destructive',
-        });
-      } else if (errorData?.error === 'images_prompt_limit_exceeded') {
-        toast({
-          title: 'Лимит изображений исчерпан',
-          description: 'Free: 10 изображений / 6 часов, Plus: 100 изображений / 6 часов. Перейдите на ThetAI Plus!',
-          variant: 'destructive',
-        });
-      } else if (errorData?.error === 'rate_limit_exceeded' || error.message?.includes('429') || error.status === 429) {
-        toast({
-          title: 'Лимит исчерпан',
-          description: 'Подождите немного или перейдите на ThetAI Plus.',
-          variant: 'destructive',
-        });
-      } else if (error.message?.includes('402') || error.status === 402) {
-        toast({
-          title: 'Требуется оплата',
-          description: 'Пополните баланс для продолжения.',
-          variant: 'destructive',
-        });
-      } else {
-        toast({
-          title: 'Ошибка',
-          description: 'Не удалось получить ответ от AI',
-          variant: 'destructive',
+      await reportChatError(error);
+    } finally {
+      abortRef.current = null;
+      setIsAiTyping(false);
+      setStreamingContent('');
+      setPendingMessage(null);
+      setReplacingFrom(null);
+    }
+  };
+
+  // Sends a prompt to the compared models and shows their answers side by side; the
+  // stored prompt and comparison wait in the cache for the user to pick an answer
+  const streamComparison = async (chatId: string, body: Record<string, unknown>, models: string[]) => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setIsAiTyping(true);
+    setComparisonStream({ models, contents: models.map(() => '') });
+
+    try {
+      const { data, error } = await supabase.functions.invoke('chat', {
+        body: { chat_id: chatId, ...body, compare_models: models },
+        signal: controller.signal,
+      });
+
+      if (error) throw error;
+
+      const { stored } = await readComparisonStream(data as Response, (index, delta) => {
+        setComparisonStream(prev => prev && {
+          ...prev,
+          contents: prev.contents.map((content, i) => (i === index ? content + delta : content)),
         });
+      });
+
+      if (stored) {
+        queryClient.setQueryData<Message[]>(['messages', chatId], (old = []) => [...old, stored.user_message]);
+        queryClient.setQueryData<ModelComparison[]>(['comparisons', chatId], (old = []) => [...old, stored.comparison]);
+        selectBranch(stored.user_message);
       }
+      await Promise.all([
+        queryClient.invalidateQueries({ queryKey: ['messages', chatId] }),
+        queryClient.invalidateQueries({ queryKey: ['comparisons', chatId] }),
+      ]);
+
+    } catch (error) {
+      // Stopped by the user: the server still stores the partial answers
+      if (controller.signal.aborted) {
+        await Promise.all([
+          queryClient.invalidateQueries({ queryKey: ['messages', chatId] }),
+          queryClient.invalidateQueries({ queryKey: ['comparisons', chatId] }),
+        ]);
+        return;
+      }
+      await reportChatError(error);
     } finally {
+      abortRef.current = null;
       setIsAiTyping(false);
+      setComparisonStream(null);
+      setPendingMessage(null);
+    }
+  };
+
+  const handleChooseAnswer = async (comparison: ModelComparison, index: number) => {
+    setChoosingIndex(index);
+    try {
+      const message = await chooseAnswer.mutateAsync({ comparisonId: comparison.id, index });
+      selectBranch(message);
+    } catch (error) {
+      console.error('Choose answer error:', error);
+      toast({
+        title: t.chat.error,
+        description: t.compare.chooseFailed,
+        variant: 'destructive',
+      });
+    } finally {
+      setChoosingIndex(null);
+    }
+  };
+
+  const currentChat = chats.find(c => c.id === currentChatId);
+  const knowledgeEnabled = currentChat ? currentChat.use_knowledge : newChatKnowledge;
+
+  const handleToggleKnowledge = () => {
+    if (currentChatId) {
+      setChatKnowledge.mutate({ chatId: currentChatId, useKnowledge: !knowledgeEnabled });
+    } else {
+      setNewChatKnowledge(enabled => !enabled);
+    }
+  };
+
+  // Closing the connection alone doesn't stop the server, so the stop is requested first
+  const handleStop = () => {
+    if (currentChatId) {
+      stopReply.mutateAsync(currentChatId).catch(error => console.error('Stop reply error:', error));
     }
+    abortRef.current?.abort();
   };
 
+  const replacedIndex = replacingFrom ? messages.findIndex(m => m.id === replacingFrom) : -1;
+  const visibleMessages = replacedIndex >= 0 ? messages.slice(0, replacedIndex) : messages;
+
+  // A compared prompt at the end of the branch blocks the chat until an answer is picked
+  const lastMessage = messages[messages.length - 1];
+  const openComparison = lastMessage?.role === 'user'
+    ? openComparisons.find(c => c.user_message_id === lastMessage.id)
+    : undefined;
+
   const handleSuggestionClick = (text: string) => {
     handleSendMessage(text);
   };
@@ -186,22 +526,136 @@ export default function Chat() {
       
       <Sidebar
         currentChatId={currentChatId}
+        currentBranchIds={messages.map(m => m.id)}
         onSelectChat={setCurrentChatId}
         onNewChat={handleNewChat}
         onOpenSettings={() => setIsSettingsOpen(true)}
       />
 
       {/* Main chat area */}
-      <main className="flex-1 flex flex-col relative z-10">
+      <main className="flex-1 min-w-0 flex flex-col relative z-10">
+        {currentChat && (
+          <ChatHeader chat={currentChat}>
+            {artifacts.length > 0 && !artifactSelection && (
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => {
+                  const latest = artifacts[artifacts.length - 1];
+                  setArtifactSelection({ id: latest.id, version: latest.versions.length - 1 });
+                }}
+                className="h-8 shrink-0 bg-background/80"
+              >
+                <PanelRight className="w-4 h-4 mr-1" />
+                {t.artifacts.title} ({artifacts.length})
+              </Button>
+            )}
+          </ChatHeader>
+        )}
+
         {/* Messages */}
         <div className="flex-1 overflow-y-auto scrollbar-thin p-4 md:p-6">
-          {currentChatId && messages.length > 0 ? (
+          {currentChatId && (messages.length > 0 || pendingMessage) ? (
             <div className="max-w-4xl mx-auto space-y-6">
-              {messages.map((message) => (
-                <ChatMessage key={message.id} message={message} />
-              ))}
+              {visibleMessages.map((message) => {
+                const branch = branches[message.id];
+                const showSibling = (offset: number) => selectBranch({
+                  id: branch.siblingIds[branch.index + offset],
+                  parent_id: message.parent_id,
+                });
+
+                return (
+                  <ChatMessage
+                    key={message.id}
+                    message={message}
+                    onTogglePin={() => togglePin.mutate({ messageId: message.id, pinned: !message.pinned })}
+                    branch={branch && { index: branch.index, total: branch.siblingIds.length }}
+                    onPrevBranch={() => showSibling(-1)}
+                    onNextBranch={() => showSibling(1)}
+                    onRegenerate={
+                      message.role === 'assistant' && !isAiTyping
+                        ? () => handleRegenerate(message)
+                        : undefined
+                    }
+                    onEdit={
+                      message.role === 'user' && !isAiTyping
+                        ? (content) => handleEdit(message, content)
+                        : undefined
+                    }
+                    highlighted={message.id === highlightedMessageId}
+                    feedback={feedbackByMessage.get(message.id)}
+                    onFeedback={
+                      message.role === 'assistant'
+                        ? (input) => handleFeedback(message.id, input)
+                        : undefined
+                    }
+                    onOpenArtifact={(content, kind) => handleOpenArtifact(message, content, kind)}
+                  />
+                );
+              })}
               
-              {isAiTyping && (
+              {pendingMessage && (
+                <ChatMessage
+                  message={{
+                    id: 'pending',
+                    chat_id: currentChatId,
+                    role: 'user',
+                    content: pendingMessage.content,
+                    parent_id: null,
+                    attachments: pendingMessage.attachments,
+                    pinned: false,
+                    truncated: false,
+                    sources: null,
+                    model: null,
+                    prompt_tokens: null,
+                    completion_tokens: null,
+                    created_at: new Date().toISOString(),
+                  }}
+                />
+              )}
+
+              {isAiTyping && streamingContent && (
+                <ChatMessage
+                  message={{
+                    id: 'streaming',
+                    chat_id: currentChatId,
+                    role: 'assistant',
+                    content: streamingContent,
+                    parent_id: null,
+                    attachments: [],
+                    pinned: false,
+                    truncated: false,
+                    sources: null,
+                    model: null,
+                    prompt_tokens: null,
+                    completion_tokens: null,
+                    created_at: new Date().toISOString(),
+                  }}
+                  isStreaming
+                />
+              )}
+
+              {comparisonStream && (
+                <ComparisonView
+                  answers={comparisonStream.models.map((model, i) => ({
+                    model,
+                    content: comparisonStream.contents[i],
+                    truncated: false,
+                    failed: false,
+                  }))}
+                  isStreaming
+                />
+              )}
+
+              {openComparison && !isAiTyping && !replacingFrom && (
+                <ComparisonView
+                  answers={openComparison.answers}
+                  onChoose={(index) => handleChooseAnswer(openComparison, index)}
+                  choosingIndex={choosingIndex}
+                />
+              )}
+
+              {isAiTyping && !streamingContent && !comparisonStream && (
                 <div className="flex items-center gap-3 animate-fade-in">
                   <div className="w-10 h-10 rounded-xl bg-gradient-to-br from-primary to-secondary flex items-center justify-center glow-primary">
                     <span className="text-lg font-bold text-primary-foreground">θ</span>
@@ -225,13 +679,33 @@ export default function Chat() {
 
         {/* Input */}
         <div className="max-w-4xl mx-auto w-full">
+          {!isAiTyping && <MemoryProposals messageIds={messages.map(m => m.id)} />}
+          {compareModels && !openComparison && (
+            <ComparePicker selected={compareModels} onChange={setCompareModels} />
+          )}
           <ChatInput
             onSend={handleSendMessage}
+            onStop={handleStop}
+            knowledgeEnabled={knowledgeEnabled}
+            onToggleKnowledge={handleToggleKnowledge}
+            compareEnabled={!!compareModels}
+            onToggleCompare={() => setCompareModels(models => (models ? null : []))}
             isLoading={isAiTyping}
+            disabled={!!openComparison}
           />
         </div>
       </main>
 
+      {currentChatId && artifactSelection && (
+        <ArtifactPanel
+          chatId={currentChatId}
+          artifacts={artifacts}
+          selection={artifactSelection}
+          onSelect={setArtifactSelection}
+          onClose={() => setArtifactSelection(null)}
+        />
+      )}
+
       <SettingsModal
         isOpen={isSettingsOpen}
         onClose={() => setIsSettingsOpen(false)}
@@ -0,0 +1,181 @@
+import { useState, useEffect } from "react";
+import { useNavigate } from "react-router-dom";
+import { useAuth } from "@/hooks/useAuth";
+import { useIsAdmin } from "@/hooks/useAdmin";
+import { useLanguage } from "@/hooks/useLanguage";
+import { useModels } from "@/hooks/useModels";
+import { useFeedbackSummary, FeedbackPeriod, FeedbackSummaryRow } from "@/hooks/useFeedbackSummary";
+import type { FeedbackReason } from "@/hooks/useFeedback";
+import { Sidebar } from "@/components/Sidebar";
+import { FloatingShapes } from "@/components/FloatingShapes";
+import { SettingsModal } from "@/components/SettingsModal";
+import { Button } from "@/components/ui/button";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { BarChart3, MessageSquareText, ThumbsDown, ThumbsUp } from "lucide-react";
+
+const PERIODS: FeedbackPeriod[] = ["7d", "30d", "all"];
+
+function satisfaction(row: FeedbackSummaryRow): number {
+  const total = row.positive + row.negative;
+  return total > 0 ? Math.round((row.positive / total) * 100) : 0;
+}
+
+export default function FeedbackDashboard() {
+  const { user, loading: authLoading } = useAuth();
+  const { isAdmin, isLoading: roleLoading } = useIsAdmin();
+  const navigate = useNavigate();
+  const { t } = useLanguage();
+  const { models } = useModels();
+  const [settingsOpen, setSettingsOpen] = useState(false);
+  const [period, setPeriod] = useState<FeedbackPeriod>("30d");
+  const { summary, summaryLoading, comments } = useFeedbackSummary(period, isAdmin);
+
+  useEffect(() => {
+    if (!authLoading && !user) {
+      navigate("/auth");
+    } else if (!authLoading && !roleLoading && !isAdmin) {
+      navigate("/");
+    }
+  }, [user, authLoading, isAdmin, roleLoading, navigate]);
+
+  const modelName = (id: string | null) =>
+    id === null ? t.feedback.unknownModel : models.find(m => m.id === id)?.display_name ?? id;
+
+  const topReasons = (reasons: FeedbackSummaryRow["reasons"]) =>
+    (Object.entries(reasons) as [FeedbackReason, number][])
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, 3)
+      .map(([reason, count]) => `${t.feedback.reasons[reason]} (${count})`)
+      .join(", ");
+
+  if (authLoading || roleLoading || !user || !isAdmin) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background flex overflow-hidden">
+      <FloatingShapes />
+      <Sidebar
+        currentChatId={null}
+        onSelectChat={(chatId) => navigate(`/?chat=${chatId}`)}
+        onNewChat={() => navigate('/')}
+        onOpenSettings={() => setSettingsOpen(true)}
+      />
+
+      <main className="flex-1 flex flex-col overflow-hidden">
+        <header className="border-b border-border/50 p-4 bg-background/80 backdrop-blur-sm">
+          <div className="flex items-center justify-between gap-3">
+            <div className="flex items-center gap-3">
+              <div className="w-10 h-10 rounded-xl bg-gradient-to-br from-primary to-secondary flex items-center justify-center">
+                <BarChart3 className="w-5 h-5 text-primary-foreground" />
+              </div>
+              <div>
+                <h1 className="text-xl font-semibold text-foreground">{t.feedback.dashboardTitle}</h1>
+                <p className="text-sm text-muted-foreground">{t.feedback.dashboardDescription}</p>
+              </div>
+            </div>
+            <div className="flex gap-1">
+              {PERIODS.map(option => (
+                <Button
+                  key={option}
+                  onClick={() => setPeriod(option)}
+                  variant={period === option ? "secondary" : "ghost"}
+                  size="sm"
+                >
+                  {t.feedback.periods[option]}
+                </Button>
+              ))}
+            </div>
+          </div>
+        </header>
+
+        <div className="flex-1 overflow-y-auto p-4">
+          <div className="max-w-5xl mx-auto space-y-6">
+            <section className="glass-card rounded-xl p-4">
+              {summaryLoading ? (
+                <div className="flex items-center justify-center h-32">
+                  <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+                </div>
+              ) : summary.length === 0 ? (
+                <p className="text-sm text-muted-foreground text-center py-8">{t.feedback.noFeedback}</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>{t.feedback.model}</TableHead>
+                      <TableHead>{t.feedback.personaVersion}</TableHead>
+                      <TableHead className="text-right">{t.feedback.ratings}</TableHead>
+                      <TableHead className="w-48">{t.feedback.satisfaction}</TableHead>
+                      <TableHead>{t.feedback.topReasons}</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {summary.map(row => (
+                      <TableRow key={`${row.model}:${row.persona_version}`}>
+                        <TableCell className="font-medium">{modelName(row.model)}</TableCell>
+                        <TableCell>{row.persona_version !== null ? `v${row.persona_version}` : '—'}</TableCell>
+                        <TableCell className="text-right whitespace-nowrap">
+                          <span className="inline-flex items-center gap-1 text-emerald-500">
+                            <ThumbsUp className="w-3 h-3" />{row.positive}
+                          </span>
+                          <span className="inline-flex items-center gap-1 text-destructive ml-3">
+                            <ThumbsDown className="w-3 h-3" />{row.negative}
+                          </span>
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex items-center gap-2">
+                            <div className="flex-1 h-2 rounded-full bg-muted overflow-hidden">
+                              <div className="h-full bg-emerald-500" style={{ width: `${satisfaction(row)}%` }} />
+                            </div>
+                            <span className="text-sm w-10 text-right">{satisfaction(row)}%</span>
+                          </div>
+                        </TableCell>
+                        <TableCell className="text-xs text-muted-foreground">{topReasons(row.reasons) || '—'}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </section>
+
+            <section className="space-y-2">
+              <h2 className="flex items-center gap-2 text-sm font-medium text-foreground">
+                <MessageSquareText className="w-4 h-4" />
+                {t.feedback.recentComments}
+              </h2>
+              {comments.length === 0 ? (
+                <p className="text-sm text-muted-foreground">{t.feedback.noComments}</p>
+              ) : comments.map(comment => (
+                <div key={comment.id} className="glass-card p-3 rounded-xl space-y-1">
+                  <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                    {comment.rating === 'up'
+                      ? <ThumbsUp className="w-3 h-3 text-emerald-500" />
+                      : <ThumbsDown className="w-3 h-3 text-destructive" />}
+                    <span>{modelName(comment.model)}</span>
+                    {comment.persona_version !== null && <span>v{comment.persona_version}</span>}
+                    {comment.reason && <span>· {t.feedback.reasons[comment.reason]}</span>}
+                    <span className="ml-auto">{new Date(comment.created_at).toLocaleString()}</span>
+                  </div>
+                  <p className="text-sm whitespace-pre-wrap">{comment.comment}</p>
+                </div>
+              ))}
+            </section>
+          </div>
+        </div>
+      </main>
+
+      <SettingsModal isOpen={settingsOpen} onClose={() => setSettingsOpen(false)} />
+    </div>
+  );
+}
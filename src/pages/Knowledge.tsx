@@ -0,0 +1,158 @@
+import { useState, useEffect, useRef } from "react";
+import { useNavigate } from "react-router-dom";
+import { useAuth } from "@/hooks/useAuth";
+import { useLanguage } from "@/hooks/useLanguage";
+import { useKnowledge, KnowledgeDocument } from "@/hooks/useKnowledge";
+import { useToast } from "@/hooks/use-toast";
+import { Sidebar } from "@/components/Sidebar";
+import { FloatingShapes } from "@/components/FloatingShapes";
+import { SettingsModal } from "@/components/SettingsModal";
+import { Button } from "@/components/ui/button";
+import { ACCEPTED_DOCUMENTS, formatFileSize } from "@/lib/attachments";
+import { BookOpen, FileText, Loader2, Trash2, Upload, AlertCircle } from "lucide-react";
+
+export default function Knowledge() {
+  const { user, loading: authLoading } = useAuth();
+  const navigate = useNavigate();
+  const { t } = useLanguage();
+  const { toast } = useToast();
+  const { documents, documentsLoading, uploadDocument, deleteDocument } = useKnowledge();
+  const [settingsOpen, setSettingsOpen] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (!authLoading && !user) {
+      navigate("/auth");
+    }
+  }, [user, authLoading, navigate]);
+
+  const handleFilesSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    e.target.value = "";
+
+    for (const file of files) {
+      try {
+        await uploadDocument.mutateAsync(file);
+      } catch (error) {
+        console.error("Knowledge upload error:", error);
+        const code = error instanceof Error ? error.message : "";
+        toast({
+          title: file.name,
+          description: code === "unsupported_file_type"
+            ? t.knowledge.unsupported
+            : code === "storage_limit_exceeded"
+              ? t.knowledge.storageFull
+              : t.knowledge.uploadFailed,
+          variant: "destructive",
+        });
+      }
+    }
+  };
+
+  const handleDelete = async (document: KnowledgeDocument) => {
+    try {
+      await deleteDocument.mutateAsync(document);
+      toast({ title: t.knowledge.deleted });
+    } catch (error) {
+      console.error("Error deleting knowledge document:", error);
+    }
+  };
+
+  if (authLoading || !user) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background flex overflow-hidden">
+      <FloatingShapes />
+      <Sidebar
+        currentChatId={null}
+        onSelectChat={(chatId) => navigate(`/?chat=${chatId}`)}
+        onNewChat={() => navigate('/')}
+        onOpenSettings={() => setSettingsOpen(true)}
+      />
+
+      <main className="flex-1 flex flex-col overflow-hidden">
+        <header className="border-b border-border/50 p-4 bg-background/80 backdrop-blur-sm">
+          <div className="flex items-center justify-between gap-3">
+            <div className="flex items-center gap-3">
+              <div className="w-10 h-10 rounded-xl bg-gradient-to-br from-emerald-500 to-teal-500 flex items-center justify-center">
+                <BookOpen className="w-5 h-5 text-white" />
+              </div>
+              <div>
+                <h1 className="text-xl font-semibold text-foreground">{t.knowledge.title}</h1>
+                <p className="text-sm text-muted-foreground">{t.knowledge.description}</p>
+              </div>
+            </div>
+            <Button onClick={() => fileInputRef.current?.click()} disabled={uploadDocument.isPending} className="gap-2">
+              {uploadDocument.isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : <Upload className="w-4 h-4" />}
+              {t.knowledge.upload}
+            </Button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept={ACCEPTED_DOCUMENTS}
+              multiple
+              onChange={handleFilesSelect}
+              className="hidden"
+            />
+          </div>
+        </header>
+
+        <div className="flex-1 overflow-y-auto p-4">
+          {documentsLoading ? (
+            <div className="flex items-center justify-center h-64">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+            </div>
+          ) : documents.length === 0 ? (
+            <div className="flex flex-col items-center justify-center h-64 text-center">
+              <div className="w-16 h-16 rounded-2xl bg-muted/50 flex items-center justify-center mb-4">
+                <FileText className="w-8 h-8 text-muted-foreground" />
+              </div>
+              <h2 className="text-lg font-medium text-foreground mb-2">{t.knowledge.empty}</h2>
+              <p className="text-sm text-muted-foreground max-w-md">{t.knowledge.emptySubtitle}</p>
+            </div>
+          ) : (
+            <div className="max-w-3xl mx-auto space-y-2">
+              {documents.map((document) => (
+                <div key={document.id} className="glass-card p-4 rounded-xl flex items-center gap-3">
+                  <FileText className="w-5 h-5 shrink-0 text-primary" />
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-medium truncate">{document.title}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {formatFileSize(document.size_bytes)}
+                      {' · '}
+                      {document.status === 'ready' && `${document.chunk_count} ${t.knowledge.chunks}`}
+                      {document.status === 'processing' && t.knowledge.processing}
+                      {document.status === 'failed' && (
+                        <span className="text-destructive" title={document.error ?? undefined}>
+                          <AlertCircle className="inline w-3 h-3 mr-1" />
+                          {t.knowledge.failed}
+                        </span>
+                      )}
+                    </p>
+                  </div>
+                  {document.status === 'processing' && <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />}
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    onClick={() => handleDelete(document)}
+                    title={t.knowledge.delete}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </main>
+
+      <SettingsModal isOpen={settingsOpen} onClose={() => setSettingsOpen(false)} />
+    </div>
+  );
+}
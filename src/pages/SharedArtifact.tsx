@@ -0,0 +1,77 @@
+import { useEffect } from "react";
+import { useParams } from "react-router-dom";
+import { useQuery } from "@tanstack/react-query";
+import { Download, Link2Off } from "lucide-react";
+import { ArtifactPreview } from "@/components/ArtifactPreview";
+import { Button } from "@/components/ui/button";
+import { useLanguage } from "@/hooks/useLanguage";
+import { ARTIFACT_MIME_TYPES, artifactFileName } from "@/lib/artifacts";
+import { downloadFile } from "@/lib/chatExport";
+import { fetchSharedArtifact } from "@/lib/sharedArtifact";
+
+// Public view of a shared artifact; works without signing in
+export default function SharedArtifact() {
+  const { slug = "" } = useParams<{ slug: string }>();
+  const { t } = useLanguage();
+
+  const { data: artifact, isLoading, isError } = useQuery({
+    queryKey: ["shared-artifact", slug],
+    queryFn: () => fetchSharedArtifact(slug),
+    retry: false,
+    refetchOnWindowFocus: false,
+  });
+
+  const title = artifact ? artifact.title || t.artifacts[artifact.kind] : "ThetAI";
+
+  useEffect(() => {
+    if (artifact) document.title = `${title} · ThetAI`;
+  }, [artifact, title]);
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="h-screen bg-background flex flex-col">
+      <header className="border-b border-border/50 p-4 bg-background/80 backdrop-blur-sm">
+        <div className="flex items-center gap-3">
+          <a href="/" className="w-9 h-9 rounded-xl bg-gradient-to-br from-primary to-secondary flex items-center justify-center glow-primary shrink-0">
+            <span className="text-lg font-bold text-primary-foreground">θ</span>
+          </a>
+          <div className="flex-1 min-w-0">
+            <h1 className="font-semibold truncate">{title}</h1>
+            {artifact && (
+              <p className="text-xs text-muted-foreground">
+                {t.share.sharedOn} {new Date(artifact.created_at).toLocaleDateString()}
+              </p>
+            )}
+          </div>
+          {artifact && (
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => downloadFile(artifactFileName(artifact), artifact.content, ARTIFACT_MIME_TYPES[artifact.kind])}
+            >
+              <Download className="w-4 h-4 mr-2" />
+              {t.artifacts.download}
+            </Button>
+          )}
+        </div>
+      </header>
+
+      {!artifact || isError ? (
+        <div className="max-w-md mx-auto text-center py-24 space-y-3">
+          <Link2Off className="w-12 h-12 mx-auto text-muted-foreground" />
+          <h2 className="text-xl font-semibold">{isError ? t.artifacts.loadFailed : t.share.notFound}</h2>
+          {!isError && <p className="text-muted-foreground">{t.share.notFoundHint}</p>}
+        </div>
+      ) : (
+        <ArtifactPreview kind={artifact.kind} content={artifact.content} className="flex-1 min-h-0" />
+      )}
+    </div>
+  );
+}
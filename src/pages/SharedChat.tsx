@@ -0,0 +1,71 @@
+import { useEffect } from "react";
+import { useParams } from "react-router-dom";
+import { useQuery } from "@tanstack/react-query";
+import { Link2Off } from "lucide-react";
+import { ChatMessage } from "@/components/ChatMessage";
+import { FloatingShapes } from "@/components/FloatingShapes";
+import { useLanguage } from "@/hooks/useLanguage";
+import { fetchSharedChat } from "@/lib/sharedChat";
+
+// Public, read-only view of a share link; works without signing in
+export default function SharedChat() {
+  const { slug = "" } = useParams<{ slug: string }>();
+  const { t } = useLanguage();
+
+  const { data: chat, isLoading, isError } = useQuery({
+    queryKey: ["shared-chat", slug],
+    queryFn: () => fetchSharedChat(slug),
+    retry: false,
+    refetchOnWindowFocus: false,
+  });
+
+  useEffect(() => {
+    if (chat) document.title = `${chat.title} · ThetAI`;
+  }, [chat]);
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background relative">
+      <FloatingShapes />
+
+      <header className="border-b border-border/50 p-4 bg-background/80 backdrop-blur-sm sticky top-0 z-20">
+        <div className="max-w-4xl mx-auto flex items-center gap-3">
+          <a href="/" className="w-9 h-9 rounded-xl bg-gradient-to-br from-primary to-secondary flex items-center justify-center glow-primary shrink-0">
+            <span className="text-lg font-bold text-primary-foreground">θ</span>
+          </a>
+          <div className="min-w-0">
+            <h1 className="font-semibold truncate">{chat?.title ?? "ThetAI"}</h1>
+            {chat && (
+              <p className="text-xs text-muted-foreground">
+                {t.share.sharedOn} {new Date(chat.created_at).toLocaleDateString()}
+              </p>
+            )}
+          </div>
+        </div>
+      </header>
+
+      <main className="relative z-10 p-4 md:p-6">
+        {!chat || isError ? (
+          <div className="max-w-md mx-auto text-center py-24 space-y-3">
+            <Link2Off className="w-12 h-12 mx-auto text-muted-foreground" />
+            <h2 className="text-xl font-semibold">{isError ? t.share.loadFailed : t.share.notFound}</h2>
+            {!isError && <p className="text-muted-foreground">{t.share.notFoundHint}</p>}
+          </div>
+        ) : (
+          <div className="max-w-4xl mx-auto space-y-6">
+            {chat.messages.map(message => (
+              <ChatMessage key={message.id} message={message} />
+            ))}
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -4,9 +4,11 @@ import { Sidebar } from '@/components/Sidebar';
 import { FloatingShapes } from '@/components/FloatingShapes';
 import { SettingsModal } from '@/components/SettingsModal';
 import { useAuth } from '@/hooks/useAuth';
+import { useChats } from '@/hooks/useChats';
 import { useLanguage } from '@/hooks/useLanguage';
 import { useToast } from '@/hooks/use-toast';
 import { supabase } from '@/integrations/supabase/client';
+import { readChatStream } from '@/lib/chatStream';
 import { Button } from '@/components/ui/button';
 import { Loader2, Mic, MicOff, Volume2, VolumeX, MessageSquare } from 'lucide-react';
 import { cn } from '@/lib/utils';
@@ -64,6 +66,7 @@ export default function VoiceChat() {
   const navigate = useNavigate();
   const { t } = useLanguage();
   const { toast } = useToast();
+  const { createChat } = useChats();
   
   const [isListening, setIsListening] = useState(false);
   const [isSpeaking, setIsSpeaking] = useState(false);
@@ -75,6 +78,10 @@ export default function VoiceChat() {
   
   const recognitionRef = useRef<SpeechRecognitionInterface | null>(null);
   const synthRef = useRef<SpeechSynthesisUtterance | null>(null);
+  // Voice conversations are stored as a regular chat, created on the first utterance
+  const chatIdRef = useRef<string | null>(null);
+  // Last stored reply; the next turn continues from it
+  const parentIdRef = useRef<string | null>(null);
 
   useEffect(() => {
     // Check browser support
@@ -138,52 +145,32 @@ export default function VoiceChat() {
     setIsProcessing(true);
     
     try {
-      const { data: { session } } = await supabase.auth.getSession();
-      
+      if (!chatIdRef.current) {
+        const title = text.slice(0, 50) + (text.length > 50 ? '...' : '');
+        const chat = await createChat.mutateAsync(title);
+        chatIdRef.current = chat.id;
+      }
+
       const response = await supabase.functions.invoke('chat', {
         body: {
-          messages: [...messages, userMessage].map(m => ({
-            role: m.role,
-            content: m.content
-          }))
+          chat_id: chatIdRef.current,
+          parent_id: parentIdRef.current,
+          message: { content: text },
         }
       });
 
       if (response.error) throw response.error;
 
       // Handle streaming response
-      const reader = response.data?.getReader?.();
-      if (reader) {
-        let assistantContent = '';
-        const decoder = new TextDecoder();
-        
-        while (true) {
-          const { done, value } = await reader.read();
-          if (done) break;
-          
-          const chunk = decoder.decode(value, { stream: true });
-          const lines = chunk.split('\n');
-          
-          for (const line of lines) {
-            if (line.startsWith('data: ') && line !== 'data: [DONE]') {
-              try {
-                const json = JSON.parse(line.slice(6));
-                const content = json.choices?.[0]?.delta?.content;
-                if (content) {
-                  assistantContent += content;
-                }
-              } catch {}
-            }
-          }
-        }
-        
-        if (assistantContent) {
-          const assistantMessage: Message = { role: 'assistant', content: assistantContent };
-          setMessages(prev => [...prev, assistantMessage]);
-          
-          if (!isMuted) {
-            speakText(assistantContent);
-          }
+      const { content: assistantContent, stored } = await readChatStream(response.data as Response);
+      if (stored) parentIdRef.current = stored.assistant_message.id;
+
+      if (assistantContent) {
+        const assistantMessage: Message = { role: 'assistant', content: assistantContent };
+        setMessages(prev => [...prev, assistantMessage]);
+
+        if (!isMuted) {
+          speakText(assistantContent);
         }
       }
     } catch (error) {
@@ -0,0 +1,39 @@
+import { lockDownWorker } from './sandbox';
+import type { RunnerMessage, RunnerRequest } from '@/lib/codeRunner';
+
+// One worker per run: the page terminates it when the run ends or times out
+lockDownWorker();
+
+const worker = self as unknown as Worker;
+const post = (message: RunnerMessage) => worker.postMessage(message);
+
+function format(value: unknown): string {
+  if (typeof value === 'string') return value;
+  if (value instanceof Error) return `${value.name}: ${value.message}`;
+  if (typeof value === 'function' || typeof value === 'symbol' || typeof value === 'bigint') return String(value);
+  try {
+    return JSON.stringify(value, null, 2) ?? String(value);
+  } catch {
+    return String(value);
+  }
+}
+
+worker.onmessage = async (event: MessageEvent<RunnerRequest>) => {
+  const { id, code } = event.data;
+  const write = (type: 'stdout' | 'stderr') => (...args: unknown[]) =>
+    post({ id, type, text: args.map(format).join(' ') + '\n' });
+
+  console.log = console.info = console.debug = write('stdout');
+  console.warn = console.error = write('stderr');
+
+  post({ id, type: 'started' });
+  try {
+    // Async so snippets can use top-level await; a returned value is printed
+    const AsyncFunction = Object.getPrototypeOf(async function () {}).constructor;
+    const result = await new AsyncFunction(code)();
+    if (result !== undefined) write('stdout')(result);
+    post({ id, type: 'done' });
+  } catch (error) {
+    post({ id, type: 'done', error: format(error) });
+  }
+};
@@ -0,0 +1,120 @@
+import { loadPyodide, version, type PyodideInterface } from 'pyodide';
+import { lockDownWorker } from './sandbox';
+import { PYTHON_MEMORY_LIMIT_BYTES, type RunnerMessage, type RunnerRequest } from '@/lib/codeRunner';
+
+// The runtime is served by the app (see vite.config.ts); packages that aren't bundled
+// (numpy, matplotlib, ...) come from the Pyodide CDN, checked against the lock file's
+// hashes. Only the runtime's own loading may use the network.
+const INDEX_URL = new URL('/pyodide/', self.location.origin).href;
+const CDN_URL = `https://cdn.jsdelivr.net/pyodide/v${version}/full/`;
+const BUNDLED_FILES = new Set(['pyodide.asm.js', 'pyodide.asm.wasm', 'python_stdlib.zip', 'pyodide-lock.json']);
+
+let loadingRuntime = false;
+
+lockDownWorker((url) => {
+  if (!loadingRuntime) return null;
+  if (url.startsWith(INDEX_URL)) {
+    const file = url.slice(INDEX_URL.length);
+    return BUNDLED_FILES.has(file) ? url : CDN_URL + file;
+  }
+  return url.startsWith(CDN_URL) ? url : null;
+});
+
+// The Python heap only grows through Memory.grow, so capping it there turns a runaway
+// allocation into a MemoryError
+let memoryExceeded = false;
+const grow = WebAssembly.Memory.prototype.grow;
+WebAssembly.Memory.prototype.grow = function (this: WebAssembly.Memory, delta: number) {
+  if (this.buffer.byteLength + delta * 65536 > PYTHON_MEMORY_LIMIT_BYTES) {
+    memoryExceeded = true;
+    throw new RangeError('Memory limit exceeded');
+  }
+  return grow.call(this, delta);
+};
+
+// Figures left open by the program, as base64 PNGs
+const COLLECT_FIGURES = `
+def _collect_figures():
+    import sys
+    plt = sys.modules.get("matplotlib.pyplot")
+    if plt is None:
+        return []
+    import base64, io
+    images = []
+    for number in plt.get_fignums():
+        buffer = io.BytesIO()
+        plt.figure(number).savefig(buffer, format="png", bbox_inches="tight")
+        images.append(base64.b64encode(buffer.getvalue()).decode())
+    plt.close("all")
+    return images
+
+_collect_figures()
+`;
+
+const worker = self as unknown as Worker;
+const post = (message: RunnerMessage) => worker.postMessage(message);
+
+let pyodide: PyodideInterface | null = null;
+let currentId = '';
+
+async function getPyodide(): Promise<PyodideInterface> {
+  if (pyodide) return pyodide;
+
+  loadingRuntime = true;
+  try {
+    pyodide = await loadPyodide({ indexURL: INDEX_URL, env: { MPLBACKEND: 'AGG' } });
+  } finally {
+    loadingRuntime = false;
+  }
+  pyodide.setStdout({ batched: (text) => post({ id: currentId, type: 'stdout', text: text + '\n' }) });
+  pyodide.setStderr({ batched: (text) => post({ id: currentId, type: 'stderr', text: text + '\n' }) });
+  // input() has no one to ask
+  pyodide.setStdin({ error: true });
+  return pyodide;
+}
+
+async function run({ id, code }: RunnerRequest) {
+  currentId = id;
+  memoryExceeded = false;
+
+  try {
+    const py = await getPyodide();
+
+    loadingRuntime = true;
+    try {
+      await py.loadPackagesFromImports(code, { messageCallback: () => {} });
+    } finally {
+      loadingRuntime = false;
+    }
+
+    post({ id, type: 'started' });
+    // Each run gets fresh globals
+    const globals = py.toPy({});
+    try {
+      await py.runPythonAsync(code, { globals });
+    } finally {
+      globals.destroy();
+    }
+
+    const figures = py.runPython(COLLECT_FIGURES, { globals: py.toPy({}) });
+    for (const png of figures.toJs() as string[]) {
+      post({ id, type: 'image', src: `data:image/png;base64,${png}` });
+    }
+    figures.destroy();
+
+    post({ id, type: 'done' });
+  } catch (error) {
+    post({
+      id,
+      type: 'done',
+      error: error instanceof Error ? error.message : String(error),
+      memoryExceeded,
+    });
+  }
+}
+
+// Programs run one after another
+let queue = Promise.resolve();
+worker.onmessage = (event: MessageEvent<RunnerRequest>) => {
+  queue = queue.then(() => run(event.data));
+};
@@ -0,0 +1,51 @@
+// Strips a runner worker of the APIs user code could use to reach the network,
+// browser storage or new (unrestricted) workers. Call before running any user code.
+// `resolveFetch` lets the runtime keep loading its own files: it returns the URL to
+// fetch instead, or null to refuse. Dynamic import() can't be taken away, but the
+// worker holds nothing worth sending: the session stays in the page's localStorage.
+export function lockDownWorker(resolveFetch: (url: string) => string | null = () => null) {
+  const realFetch = globalThis.fetch.bind(globalThis);
+
+  const guardedFetch = (input: RequestInfo | URL, init?: RequestInit) => {
+    const url = new URL(input instanceof Request ? input.url : String(input), self.location.href).href;
+    const resolved = resolveFetch(url);
+    if (!resolved) {
+      return Promise.reject(new TypeError('Network access is not available in the sandbox'));
+    }
+    return realFetch(resolved, init);
+  };
+
+  // Replace the global and every prototype's copy, so the original can't be
+  // recovered through Object.getPrototypeOf(self)
+  const replace = (name: string, value: unknown) => {
+    const targets: object[] = [];
+    for (let target: object | null = globalThis; target && target !== Object.prototype; target = Object.getPrototypeOf(target)) {
+      if (Object.prototype.hasOwnProperty.call(target, name)) targets.push(target);
+    }
+    if (targets.length === 0) return;
+    for (const target of [globalThis, ...targets]) {
+      try {
+        Object.defineProperty(target, name, { value, writable: false, configurable: false });
+      } catch {
+        // Already locked
+      }
+    }
+  };
+
+  // A TypeError, as module workers throw from importScripts; Pyodide then falls back
+  // to import() for its own script
+  const blocked = (name: string) => () => {
+    throw new TypeError(`${name} is not available in the sandbox`);
+  };
+
+  replace('fetch', guardedFetch);
+  for (const name of [
+    'XMLHttpRequest', 'WebSocket', 'WebTransport', 'EventSource', 'BroadcastChannel',
+    'Worker', 'SharedWorker', 'importScripts',
+  ]) {
+    replace(name, blocked(name));
+  }
+  for (const name of ['indexedDB', 'caches', 'cookieStore']) {
+    replace(name, undefined);
+  }
+}
@@ -0,0 +1,5 @@
+// Tells the model how to mark previewable output so the app can show it in the
+// artifacts panel and group revisions into versions (see src/lib/artifacts.ts)
+export const ARTIFACT_INSTRUCTIONS = `When you write a complete HTML page, an SVG image, a Mermaid diagram or a single-file React component that the user will want to view, put it in one fenced code block tagged with an id and a title, for example:
+\`\`\`html artifact="pricing-page" title="Pricing page"
+When you revise it later, write the whole new version in a block with the same id. Use the languages html, svg, mermaid or jsx. A React component must be one file whose default export is the component; it may import react and npm packages and style itself with Tailwind classes. Don't tag short snippets that only illustrate an explanation.`;
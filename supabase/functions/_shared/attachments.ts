@@ -0,0 +1,178 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { extractText, getDocumentProxy } from "https://esm.sh/unpdf@0.12.1";
+import { estimateTokens } from "./context.ts";
+
+// Private bucket for files attached to chat messages. Objects live under
+// `<user id>/`; message_attachments.storage_path holds the object path, never a URL.
+export const ATTACHMENTS_BUCKET = 'chat-attachments';
+
+export const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024;
+export const MAX_ATTACHMENTS_PER_MESSAGE = 10;
+
+// Signed URLs handed to the model only need to outlive a single completion
+const MODEL_URL_TTL_SECONDS = 10 * 60;
+
+// Extracted text kept per document, and how much of it goes into one request
+const MAX_EXTRACTED_CHARS = 200_000;
+const MAX_DOCUMENT_CONTEXT_CHARS = 20_000;
+
+export type AttachmentKind = 'image' | 'document';
+
+// A message_attachments row as the chat function reads it
+export interface MessageAttachment {
+  id: string;
+  kind: AttachmentKind;
+  storage_path: string;
+  file_name: string;
+  extracted_text: string | null;
+}
+
+const IMAGE_EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+};
+
+// Plain-text and source files; browsers report many of these with an empty or
+// generic content type, so the extension decides
+const TEXT_EXTENSIONS = new Set([
+  'txt', 'md', 'csv', 'tsv', 'log', 'json', 'xml', 'yaml', 'yml', 'toml', 'ini',
+  'html', 'css', 'scss', 'js', 'jsx', 'ts', 'tsx', 'py', 'rb', 'php', 'java', 'kt',
+  'swift', 'go', 'rs', 'c', 'h', 'cpp', 'hpp', 'cs', 'sh', 'sql',
+]);
+
+function fileExtension(fileName: string): string {
+  const dot = fileName.lastIndexOf('.');
+  return dot >= 0 ? fileName.slice(dot + 1).toLowerCase() : '';
+}
+
+// Decides whether a file can be attached and how it is stored. Returns null for
+// unsupported files.
+export function classifyAttachment(
+  fileName: string,
+  mimeType: string
+): { kind: AttachmentKind; extension: string } | null {
+  if (mimeType in IMAGE_EXTENSIONS) {
+    return { kind: 'image', extension: IMAGE_EXTENSIONS[mimeType] };
+  }
+
+  const extension = fileExtension(fileName);
+  if (mimeType === 'application/pdf' || extension === 'pdf') {
+    return { kind: 'document', extension: 'pdf' };
+  }
+  if (TEXT_EXTENSIONS.has(extension) || mimeType.startsWith('text/')) {
+    return { kind: 'document', extension: extension || 'txt' };
+  }
+  return null;
+}
+
+export type StoreAttachmentResult =
+  | { path: string; error?: undefined }
+  | { path?: undefined; error: 'storage_limit_exceeded' };
+
+// Uploads a file to the user's folder and counts it against their storage quota.
+// With enforceQuota off the file is stored (and counted) even past the limit.
+export async function storeAttachment(
+  supabase: SupabaseClient,
+  userId: string,
+  bytes: Uint8Array,
+  contentType: string,
+  { extension, enforceQuota = true }: { extension?: string; enforceQuota?: boolean } = {}
+): Promise<StoreAttachmentResult> {
+  if (enforceQuota) {
+    const [{ data: profile, error: profileError }, { data: limit, error: limitError }] = await Promise.all([
+      supabase.from('profiles').select('storage_used_bytes').eq('id', userId).single(),
+      supabase.rpc('get_user_storage_limit', { _user_id: userId }),
+    ]);
+
+    if (profileError) throw profileError;
+    if (limitError) throw limitError;
+
+    if ((profile?.storage_used_bytes ?? 0) + bytes.length > Number(limit)) {
+      return { error: 'storage_limit_exceeded' };
+    }
+  }
+
+  const path = `${userId}/${crypto.randomUUID()}.${extension ?? IMAGE_EXTENSIONS[contentType] ?? 'bin'}`;
+  const { error: uploadError } = await supabase.storage
+    .from(ATTACHMENTS_BUCKET)
+    .upload(path, bytes, { contentType, upsert: false });
+
+  if (uploadError) throw uploadError;
+
+  const { error: usageError } = await supabase
+    .rpc('increment_storage_usage', { _user_id: userId, _bytes: bytes.length });
+  if (usageError) console.error('Failed to count attachment storage:', usageError);
+
+  return { path };
+}
+
+// Short-lived URL the model provider can fetch the attachment from
+export async function signAttachmentForModel(supabase: SupabaseClient, path: string): Promise<string> {
+  // Rows not yet moved by migrate-attachments still hold the image inline
+  if (path.startsWith('data:')) return path;
+
+  const { data, error } = await supabase.storage
+    .from(ATTACHMENTS_BUCKET)
+    .createSignedUrl(path, MODEL_URL_TTL_SECONDS);
+
+  if (error) throw error;
+  return data.signedUrl;
+}
+
+export function decodeDataUrl(dataUrl: string): { bytes: Uint8Array; contentType: string } | null {
+  const match = dataUrl.match(/^data:([\w/+.-]+);base64,(.*)$/s);
+  if (!match) return null;
+
+  const binaryString = atob(match[2]);
+  const bytes = new Uint8Array(binaryString.length);
+  for (let i = 0; i < binaryString.length; i++) {
+    bytes[i] = binaryString.charCodeAt(i);
+  }
+  return { bytes, contentType: match[1] };
+}
+
+// Text the model sees for a document attachment; null when nothing could be read
+export async function extractDocumentText(bytes: Uint8Array, extension: string): Promise<string | null> {
+  try {
+    let text: string;
+    if (extension === 'pdf') {
+      // pdf.js may take ownership of the buffer, so hand it a copy
+      const pdf = await getDocumentProxy(bytes.slice());
+      ({ text } = await extractText(pdf, { mergePages: true }) as { text: string });
+    } else {
+      text = new TextDecoder('utf-8', { fatal: false }).decode(bytes);
+    }
+
+    text = text.replaceAll('\u0000', '').trim();
+    return text ? text.slice(0, MAX_EXTRACTED_CHARS) : null;
+  } catch (error) {
+    console.error('Failed to extract document text:', error);
+    return null;
+  }
+}
+
+// Appends the text of a message's documents to its content so every turn that
+// carried a document keeps it in the model's context. The documents of one message
+// share budgetTokens equally, so a single turn can't outgrow the model's context.
+export function withDocumentText(content: string, attachments: MessageAttachment[], budgetTokens: number): string {
+  const documents = attachments.filter((a) => a.kind === 'document');
+  if (documents.length === 0) return content;
+
+  const documentBudget = Math.max(Math.floor(budgetTokens / documents.length), 0);
+  const blocks = documents.map((doc) => {
+    if (!doc.extracted_text) {
+      return `[Attached file: ${doc.file_name} — its text could not be read]`;
+    }
+    let text = doc.extracted_text.slice(0, MAX_DOCUMENT_CONTEXT_CHARS);
+    const tokens = estimateTokens(text);
+    if (tokens > documentBudget) {
+      text = text.slice(0, Math.floor(text.length * documentBudget / tokens));
+    }
+    if (text.length < doc.extracted_text.length) text += '\n[…truncated]';
+    return `[Attached file: ${doc.file_name}]\n\`\`\`\n${text}\n\`\`\``;
+  });
+
+  return [content, ...blocks].filter(Boolean).join('\n\n');
+}
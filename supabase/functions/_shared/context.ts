@@ -0,0 +1,176 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { chatCompletion } from "./providers.ts";
+import { getCheapestModel } from "./models.ts";
+import type { MessageAttachment } from "./attachments.ts";
+
+export interface ContextMessage {
+  id?: string;
+  role: 'user' | 'assistant';
+  content: string;
+  // Object paths in the chat-attachments bucket of images sent along with this turn
+  imagePaths?: string[];
+  pinned?: boolean;
+}
+
+export interface StoredMessage extends ContextMessage {
+  id: string;
+  parent_id: string | null;
+  attachments?: MessageAttachment[];
+}
+
+// Walks parent links from leafId up to the root and returns the branch in order
+export function branchPath(rows: StoredMessage[], leafId: string | null): StoredMessage[] {
+  const byId = new Map(rows.map((m) => [m.id, m]));
+  const path: StoredMessage[] = [];
+  let current = leafId ? byId.get(leafId) : undefined;
+  while (current) {
+    path.unshift(current);
+    current = current.parent_id ? byId.get(current.parent_id) : undefined;
+  }
+  return path;
+}
+
+// Summary of a branch up to and including through_message_id
+export interface ChatSummary {
+  summary: string;
+  through_message_id: string;
+}
+
+// Share of the model's context budget reserved for recent turns kept verbatim
+const RECENT_SHARE = 0.7;
+// Older turns are folded into the summary only once at least this many have piled up,
+// so the summary is regenerated incrementally instead of on every request
+const SUMMARY_BATCH_MESSAGES = 6;
+// Flat per-message overhead for role markers and formatting
+const MESSAGE_OVERHEAD_TOKENS = 4;
+export const IMAGE_TOKENS = 800;
+
+// Rough token estimate without a tokenizer: ~4 chars per token for Latin text,
+// Cyrillic and other non-ASCII scripts tokenize about twice as densely
+export function estimateTokens(text: string): number {
+  let ascii = 0;
+  for (let i = 0; i < text.length; i++) {
+    if (text.charCodeAt(i) < 128) ascii++;
+  }
+  const nonAscii = text.length - ascii;
+  return Math.ceil(ascii / 4 + nonAscii / 2);
+}
+
+function messageTokens(msg: ContextMessage): number {
+  return estimateTokens(msg.content || '') + MESSAGE_OVERHEAD_TOKENS + (msg.imagePaths?.length ?? 0) * IMAGE_TOKENS;
+}
+
+export interface BuiltContext {
+  // Conversation summary to prepend as a system message, if any
+  summary: string | null;
+  messages: ContextMessage[];
+}
+
+interface BuildContextOptions {
+  messages: ContextMessage[];
+  budgetTokens: number;
+  // Summaries stored for the chat; only those on this branch are used
+  stored: ChatSummary[];
+  // Called with the previous summary and the turns to fold in; returns the new summary
+  summarize?: (previous: string | null, turns: ContextMessage[]) => Promise<string>;
+  // Called after a new summary was produced so it can be persisted
+  onSummaryUpdated?: (summary: ChatSummary) => Promise<void>;
+}
+
+// Builds the context sent to the model: recent turns verbatim within the token
+// budget, pinned messages always, and everything older folded into a rolling summary.
+export async function buildContext(options: BuildContextOptions): Promise<BuiltContext> {
+  const { messages, budgetTokens, stored, summarize, onSummaryUpdated } = options;
+
+  // Take recent turns from the end until the recent-turns budget is spent
+  const recentBudget = Math.floor(budgetTokens * RECENT_SHARE);
+  let used = 0;
+  let splitIndex = messages.length;
+  while (splitIndex > 0) {
+    const cost = messageTokens(messages[splitIndex - 1]);
+    // Always keep at least the latest message
+    if (splitIndex < messages.length && used + cost > recentBudget) break;
+    used += cost;
+    splitIndex--;
+  }
+
+  const older = messages.slice(0, splitIndex);
+  const recent = messages.slice(splitIndex);
+  if (older.length === 0) {
+    return { summary: null, messages: recent };
+  }
+
+  // Without a summarizer (e.g. anonymous requests) fall back to plain truncation
+  if (!summarize) {
+    return { summary: null, messages: [...older.filter((m) => m.pinned), ...recent] };
+  }
+
+  // Older messages already covered by the furthest stored summary on this branch.
+  // Summaries of other branches don't apply; without one the summary is built from scratch.
+  const olderIndex = new Map(older.map((m, i) => [m.id, i]));
+  let cursorIndex = -1;
+  let summary: string | null = null;
+  for (const candidate of stored) {
+    const index = olderIndex.get(candidate.through_message_id) ?? -1;
+    if (index > cursorIndex) {
+      cursorIndex = index;
+      summary = candidate.summary;
+    }
+  }
+  let unsummarized = older.slice(cursorIndex + 1);
+
+  const toFold = unsummarized.filter((m) => !m.pinned);
+  const lastFolded = unsummarized[unsummarized.length - 1];
+  if (toFold.length >= SUMMARY_BATCH_MESSAGES && lastFolded.id) {
+    try {
+      summary = await summarize(summary, toFold);
+      unsummarized = unsummarized.filter((m) => m.pinned);
+      await onSummaryUpdated?.({ summary, through_message_id: lastFolded.id });
+    } catch (error) {
+      console.error('Failed to update conversation summary:', error);
+    }
+  }
+
+  // Pinned messages survive summarization verbatim, in their original order
+  const pinnedBeforeCursor = older.slice(0, cursorIndex + 1).filter((m) => m.pinned);
+
+  return {
+    summary,
+    messages: [...pinnedBeforeCursor, ...unsummarized, ...recent],
+  };
+}
+
+const SUMMARY_PROMPT = `You maintain a running summary of a conversation between a user and an AI assistant.
+Merge the previous summary (if any) with the new turns into one concise summary.
+Keep: the user's goals, instructions and preferences, decisions made, key facts, names, code identifiers and open questions.
+Drop: greetings, filler and anything superseded later.
+Write the summary in the same language as the conversation. Output only the summary.`;
+
+// Summarizes turns with the cheapest enabled model in the registry
+export async function summarizeTurns(
+  supabase: SupabaseClient,
+  previous: string | null,
+  turns: ContextMessage[]
+): Promise<string> {
+  const cheapest = await getCheapestModel(supabase);
+  const transcript = turns.map((m) => `${m.role.toUpperCase()}: ${m.content}`).join('\n\n');
+  const response = await chatCompletion({
+    model: cheapest.provider_model,
+    messages: [
+      { role: 'system', content: SUMMARY_PROMPT },
+      {
+        role: 'user',
+        content: `Previous summary:\n${previous || '(none)'}\n\nNew turns:\n${transcript}`,
+      },
+    ],
+  });
+
+  if (!response.ok) {
+    throw new Error(`Summary request failed: ${response.status}`);
+  }
+
+  const data = await response.json();
+  const summary = data.choices?.[0]?.message?.content?.trim();
+  if (!summary) throw new Error('Empty summary');
+  return summary;
+}
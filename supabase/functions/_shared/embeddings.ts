@@ -0,0 +1,147 @@
+// Embedding provider layer for the knowledge base.
+//
+// Every provider returns vectors of EMBEDDING_DIMENSIONS floats, matching the
+// knowledge_chunks.embedding column; changing providers means re-ingesting documents.
+//
+// Configuration (all optional):
+//   EMBEDDING_PROVIDER    "lovable", "openai", "local" or "mock"; defaults to the first
+//                         provider of LLM_PROVIDER, so it needs no key chat doesn't have
+//   EMBEDDING_MODEL       model name for the lovable (text-embedding-004) and openai
+//                         (text-embedding-3-small) providers
+//   LOVABLE_API_KEY
+//   OPENAI_BASE_URL / OPENAI_API_KEY
+//   LOCAL_EMBEDDING_BASE_URL / LOCAL_EMBEDDING_MODEL   (Ollama, llama.cpp server; 768-dim model)
+
+export const EMBEDDING_DIMENSIONS = 768;
+
+export interface EmbeddingProvider {
+  name: string;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+interface OpenAICompatibleConfig {
+  name: string;
+  baseUrl: string;
+  apiKey?: string;
+  model: string;
+  // Only OpenAI's text-embedding-3 models can shorten their output
+  sendDimensions: boolean;
+}
+
+function createOpenAICompatibleProvider(config: OpenAICompatibleConfig): EmbeddingProvider {
+  return {
+    name: config.name,
+    embed: async (texts) => {
+      const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+      if (config.apiKey) {
+        headers['Authorization'] = `Bearer ${config.apiKey}`;
+      }
+
+      const response = await fetch(`${config.baseUrl.replace(/\/$/, '')}/embeddings`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({
+          model: config.model,
+          input: texts,
+          ...(config.sendDimensions ? { dimensions: EMBEDDING_DIMENSIONS } : {}),
+        }),
+      });
+
+      if (!response.ok) {
+        throw new Error(`Embedding provider ${config.name} returned ${response.status}: ${await response.text()}`);
+      }
+
+      const { data } = await response.json() as { data: Array<{ index: number; embedding: number[] }> };
+      return [...data].sort((a, b) => a.index - b.index).map((item) => item.embedding);
+    },
+  };
+}
+
+// Deterministic stand-in for local development: hashed bag of words, so texts that
+// share words land close together without any network call
+function createMockProvider(): EmbeddingProvider {
+  return {
+    name: 'mock',
+    embed: async (texts) => texts.map((text) => {
+      const vector = new Array<number>(EMBEDDING_DIMENSIONS).fill(0);
+      for (const word of text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []) {
+        let hash = 2166136261;
+        for (let i = 0; i < word.length; i++) {
+          hash = Math.imul(hash ^ word.charCodeAt(i), 16777619);
+        }
+        vector[Math.abs(hash) % EMBEDDING_DIMENSIONS] += 1;
+      }
+      const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0)) || 1;
+      return vector.map((v) => v / norm);
+    }),
+  };
+}
+
+function createProvider(name: string): EmbeddingProvider {
+  switch (name) {
+    case 'lovable': {
+      const apiKey = Deno.env.get('LOVABLE_API_KEY');
+      if (!apiKey) throw new Error('LOVABLE_API_KEY is not configured');
+      return createOpenAICompatibleProvider({
+        name,
+        baseUrl: 'https://ai.gateway.lovable.dev/v1',
+        apiKey,
+        // Natively 768-dimensional
+        model: Deno.env.get('EMBEDDING_MODEL') || 'google/text-embedding-004',
+        sendDimensions: false,
+      });
+    }
+    case 'openai': {
+      const apiKey = Deno.env.get('OPENAI_API_KEY');
+      if (!apiKey) throw new Error('OPENAI_API_KEY is not configured');
+      return createOpenAICompatibleProvider({
+        name,
+        baseUrl: Deno.env.get('OPENAI_BASE_URL') || 'https://api.openai.com/v1',
+        apiKey,
+        model: Deno.env.get('EMBEDDING_MODEL') || 'text-embedding-3-small',
+        sendDimensions: true,
+      });
+    }
+    case 'local':
+      return createOpenAICompatibleProvider({
+        name,
+        baseUrl: Deno.env.get('LOCAL_EMBEDDING_BASE_URL') || Deno.env.get('LOCAL_LLM_BASE_URL') || 'http://localhost:11434/v1',
+        apiKey: Deno.env.get('LOCAL_LLM_API_KEY'),
+        model: Deno.env.get('LOCAL_EMBEDDING_MODEL') || 'nomic-embed-text',
+        sendDimensions: false,
+      });
+    case 'mock':
+      return createMockProvider();
+    default:
+      throw new Error(`Unknown embedding provider: ${name}`);
+  }
+}
+
+// Inputs per request; providers cap batch sizes and request bodies
+const EMBEDDING_BATCH_SIZE = 64;
+
+// An explicit EMBEDDING_PROVIDER, else the first provider chat uses. There is no
+// failover: vectors from different providers can't be compared with each other.
+function getProviderName(): string {
+  const chain = Deno.env.get('EMBEDDING_PROVIDER') || Deno.env.get('LLM_PROVIDER') || 'lovable';
+  return chain.split(',').map((s) => s.trim()).filter(Boolean)[0] ?? 'lovable';
+}
+
+// Embeds texts with the configured provider, in batches. A missing key throws a
+// configuration error, which ingestion stores on the failed document.
+export async function embedTexts(texts: string[]): Promise<number[][]> {
+  const provider = createProvider(getProviderName());
+  const embeddings: number[][] = [];
+
+  for (let i = 0; i < texts.length; i += EMBEDDING_BATCH_SIZE) {
+    const batch = await provider.embed(texts.slice(i, i + EMBEDDING_BATCH_SIZE));
+    for (const embedding of batch) {
+      if (embedding.length !== EMBEDDING_DIMENSIONS) {
+        throw new Error(`Embedding provider ${provider.name} returned ${embedding.length} dimensions, expected ${EMBEDDING_DIMENSIONS}`);
+      }
+    }
+    embeddings.push(...batch);
+  }
+
+  return embeddings;
+}
@@ -0,0 +1,97 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { embedTexts } from "./embeddings.ts";
+
+// Chunk size in characters, with some overlap so a passage cut at a boundary is
+// still found whole in one of the two neighbouring chunks
+const CHUNK_CHARS = 1200;
+const CHUNK_OVERLAP_CHARS = 200;
+
+const MATCH_COUNT = 5;
+const MIN_SIMILARITY = 0.3;
+
+export interface KnowledgeChunk {
+  id: string;
+  document_id: string;
+  title: string;
+  chunk_index: number;
+  content: string;
+  similarity: number;
+}
+
+// Stored on the assistant message (messages.sources) for the reply's citations
+export interface KnowledgeSource {
+  chunk_id: string;
+  document_id: string;
+  title: string;
+  chunk_index: number;
+  similarity: number;
+}
+
+// Splits text into overlapping chunks, preferring paragraph, then sentence, then
+// word boundaries near the end of each chunk
+export function chunkText(text: string): string[] {
+  const normalized = text.replace(/\r\n/g, '\n').replace(/\n{3,}/g, '\n\n').trim();
+  const chunks: string[] = [];
+  let start = 0;
+
+  while (start < normalized.length) {
+    let end = Math.min(start + CHUNK_CHARS, normalized.length);
+
+    if (end < normalized.length) {
+      const window = normalized.slice(start, end);
+      const minEnd = Math.floor(CHUNK_CHARS / 2);
+      const breakAt = [window.lastIndexOf('\n\n'), window.lastIndexOf('. '), window.lastIndexOf(' ')]
+        .find((index) => index > minEnd);
+      if (breakAt !== undefined) end = start + breakAt + 1;
+    }
+
+    const chunk = normalized.slice(start, end).trim();
+    if (chunk) chunks.push(chunk);
+    if (end >= normalized.length) break;
+    start = Math.max(end - CHUNK_OVERLAP_CHARS, start + 1);
+  }
+
+  return chunks;
+}
+
+// Finds the user's knowledge chunks closest to the query
+export async function retrieveKnowledge(
+  supabase: SupabaseClient,
+  userId: string,
+  query: string
+): Promise<KnowledgeChunk[]> {
+  if (!query.trim()) return [];
+
+  const [embedding] = await embedTexts([query]);
+  const { data, error } = await supabase.rpc('match_knowledge_chunks', {
+    _user_id: userId,
+    _query_embedding: JSON.stringify(embedding),
+    _match_count: MATCH_COUNT,
+    _min_similarity: MIN_SIMILARITY,
+  });
+
+  if (error) throw error;
+  return (data ?? []) as KnowledgeChunk[];
+}
+
+// System message presenting retrieved chunks as numbered excerpts the model can cite
+export function formatKnowledgeContext(chunks: KnowledgeChunk[]): string {
+  const excerpts = chunks.map((chunk, index) =>
+    `[${index + 1}] ${chunk.title} (part ${chunk.chunk_index + 1})\n${chunk.content}`
+  );
+
+  return `Excerpts from the user's knowledge base that may be relevant to their latest message.
+Use them when they help answer, cite them as [1], [2], … and ignore excerpts that are off-topic.
+
+${excerpts.join('\n\n')}`;
+}
+
+export function toKnowledgeSources(chunks: KnowledgeChunk[]): KnowledgeSource[] {
+  return chunks.map((chunk) => ({
+    chunk_id: chunk.id,
+    document_id: chunk.document_id,
+    title: chunk.title,
+    chunk_index: chunk.chunk_index,
+    similarity: Math.round(chunk.similarity * 1000) / 1000,
+  }));
+}
@@ -0,0 +1,145 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { chatCompletion } from "./providers.ts";
+import { getCheapestModel } from "./models.ts";
+import { estimateTokens } from "./context.ts";
+
+// Memories are short facts, so all of them usually fit; the oldest are dropped
+// once the budget is reached
+const MEMORY_TOKEN_BUDGET = 1000;
+const MAX_MEMORY_CHARS = 500;
+const MAX_PROPOSALS_PER_TURN = 3;
+// No more proposals once a user has this many memories (active and proposed)
+const MAX_MEMORIES = 200;
+// Recently dismissed proposals passed as known, so they aren't proposed again
+const MAX_DISMISSED_KNOWN = 100;
+
+const PROPOSAL_PROMPT = `You maintain a long-term memory about the user of a chat assistant.
+Read the user's latest message and decide whether it reveals durable facts worth remembering
+across conversations: their name, preferred language, location, profession, tech stack,
+ongoing projects, or how they want the assistant to answer (tone, format, length).
+Ignore one-off requests, temporary context and anything already known.
+Answer with a JSON array of at most ${MAX_PROPOSALS_PER_TURN} short third-person statements in the
+language of the user's message, e.g. ["Prefers answers in Ukrainian", "Works with TypeScript and Supabase"].
+Answer with [] when there is nothing to remember. Output only the JSON array.`;
+
+export interface UserMemory {
+  id: string;
+  content: string;
+  status: 'active' | 'proposed' | 'dismissed';
+}
+
+// Active memories, newest first, trimmed to the memory budget
+export async function loadActiveMemories(
+  supabase: SupabaseClient,
+  userId: string
+): Promise<UserMemory[]> {
+  const { data, error } = await supabase
+    .from('user_memories')
+    .select('id, content, status')
+    .eq('user_id', userId)
+    .eq('status', 'active')
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+
+  const memories: UserMemory[] = [];
+  let tokens = 0;
+  for (const memory of (data ?? []) as UserMemory[]) {
+    tokens += estimateTokens(memory.content);
+    if (tokens > MEMORY_TOKEN_BUDGET) break;
+    memories.push(memory);
+  }
+  return memories;
+}
+
+export function formatMemories(memories: UserMemory[]): string {
+  const facts = memories.map((m) => `- ${m.content}`).join('\n');
+  return `Things the user asked you to remember about them. Take them into account, ` +
+    `but don't mention them unless they are relevant:\n${facts}`;
+}
+
+function parseProposals(text: string): string[] {
+  const match = text.match(/\[[\s\S]*\]/);
+  if (!match) return [];
+  try {
+    const parsed = JSON.parse(match[0]);
+    if (!Array.isArray(parsed)) return [];
+    return parsed
+      .filter((item): item is string => typeof item === 'string')
+      .map((item) => item.trim().slice(0, MAX_MEMORY_CHARS))
+      .filter(Boolean)
+      .slice(0, MAX_PROPOSALS_PER_TURN);
+  } catch {
+    return [];
+  }
+}
+
+// Asks the cheapest model for facts worth remembering from a user turn and stores
+// them as proposals for the user to confirm. Runs after the reply; failures are
+// only logged.
+export async function proposeMemories(
+  supabase: SupabaseClient,
+  userId: string,
+  messageId: string,
+  userContent: string
+): Promise<void> {
+  try {
+    const { data: existing, error } = await supabase
+      .from('user_memories')
+      .select('content')
+      .eq('user_id', userId)
+      .neq('status', 'dismissed')
+      .limit(MAX_MEMORIES);
+
+    if (error) throw error;
+    if ((existing ?? []).length >= MAX_MEMORIES) return;
+
+    const { data: dismissed, error: dismissedError } = await supabase
+      .from('user_memories')
+      .select('content')
+      .eq('user_id', userId)
+      .eq('status', 'dismissed')
+      .order('created_at', { ascending: false })
+      .limit(MAX_DISMISSED_KNOWN);
+
+    if (dismissedError) throw dismissedError;
+
+    const known = [...(existing ?? []), ...(dismissed ?? [])].map((m: { content: string }) => m.content);
+    const cheapest = await getCheapestModel(supabase);
+    const response = await chatCompletion({
+      model: cheapest.provider_model,
+      messages: [
+        { role: 'system', content: PROPOSAL_PROMPT },
+        {
+          role: 'user',
+          content: `Already known:\n${known.map((c) => `- ${c}`).join('\n') || '(nothing)'}\n\nUser message:\n${userContent}`,
+        },
+      ],
+    });
+
+    if (!response.ok) {
+      throw new Error(`Memory proposal request failed: ${response.status}`);
+    }
+
+    const data = await response.json();
+    const knownKeys = new Set(known.map((c) => c.toLowerCase()));
+    const proposals = parseProposals(data.choices?.[0]?.message?.content ?? '')
+      .filter((content) => !knownKeys.has(content.toLowerCase()));
+
+    if (proposals.length === 0) return;
+
+    const { error: insertError } = await supabase
+      .from('user_memories')
+      .insert(proposals.map((content) => ({
+        user_id: userId,
+        content,
+        status: 'proposed',
+        source_message_id: messageId,
+      })));
+
+    if (insertError) throw insertError;
+    console.log('Proposed', proposals.length, 'memories');
+  } catch (error) {
+    console.error('Memory proposal failed:', error);
+  }
+}
@@ -0,0 +1,72 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+// A row of the `models` registry table
+export interface ModelConfig {
+  id: string;
+  display_name: string;
+  provider_model: string;
+  persona_prompt: string;
+  // Bumped whenever persona_prompt changes; stored with each reply
+  persona_version: number;
+  tier: 'free' | 'plus';
+  capabilities: string[];
+  cost_weight: number;
+  // Token budget for conversation history sent to this model
+  context_tokens: number;
+}
+
+export const DEFAULT_MODEL_ID = 'thetai-1.0-free';
+
+export async function getEnabledModels(supabase: SupabaseClient): Promise<ModelConfig[]> {
+  const { data, error } = await supabase
+    .from('models')
+    .select('id, display_name, provider_model, persona_prompt, persona_version, tier, capabilities, cost_weight, context_tokens')
+    .eq('enabled', true)
+    .order('sort_order', { ascending: true });
+
+  if (error) throw error;
+  return (data ?? []) as ModelConfig[];
+}
+
+// Picks the model a user is entitled to: unknown, disabled and (for non-Plus users)
+// Plus-only models fall back to the default free model.
+export async function resolveModel(
+  supabase: SupabaseClient,
+  requestedId: string | null,
+  isPlus: boolean
+): Promise<ModelConfig> {
+  const models = await getEnabledModels(supabase);
+  const requested = models.find((m) => m.id === (requestedId || DEFAULT_MODEL_ID));
+
+  if (requested && (requested.tier === 'free' || isPlus)) {
+    return requested;
+  }
+
+  const fallback = models.find((m) => m.id === DEFAULT_MODEL_ID) ?? models.find((m) => m.tier === 'free');
+  if (!fallback) {
+    throw new Error('No enabled free model in the registry');
+  }
+  return fallback;
+}
+
+// Lowest cost-weight model, used for background work such as summaries
+export async function getCheapestModel(supabase: SupabaseClient): Promise<ModelConfig> {
+  const models = await getEnabledModels(supabase);
+  const cheapest = [...models].sort((a, b) => a.cost_weight - b.cost_weight)[0];
+  if (!cheapest) throw new Error('No enabled model in the registry');
+  return cheapest;
+}
+
+// Models for compare mode, in the requested order. Unlike resolveModel there is no
+// fallback: null unless every model is enabled and available to the user.
+export async function resolveComparedModels(
+  supabase: SupabaseClient,
+  ids: string[],
+  isPlus: boolean
+): Promise<ModelConfig[] | null> {
+  const models = await getEnabledModels(supabase);
+  const compared = ids.map((id) => models.find((m) => m.id === id));
+
+  if (compared.some((m) => !m || (m.tier === 'plus' && !isPlus))) return null;
+  return compared as ModelConfig[];
+}
@@ -0,0 +1,195 @@
+// LLM provider layer shared by the edge functions.
+//
+// Every provider speaks the OpenAI chat-completions wire format and returns a
+// plain fetch Response (JSON, or SSE when `stream: true`), so callers can keep
+// handling status codes and bodies exactly as they did with the gateway.
+//
+// Configuration (all optional):
+//   LLM_PROVIDER          default provider chain, e.g. "lovable" or "openai,lovable"
+//   LLM_MODEL_PROVIDERS   per-model chains as JSON, e.g. {"google/gemini-2.5-pro": "openai,lovable"}
+//   OPENAI_BASE_URL / OPENAI_API_KEY
+//   LOCAL_LLM_BASE_URL / LOCAL_LLM_API_KEY / LOCAL_LLM_MODEL   (Ollama, llama.cpp server)
+
+export interface ChatCompletionBody {
+  model: string;
+  messages: Array<{ role: string; content: unknown }>;
+  stream?: boolean;
+  modalities?: string[];
+  [key: string]: unknown;
+}
+
+export interface LLMProvider {
+  name: string;
+  chatCompletion(body: ChatCompletionBody, signal?: AbortSignal): Promise<Response>;
+}
+
+interface OpenAICompatibleConfig {
+  name: string;
+  baseUrl: string;
+  apiKey?: string;
+  // Overrides the requested model, e.g. a single local model serving every ThetAI model
+  model?: string;
+}
+
+function createOpenAICompatibleProvider(config: OpenAICompatibleConfig): LLMProvider {
+  return {
+    name: config.name,
+    chatCompletion: (body, signal) => {
+      const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+      if (config.apiKey) {
+        headers['Authorization'] = `Bearer ${config.apiKey}`;
+      }
+
+      return fetch(`${config.baseUrl.replace(/\/$/, '')}/chat/completions`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({ ...body, model: config.model || body.model }),
+        signal,
+      });
+    },
+  };
+}
+
+// 1x1 transparent PNG returned by the mock provider for image requests
+const MOCK_IMAGE = 'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg==';
+
+function lastUserText(body: ChatCompletionBody): string {
+  const last = [...body.messages].reverse().find((m) => m.role === 'user');
+  if (!last) return '';
+  if (typeof last.content === 'string') return last.content;
+  return (last.content as Array<{ type: string; text?: string }>)
+    .filter((p) => p.type === 'text')
+    .map((p) => p.text)
+    .join(' ');
+}
+
+// Deterministic provider for local development and tests: no network, same input → same output
+function createMockProvider(): LLMProvider {
+  return {
+    name: 'mock',
+    chatCompletion: async (body) => {
+      const prompt = lastUserText(body);
+      const content = `[mock:${body.model}] ${prompt}`.trim();
+      const usage = {
+        prompt_tokens: body.messages.length,
+        completion_tokens: content.split(/\s+/).length,
+      };
+
+      if (body.stream) {
+        const encoder = new TextEncoder();
+        const words = content.split(/(?<=\s)/);
+        const stream = new ReadableStream({
+          start(controller) {
+            for (const word of words) {
+              const chunk = { choices: [{ index: 0, delta: { content: word } }] };
+              controller.enqueue(encoder.encode(`data: ${JSON.stringify(chunk)}\n\n`));
+            }
+            // Like OpenAI, usage comes in a final chunk without choices when asked for
+            if ((body.stream_options as { include_usage?: boolean } | undefined)?.include_usage) {
+              controller.enqueue(encoder.encode(`data: ${JSON.stringify({ choices: [], usage })}\n\n`));
+            }
+            controller.enqueue(encoder.encode('data: [DONE]\n\n'));
+            controller.close();
+          },
+        });
+        return new Response(stream, { headers: { 'Content-Type': 'text/event-stream' } });
+      }
+
+      const message: Record<string, unknown> = { role: 'assistant', content };
+      if (body.modalities?.includes('image')) {
+        message.images = [{ type: 'image_url', image_url: { url: MOCK_IMAGE } }];
+      }
+
+      return new Response(JSON.stringify({ choices: [{ index: 0, message }], usage }), {
+        headers: { 'Content-Type': 'application/json' },
+      });
+    },
+  };
+}
+
+function createProvider(name: string): LLMProvider {
+  switch (name) {
+    case 'lovable': {
+      const apiKey = Deno.env.get('LOVABLE_API_KEY');
+      if (!apiKey) throw new Error('LOVABLE_API_KEY is not configured');
+      return createOpenAICompatibleProvider({
+        name,
+        baseUrl: 'https://ai.gateway.lovable.dev/v1',
+        apiKey,
+      });
+    }
+    case 'openai': {
+      const apiKey = Deno.env.get('OPENAI_API_KEY');
+      if (!apiKey) throw new Error('OPENAI_API_KEY is not configured');
+      return createOpenAICompatibleProvider({
+        name,
+        baseUrl: Deno.env.get('OPENAI_BASE_URL') || 'https://api.openai.com/v1',
+        apiKey,
+      });
+    }
+    case 'local':
+      return createOpenAICompatibleProvider({
+        name,
+        baseUrl: Deno.env.get('LOCAL_LLM_BASE_URL') || 'http://localhost:11434/v1',
+        apiKey: Deno.env.get('LOCAL_LLM_API_KEY'),
+        model: Deno.env.get('LOCAL_LLM_MODEL'),
+      });
+    case 'mock':
+      return createMockProvider();
+    default:
+      throw new Error(`Unknown LLM provider: ${name}`);
+  }
+}
+
+function parseChain(value: string): string[] {
+  return value.split(',').map((s) => s.trim()).filter(Boolean);
+}
+
+// Resolves the ordered list of provider names configured for a backing model
+export function getProviderChain(model: string): string[] {
+  const perModel = Deno.env.get('LLM_MODEL_PROVIDERS');
+  if (perModel) {
+    try {
+      const map = JSON.parse(perModel) as Record<string, string>;
+      if (map[model]) return parseChain(map[model]);
+    } catch (error) {
+      console.error('Invalid LLM_MODEL_PROVIDERS:', error);
+    }
+  }
+  return parseChain(Deno.env.get('LLM_PROVIDER') || 'lovable');
+}
+
+function shouldFailOver(status: number): boolean {
+  return status === 429 || status >= 500;
+}
+
+// Sends a chat completion through the model's provider chain, failing over to the
+// next provider on network errors, rate limits and 5xx responses. Aborting `signal`
+// cancels the upstream request (and a streamed body) without trying other providers.
+export async function chatCompletion(body: ChatCompletionBody, signal?: AbortSignal): Promise<Response> {
+  const chain = getProviderChain(body.model);
+  let lastError: unknown = null;
+
+  for (let i = 0; i < chain.length; i++) {
+    const isLast = i === chain.length - 1;
+
+    try {
+      const provider = createProvider(chain[i]);
+      console.log('Calling LLM provider:', provider.name, 'model:', body.model);
+
+      const response = await provider.chatCompletion(body, signal);
+      if (response.ok || isLast || !shouldFailOver(response.status)) {
+        return response;
+      }
+
+      console.warn(`Provider ${provider.name} returned ${response.status}, failing over`);
+      await response.body?.cancel();
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      console.error(`Provider ${chain[i]} failed:`, error);
+      lastError = error;
+    }
+  }
+
+  throw lastError instanceof Error ? lastError : new Error('No LLM provider available');
+}
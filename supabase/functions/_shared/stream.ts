@@ -0,0 +1,182 @@
+import { parseUsage, type TokenUsage } from "./usage.ts";
+
+// Supabase Edge Runtime global that keeps background work alive after the response ends
+declare const EdgeRuntime: { waitUntil(promise: Promise<unknown>): void } | undefined;
+
+export interface RelayedStream {
+  stream: ReadableStream<Uint8Array>;
+  // Resolves once the upstream is fully read and onComplete has run
+  done: Promise<void>;
+}
+
+export interface RelayResult {
+  content: string;
+  // The user stopped the reply before the upstream finished
+  truncated: boolean;
+  // Token counts reported by the provider, if it sent any
+  usage: TokenUsage | null;
+}
+
+interface CompletionText {
+  content: string;
+  usage: TokenUsage | null;
+}
+
+interface SseChannel {
+  stream: ReadableStream<Uint8Array>;
+  send: (text: string) => void;
+  // Sends whatever onComplete returned as `event: stored`, then [DONE]
+  finish: (onComplete: () => Promise<unknown>) => Promise<void>;
+}
+
+// The client-facing side of a relay. A client disconnect only stops sending; the
+// upstream is still read to the end.
+function createSseChannel(): SseChannel {
+  const encoder = new TextEncoder();
+  let controller!: ReadableStreamDefaultController<Uint8Array>;
+  let clientGone = false;
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(c) {
+      controller = c;
+    },
+    cancel() {
+      clientGone = true;
+    },
+  });
+
+  const send = (text: string) => {
+    if (clientGone) return;
+    try {
+      controller.enqueue(encoder.encode(text));
+    } catch {
+      clientGone = true;
+    }
+  };
+
+  const finish = async (onComplete: () => Promise<unknown>) => {
+    try {
+      const stored = await onComplete();
+      if (stored) {
+        send(`event: stored\ndata: ${JSON.stringify(stored)}\n\n`);
+      }
+    } catch (error) {
+      console.error('Failed to finish stream:', error);
+      send(`event: error\ndata: ${JSON.stringify({ error: 'save_failed' })}\n\n`);
+    }
+
+    send('data: [DONE]\n\n');
+    if (!clientGone) controller.close();
+  };
+
+  return { stream, send, finish };
+}
+
+// Reads an OpenAI-style SSE completion stream, handing every line (but [DONE]) and
+// every content delta to the callbacks; resolves with the full text and the usage
+// the provider reported in its last chunk
+async function readCompletionStream(
+  upstream: Response,
+  onLine: (line: string) => void,
+  onDelta: (delta: string) => void,
+  abort?: AbortController
+): Promise<CompletionText> {
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let content = '';
+  let usage: TokenUsage | null = null;
+  const reader = upstream.body!.getReader();
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() ?? '';
+
+      for (const rawLine of lines) {
+        const line = rawLine.replace(/\r$/, '');
+        if (line === 'data: [DONE]') continue;
+        onLine(line);
+
+        if (!line.startsWith('data: ')) continue;
+        try {
+          const chunk = JSON.parse(line.slice(6));
+          const delta = chunk.choices?.[0]?.delta?.content;
+          if (delta) {
+            content += delta;
+            onDelta(delta);
+          }
+          usage = parseUsage(chunk.usage) ?? usage;
+        } catch {
+          // keep-alives and partial vendor payloads
+        }
+      }
+    }
+  } catch (error) {
+    if (!abort?.signal.aborted) console.error('Upstream stream error:', error);
+  }
+
+  return { content, usage };
+}
+
+function keepAlive(done: Promise<void>) {
+  if (typeof EdgeRuntime !== 'undefined') {
+    EdgeRuntime.waitUntil(done);
+  }
+}
+
+// Relays an OpenAI-style SSE completion stream to the client while collecting the
+// full text, then runs onComplete; whatever it returns is sent as a final
+// `event: stored` before [DONE]. The upstream is read to the end even if the client
+// disconnects. Aborting `abort` (the user stopped the reply) ends it early and
+// onComplete receives the partial text.
+export function relayCompletionStream(
+  upstream: Response,
+  onComplete: (result: RelayResult) => Promise<unknown>,
+  abort?: AbortController
+): RelayedStream {
+  const channel = createSseChannel();
+
+  const pump = async () => {
+    // [DONE] is re-sent after the stored event
+    const { content, usage } = await readCompletionStream(upstream, (line) => channel.send(line + '\n'), () => {}, abort);
+    await channel.finish(() => onComplete({ content, truncated: !!abort?.signal.aborted, usage }));
+  };
+
+  const done = pump();
+  keepAlive(done);
+
+  return { stream: channel.stream, done };
+}
+
+// Relays several completion streams at once (the answers of compared models) as
+// `data: {"index": i, "delta": "..."}` events, i being the upstream's position, then
+// runs onComplete with every answer. Ends like relayCompletionStream.
+export function relayComparisonStreams(
+  upstreams: Response[],
+  onComplete: (results: RelayResult[]) => Promise<unknown>,
+  abort?: AbortController
+): RelayedStream {
+  const channel = createSseChannel();
+
+  const pump = async () => {
+    const answers = await Promise.all(upstreams.map((upstream, index) =>
+      readCompletionStream(
+        upstream,
+        () => {},
+        (delta) => channel.send(`data: ${JSON.stringify({ index, delta })}\n\n`),
+        abort
+      )
+    ));
+    const truncated = !!abort?.signal.aborted;
+    await channel.finish(() => onComplete(answers.map(({ content, usage }) => ({ content, truncated, usage }))));
+  };
+
+  const done = pump();
+  keepAlive(done);
+
+  return { stream: channel.stream, done };
+}
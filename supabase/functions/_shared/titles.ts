@@ -0,0 +1,64 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { chatCompletion } from "./providers.ts";
+import { getCheapestModel } from "./models.ts";
+
+const MAX_TITLE_CHARS = 80;
+// Enough of each turn to tell what the conversation is about
+const MAX_EXCERPT_CHARS = 2000;
+
+const TITLE_PROMPT = `Write a title for a chat conversation from its first exchange.
+Use at most 6 words, in the same language as the user's message. Describe the topic;
+don't start with "Chat about" or similar. Answer with the title only: no quotes,
+no trailing period.`;
+
+function cleanTitle(text: string): string {
+  return text
+    .split('\n')[0]
+    .replace(/^(title|заголовок|назва)\s*:\s*/i, '')
+    .replace(/^["'«“*#\s]+|["'»”*.\s]+$/g, '')
+    .slice(0, MAX_TITLE_CHARS)
+    .trim();
+}
+
+// Titles a chat from its first exchange with the cheapest model. Generation calls
+// don't go through the message quota. Only chats still on their default title are
+// updated, so a rename made meanwhile wins. Failures are only logged.
+export async function generateChatTitle(
+  supabase: SupabaseClient,
+  chatId: string,
+  userContent: string,
+  reply: string
+): Promise<void> {
+  try {
+    const cheapest = await getCheapestModel(supabase);
+    const response = await chatCompletion({
+      model: cheapest.provider_model,
+      messages: [
+        { role: 'system', content: TITLE_PROMPT },
+        {
+          role: 'user',
+          content: `User:\n${userContent.slice(0, MAX_EXCERPT_CHARS)}\n\nAssistant:\n${reply.slice(0, MAX_EXCERPT_CHARS)}`,
+        },
+      ],
+    });
+
+    if (!response.ok) {
+      throw new Error(`Title request failed: ${response.status}`);
+    }
+
+    const data = await response.json();
+    const title = cleanTitle(data.choices?.[0]?.message?.content ?? '');
+    if (!title) return;
+
+    const { error } = await supabase
+      .from('chats')
+      .update({ title, title_source: 'auto' })
+      .eq('id', chatId)
+      .eq('title_source', 'default');
+
+    if (error) throw error;
+    console.log('Chat titled:', chatId);
+  } catch (error) {
+    console.error('Chat title generation failed:', error);
+  }
+}
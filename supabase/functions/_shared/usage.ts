@@ -0,0 +1,63 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { estimateTokens, IMAGE_TOKENS } from "./context.ts";
+
+export interface TokenUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+}
+
+// Reads the usage object OpenAI-style APIs attach to a response, or to the last
+// chunk of a stream requested with stream_options.include_usage
+export function parseUsage(usage: unknown): TokenUsage | null {
+  if (!usage || typeof usage !== 'object') return null;
+  const { prompt_tokens, completion_tokens } = usage as Record<string, unknown>;
+  if (typeof prompt_tokens !== 'number' && typeof completion_tokens !== 'number') return null;
+
+  return {
+    prompt_tokens: typeof prompt_tokens === 'number' ? prompt_tokens : 0,
+    completion_tokens: typeof completion_tokens === 'number' ? completion_tokens : 0,
+  };
+}
+
+// Stands in for providers that don't report usage: the prompt and reply measured with
+// the same estimate the context budget uses
+export function estimateUsage(messages: Array<{ content: unknown }>, completion: string): TokenUsage {
+  let promptTokens = 0;
+  for (const message of messages) {
+    if (typeof message.content === 'string') {
+      promptTokens += estimateTokens(message.content);
+      continue;
+    }
+    for (const part of (message.content ?? []) as Array<{ type: string; text?: string }>) {
+      promptTokens += part.type === 'text' ? estimateTokens(part.text ?? '') : IMAGE_TOKENS;
+    }
+  }
+
+  return { prompt_tokens: promptTokens, completion_tokens: estimateTokens(completion) };
+}
+
+interface UsageRecord {
+  userId: string;
+  // Registry id of the model that answered
+  model: string;
+  usage: TokenUsage;
+  chatId?: string;
+  messageId?: string | null;
+  comparisonId?: string | null;
+}
+
+// Books one model call in the usage ledger. Metering problems are logged, never
+// surfaced to the user.
+export async function recordUsage(supabase: SupabaseClient, record: UsageRecord): Promise<void> {
+  const { error } = await supabase.rpc('record_usage_event', {
+    _user_id: record.userId,
+    _model: record.model,
+    _prompt_tokens: record.usage.prompt_tokens,
+    _completion_tokens: record.usage.completion_tokens,
+    _chat_id: record.chatId ?? null,
+    _message_id: record.messageId ?? null,
+    _comparison_id: record.comparisonId ?? null,
+  });
+
+  if (error) console.error('Failed to record usage:', error);
+}
@@ -1,71 +1,45 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { chatCompletion } from "../_shared/providers.ts";
+import { resolveModel, resolveComparedModels, type ModelConfig } from "../_shared/models.ts";
+import {
+  buildContext,
+  summarizeTurns,
+  branchPath,
+  estimateTokens,
+  type ContextMessage,
+  type StoredMessage,
+} from "../_shared/context.ts";
+import {
+  retrieveKnowledge,
+  formatKnowledgeContext,
+  toKnowledgeSources,
+  type KnowledgeChunk,
+} from "../_shared/knowledge.ts";
+import { relayCompletionStream, relayComparisonStreams, type RelayResult } from "../_shared/stream.ts";
+import { loadActiveMemories, formatMemories, proposeMemories } from "../_shared/memories.ts";
+import { generateChatTitle } from "../_shared/titles.ts";
+import { ARTIFACT_INSTRUCTIONS } from "../_shared/artifacts.ts";
+import { estimateUsage, recordUsage } from "../_shared/usage.ts";
+import {
+  MAX_ATTACHMENTS_PER_MESSAGE,
+  signAttachmentForModel,
+  withDocumentText,
+  type MessageAttachment,
+} from "../_shared/attachments.ts";
+
+// Supabase Edge Runtime global that keeps background work alive after the response ends
+declare const EdgeRuntime: { waitUntil(promise: Promise<unknown>): void } | undefined;
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
-// Map ThetAI model names to actual Lovable AI models
-const MODEL_MAP: Record<string, string> = {
-  'thetai-1.0-free': 'google/gemini-2.5-flash-lite',
-  'thetai-1.0-nano': 'google/gemini-2.5-flash',
-  'thetai-1.0-omni': 'google/gemini-2.5-pro',
-};
-
-// Different system prompts for different models
-const MODEL_PERSONALITIES: Record<string, string> = {
-  'thetai-1.0-free': `You are ThetAI Free - a helpful and efficient AI assistant.
-
-CRITICAL RULE: You MUST detect the language of the user's message and respond ONLY in that same language.
-- If the user writes in English → respond in English
-- If the user writes in Russian → respond in Russian (отвечай на русском)
-- If the user writes in Ukrainian → respond in Ukrainian (відповідай українською)
-
-Your qualities:
-- You give concise and direct answers
-- You focus on the main points without excessive details
-- You use Markdown for formatting when helpful
-- You can analyze images if attached
-
-Never mention that you are based on Gemini or Google. Introduce yourself as ThetAI.`,
-
-  'thetai-1.0-nano': `You are ThetAI Nano - a fast and smart AI assistant optimized for quick responses.
-
-CRITICAL RULE: You MUST detect the language of the user's message and respond ONLY in that same language.
-- If the user writes in English → respond in English
-- If the user writes in Russian → respond in Russian (отвечай на русском)
-- If the user writes in Ukrainian → respond in Ukrainian (відповідай українською)
-
-Your qualities:
-- You are optimized for speed and efficiency
-- You give quick, accurate, and well-structured answers
-- You use bullet points and lists for clarity
-- You excel at coding tasks and technical questions
-- You can analyze images if attached
-- You balance speed with quality
-
-Never mention that you are based on Gemini or Google. Introduce yourself as ThetAI Nano.`,
-
-  'thetai-1.0-omni': `You are ThetAI Omni - the most advanced and thoughtful AI assistant.
-
-CRITICAL RULE: You MUST detect the language of the user's message and respond ONLY in that same language.
-- If the user writes in English → respond in English
-- If the user writes in Russian → respond in Russian (отвечай на русском)
-- If the user writes in Ukrainian → respond in Ukrainian (відповідай українською)
-
-Your qualities:
-- You take time to think deeply about complex problems
-- You provide comprehensive, detailed, and nuanced answers
-- You excel at creative tasks, analysis, and reasoning
-- You consider multiple perspectives and edge cases
-- You can analyze images in detail if attached
-- You use advanced formatting for clarity
-- You ask clarifying questions for complex tasks
-- You provide step-by-step explanations when helpful
-
-Never mention that you are based on Gemini or Google. Introduce yourself as ThetAI Omni.`,
-};
+// Compare mode sends one prompt to this many models at most
+const MAX_COMPARED_MODELS = 3;
+// How often a reply being generated checks whether the user stopped it
+const STOP_POLL_MS = 1000;
 
 serve(async (req) => {
   // Handle CORS preflight requests
@@ -74,146 +48,513 @@ serve(async (req) => {
   }
 
   try {
-    const { messages } = await req.json();
+    // parent_id is the message the new turn continues from (the active branch leaf).
+    // Without a message, a new assistant reply to the user turn parent_id is generated.
+    // Attachments are uploaded beforehand (upload-attachment) and referenced by id.
+    // With compare_models the message is answered by each of those models instead; the
+    // answers are kept aside until the user picks one (choose_comparison_answer).
+    const {
+      chat_id: chatId,
+      parent_id: parentId = null,
+      message,
+      compare_models: requestedCompareModels,
+    } = await req.json() as {
+      chat_id?: string;
+      parent_id?: string | null;
+      message?: { content?: string; attachmentIds?: string[] };
+      compare_models?: string[];
+    };
     
     // Input validation
     const MAX_MESSAGE_LENGTH = 10000;
-    const MAX_CONTEXT_MESSAGES = 100;
+    const isRegenerate = !message;
+    const content = typeof message?.content === 'string' ? message.content : '';
+    const attachmentIds = Array.isArray(message?.attachmentIds)
+      ? message.attachmentIds.filter((id): id is string => typeof id === 'string')
+      : [];
+
+    if (!chatId || (isRegenerate ? !parentId : !content.trim() && attachmentIds.length === 0)) {
+      return new Response(
+        JSON.stringify({ error: 'chat_id and message (or parent_id to regenerate) are required' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const compareModelIds = Array.isArray(requestedCompareModels)
+      ? [...new Set(requestedCompareModels.filter((id): id is string => typeof id === 'string'))]
+      : null;
 
-    if (!Array.isArray(messages) || messages.length === 0) {
+    if (compareModelIds && (isRegenerate || compareModelIds.length < 2 || compareModelIds.length > MAX_COMPARED_MODELS)) {
       return new Response(
-        JSON.stringify({ error: 'Invalid messages array' }),
+        JSON.stringify({ error: `compare_models needs 2 to ${MAX_COMPARED_MODELS} models and a new message` }),
         { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       );
     }
 
-    // Truncate to last 100 messages for context
-    let processedMessages = messages;
-    if (messages.length > MAX_CONTEXT_MESSAGES) {
-      processedMessages = messages.slice(-MAX_CONTEXT_MESSAGES);
-      console.log(`Truncated messages from ${messages.length} to ${MAX_CONTEXT_MESSAGES}`);
+    if (content.length > MAX_MESSAGE_LENGTH) {
+      return new Response(
+        JSON.stringify({ error: 'Message too long' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
     }
 
-    for (const msg of processedMessages) {
-      if (typeof msg.content === 'string' && msg.content.length > MAX_MESSAGE_LENGTH) {
+    if (attachmentIds.length > MAX_ATTACHMENTS_PER_MESSAGE) {
+      return new Response(
+        JSON.stringify({ error: 'Too many attachments' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      return new Response(
+        JSON.stringify({ error: 'Authorization required' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    // Extract JWT token and get user
+    const token = authHeader.replace('Bearer ', '');
+    const { data: { user }, error: userError } = await supabase.auth.getUser(token);
+
+    if (!user || userError) {
+      return new Response(
+        JSON.stringify({ error: 'Invalid user' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Attachments of the new turn must be the user's own uploads (or, for an edited
+    // prompt, the files of the original message)
+    const { data: newAttachments, error: attachmentsError } = attachmentIds.length > 0
+      ? await supabase
+        .from('message_attachments')
+        .select('id, kind, storage_path, file_name, extracted_text')
+        .in('id', attachmentIds)
+        .eq('user_id', user.id)
+      : { data: [], error: null };
+
+    if (attachmentsError) throw attachmentsError;
+
+    if ((newAttachments ?? []).length !== new Set(attachmentIds).size) {
+      return new Response(
+        JSON.stringify({ error: 'Attachment not found' }),
+        { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Only the owner may continue a chat
+    const { data: chat } = await supabase
+      .from('chats')
+      .select('id, use_knowledge, title_source, stop_requested_at, model, temperature, custom_instructions')
+      .eq('id', chatId)
+      .eq('user_id', user.id)
+      .maybeSingle();
+
+    if (!chat) {
+      return new Response(
+        JSON.stringify({ error: 'Chat not found' }),
+        { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Get user profile to check selected model and Plus status
+    const { data: profile } = await supabase
+      .from('profiles')
+      .select('selected_model, is_plus')
+      .eq('id', user.id)
+      .single();
+
+    // Resolve the model from the registry, re-checking Plus entitlement server-side.
+    // The chat's own model wins over the profile's. Compared models must all be
+    // available to the user; there is no fallback.
+    let models: ModelConfig[];
+    if (compareModelIds) {
+      const compared = await resolveComparedModels(supabase, compareModelIds, !!profile?.is_plus);
+      if (!compared) {
         return new Response(
-          JSON.stringify({ error: 'Message too long' }),
-          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          JSON.stringify({ error: 'model_not_available' }),
+          { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
         );
       }
+      models = compared;
+    } else {
+      models = [await resolveModel(supabase, chat.model ?? profile?.selected_model ?? null, !!profile?.is_plus)];
     }
+    const model = models[0];
+    console.log('Using AI models:', models.map((m) => `${m.id} (${m.provider_model})`).join(', '));
 
-    // Check if message contains an image
-    const hasImage = processedMessages.some((msg: any) => msg.imageUrl);
+    // History comes from the database, never from the client: the branch ending at
+    // parent_id. Documents stay in context with every turn that carried them; earlier
+    // images are not resent, only the new turn's.
+    const { data: rows, error: historyError } = await supabase
+      .from('messages')
+      .select('id, parent_id, role, content, pinned, attachments:message_attachments(id, kind, storage_path, file_name, extracted_text)')
+      .eq('chat_id', chatId)
+      .order('created_at', { ascending: true });
 
-    // Get authorization header and check user limits
-    const authHeader = req.headers.get('Authorization');
-    let selectedModel = 'thetai-1.0-free';
-    
-    if (authHeader) {
-      const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
-      const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
-      const supabase = createClient(supabaseUrl, supabaseServiceKey);
-
-      // Extract JWT token and get user
-      const token = authHeader.replace('Bearer ', '');
-      const { data: { user }, error: userError } = await supabase.auth.getUser(token);
-
-      if (user && !userError) {
-        // Get user profile to check selected model and Plus status
-        const { data: profile } = await supabase
-          .from('profiles')
-          .select('selected_model, is_plus')
-          .eq('id', user.id)
-          .single();
+    if (historyError) throw historyError;
 
-        if (profile) {
-          // Validate model selection based on Plus status
-          const modelId = profile.selected_model || 'thetai-1.0-free';
-          const isPlusModel = modelId === 'thetai-1.0-nano' || modelId === 'thetai-1.0-omni';
-          
-          if (isPlusModel && !profile.is_plus) {
-            selectedModel = 'thetai-1.0-free';
-          } else {
-            selectedModel = modelId;
-          }
-        }
+    const history = branchPath((rows ?? []) as StoredMessage[], parentId);
+    const parent = history[history.length - 1];
 
-        // Check and increment usage with new limits
-        const { data: usageResult, error: usageError } = await supabase
-          .rpc('increment_message_usage', { _user_id: user.id, _has_image: hasImage });
-
-        if (usageError) {
-          console.error('Error checking usage limits:', usageError);
-        } else if (usageResult && !usageResult.allowed) {
-          if (usageResult.reason === 'messages_limit') {
-            return new Response(JSON.stringify({ 
-              error: 'messages_limit_exceeded',
-              message: 'Лимит сообщений исчерпан. Free: 50 сообщений / 6 часов, Plus: 1000 сообщений / 6 часов.',
-            }), {
-              status: 429,
-              headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-            });
-          }
-          if (usageResult.reason === 'images_prompt_limit') {
-            return new Response(JSON.stringify({ 
-              error: 'images_prompt_limit_exceeded',
-              message: 'Лимит изображений в промтах исчерпан. Free: 10 изображений / 6 часов, Plus: 100 изображений / 6 часов.',
-            }), {
-              status: 429,
-              headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-            });
-          }
-        }
+    if (parentId && !parent) {
+      return new Response(
+        JSON.stringify({ error: 'Parent message not found' }),
+        { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (isRegenerate && parent.role !== 'user') {
+      return new Response(
+        JSON.stringify({ error: 'Only replies to user messages can be regenerated' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
 
-        console.log('User usage check passed');
+    // Files of the turn being answered; a regenerated reply answers the existing user turn
+    const turnAttachments = (isRegenerate ? parent.attachments ?? [] : newAttachments ?? []) as MessageAttachment[];
+
+    // Check if the new turn contains an image
+    const hasImage = turnAttachments.some((a) => a.kind === 'image');
+
+    if (hasImage && models.some((m) => !m.capabilities.includes('vision'))) {
+      return new Response(
+        JSON.stringify({ error: 'images_not_supported' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Check and increment usage with new limits. A compared prompt costs every
+    // answer at its model's weight.
+    const answerCost = (m: ModelConfig) => compareModelIds ? Math.max(1, Math.ceil(m.cost_weight)) : 1;
+    const usageCost = models.reduce((sum, m) => sum + answerCost(m), 0);
+    const { data: usageResult, error: usageError } = await supabase
+      .rpc('increment_message_usage', { _user_id: user.id, _has_image: hasImage, _cost: usageCost });
+
+    if (usageError) {
+      console.error('Error checking usage limits:', usageError);
+    } else if (usageResult && !usageResult.allowed) {
+      if (usageResult.reason === 'messages_limit') {
+        return new Response(JSON.stringify({ 
+          error: 'messages_limit_exceeded',
+          message: 'Лимит сообщений исчерпан. Free: 50 сообщений / 6 часов, Plus: 1000 сообщений / 6 часов.',
+        }), {
+          status: 429,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+      if (usageResult.reason === 'tokens_limit' || usageResult.reason === 'credits_limit') {
+        return new Response(JSON.stringify({ 
+          error: 'tokens_limit_exceeded',
+          message: 'Лимит токенов исчерпан. Он восстановится через 6 часов после первого запроса.',
+        }), {
+          status: 429,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+      if (usageResult.reason === 'images_prompt_limit') {
+        return new Response(JSON.stringify({ 
+          error: 'images_prompt_limit_exceeded',
+          message: 'Лимит изображений в промтах исчерпан. Free: 10 изображений / 6 часов, Plus: 100 изображений / 6 часов.',
+        }), {
+          status: 429,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
       }
     }
-    
-    const aiModel = MODEL_MAP[selectedModel] || 'google/gemini-2.5-flash-lite';
-    const systemPrompt = MODEL_PERSONALITIES[selectedModel] || MODEL_PERSONALITIES['thetai-1.0-free'];
-    console.log('Using AI model:', aiModel, 'for ThetAI model:', selectedModel);
 
-    const LOVABLE_API_KEY = Deno.env.get('LOVABLE_API_KEY');
-    
-    if (!LOVABLE_API_KEY) {
-      throw new Error('LOVABLE_API_KEY is not configured');
+    console.log('User usage check passed');
+
+    // Chats that opt in get the closest knowledge base chunks for the latest user turn.
+    // Retrieval problems never block the reply.
+    let knowledge: KnowledgeChunk[] = [];
+    if (chat.use_knowledge) {
+      try {
+        knowledge = await retrieveKnowledge(supabase, user.id, isRegenerate ? parent.content : content);
+        console.log('Retrieved', knowledge.length, 'knowledge chunks');
+      } catch (error) {
+        console.error('Knowledge retrieval failed:', error);
+      }
+    }
+    const knowledgeContext = knowledge.length > 0 ? formatKnowledgeContext(knowledge) : null;
+
+    // Confirmed memories about the user go into every chat
+    let memoryContext: string | null = null;
+    try {
+      const memories = await loadActiveMemories(supabase, user.id);
+      if (memories.length > 0) memoryContext = formatMemories(memories);
+    } catch (error) {
+      console.error('Failed to load memories:', error);
     }
 
-    console.log('Processing chat request with', processedMessages.length, 'messages');
+    // The user's own instructions for this chat come right after the model's persona
+    const chatInstructions = chat.custom_instructions?.trim()
+      ? `The user gave these instructions for this conversation:\n${chat.custom_instructions.trim()}`
+      : null;
+
+    // Memories, excerpts and the artifact and chat instructions share the model's context
+    // budget with the history, which keeps at least half. Compared models share the smallest.
+    const contextTokens = Math.min(...models.map((m) => m.context_tokens));
+    const extraTokens = estimateTokens(memoryContext ?? '') + estimateTokens(knowledgeContext ?? '') +
+      estimateTokens(ARTIFACT_INSTRUCTIONS) + estimateTokens(chatInstructions ?? '');
+    const historyBudget = Math.max(contextTokens - extraTokens, Math.floor(contextTokens / 2));
+
+    // The documents of one turn take at most half the history budget, so even a turn
+    // carrying many of them fits the model's context with room to spare
+    const documentBudget = Math.floor(historyBudget / 2);
+
+    const toContext = (
+      msg: Pick<StoredMessage, 'role' | 'content'> & Partial<StoredMessage>,
+      attachments: MessageAttachment[],
+      withImages: boolean
+    ): ContextMessage => ({
+      id: msg.id,
+      role: msg.role,
+      content: withDocumentText(msg.content, attachments, documentBudget),
+      pinned: msg.pinned,
+      imagePaths: withImages
+        ? attachments.filter((a) => a.kind === 'image').map((a) => a.storage_path)
+        : undefined,
+    });
+
+    // A regenerated reply answers the existing user turn, including its images
+    const messages: ContextMessage[] = isRegenerate
+      ? [
+        ...history.slice(0, -1).map((m) => toContext(m, m.attachments ?? [], false)),
+        toContext(parent, turnAttachments, true),
+      ]
+      : [
+        ...history.map((m) => toContext(m, m.attachments ?? [], false)),
+        toContext({ role: 'user', content }, turnAttachments, true),
+      ];
+
+    const { data: summaries, error: summariesError } = await supabase
+      .from('chat_summaries')
+      .select('summary, through_message_id')
+      .eq('chat_id', chatId);
+
+    if (summariesError) console.error('Failed to load summaries:', summariesError);
+
+    // Keep recent turns and pinned messages verbatim, fold older turns into the summary
+    const context = await buildContext({
+      messages,
+      budgetTokens: historyBudget,
+      stored: summaries ?? [],
+      summarize: (previous, turns) => summarizeTurns(supabase, previous, turns),
+      onSummaryUpdated: async (updated) => {
+        const { error } = await supabase
+          .from('chat_summaries')
+          .upsert(
+            { chat_id: chatId, ...updated, updated_at: new Date().toISOString() },
+            { onConflict: 'chat_id,through_message_id' }
+          );
+        if (error) console.error('Failed to store summary:', error);
+      },
+    });
+
+    console.log('Processing chat request with', context.messages.length, 'of', messages.length, 'messages',
+      context.summary ? '(with summary)' : '');
 
-    // Build messages array with image support
-    const formattedMessages = processedMessages.map((msg: any) => {
-      if (msg.imageUrl) {
+    // Build messages array with image support; the provider fetches attachments
+    // through short-lived signed URLs
+    const formattedMessages = await Promise.all(context.messages.map(async (msg) => {
+      if (msg.imagePaths?.length) {
+        const imageUrls = await Promise.all(msg.imagePaths.map((path) => signAttachmentForModel(supabase, path)));
         return {
           role: msg.role,
           content: [
             { type: 'text', text: msg.content || 'Опиши это изображение' },
-            { type: 'image_url', image_url: { url: msg.imageUrl } }
+            ...imageUrls.map((url) => ({ type: 'image_url', image_url: { url } })),
           ]
         };
       }
       return { role: msg.role, content: msg.content };
-    });
+    }));
+
+    // Aborted when the user stops the reply, which the client signals by moving
+    // chats.stop_requested_at on; cancels the upstream call. A dropped connection stops
+    // nothing: the reply is stored in full and reaches the client through realtime.
+    const abort = new AbortController();
+    const stopWatch = setInterval(async () => {
+      const { data } = await supabase
+        .from('chats')
+        .select('stop_requested_at')
+        .eq('id', chatId)
+        .maybeSingle();
+      if (data && data.stop_requested_at !== chat.stop_requested_at) abort.abort();
+    }, STOP_POLL_MS);
+    const stopWatching = () => clearInterval(stopWatch);
+    abort.signal.addEventListener('abort', stopWatching);
+
+    // Gives back the message charged above: all of it for an answer that never came,
+    // the part a stopped answer didn't use by its completion tokens
+    const refundUsage = async (cost: number, completionTokens = 0) => {
+      const { error } = await supabase.rpc('refund_message_usage', {
+        _user_id: user.id,
+        _cost: cost,
+        _completion_tokens: completionTokens,
+      });
+      if (error) console.error('Failed to refund message usage:', error);
+    };
+
+    const promptFor = (m: ModelConfig) => [
+      { role: 'system', content: m.persona_prompt },
+      ...(chatInstructions ? [{ role: 'system', content: chatInstructions }] : []),
+      { role: 'system', content: ARTIFACT_INSTRUCTIONS },
+      ...(memoryContext ? [{ role: 'system', content: memoryContext }] : []),
+      ...(context.summary
+        ? [{ role: 'system', content: `Summary of the earlier part of this conversation:\n${context.summary}` }]
+        : []),
+      ...(knowledgeContext ? [{ role: 'system', content: knowledgeContext }] : []),
+      ...formattedMessages
+    ];
+
+    // Token counts of one answer, as reported by the provider or estimated
+    const tokensFor = (m: ModelConfig, result: RelayResult) => result.usage ?? estimateUsage(promptFor(m), result.content);
+
+    const completionFor = (m: ModelConfig) => chatCompletion({
+      model: m.provider_model,
+      messages: promptFor(m),
+      stream: true,
+      // Ask for token counts in the last chunk; providers that ignore it are estimated
+      stream_options: { include_usage: true },
+      // Left to the provider unless the chat sets it
+      ...(chat.temperature !== null ? { temperature: chat.temperature } : {}),
+    }, abort.signal);
+
+    // Background work runs after the stream so it doesn't hold it up
+    const runBackground = async (userMessageId: string | undefined, reply: string, truncated: boolean) => {
+      const background: Promise<void>[] = [];
+
+      // New user turns may hold facts worth remembering
+      if (!isRegenerate && !truncated && content.trim() && userMessageId) {
+        background.push(proposeMemories(supabase, user.id, userMessageId, content));
+      }
 
-    const response = await fetch('https://ai.gateway.lovable.dev/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${LOVABLE_API_KEY}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: aiModel,
-        messages: [
-          { role: 'system', content: systemPrompt },
-          ...formattedMessages
-        ],
-      }),
-    });
+      // The first exchange names the chat, unless it already has a title
+      if (!isRegenerate && !parentId && chat.title_source === 'default' && reply.trim()) {
+        background.push(generateChatTitle(supabase, chatId, content, reply));
+      }
+
+      if (background.length > 0) {
+        const running = Promise.all(background);
+        if (typeof EdgeRuntime !== 'undefined') {
+          EdgeRuntime.waitUntil(running);
+        } else {
+          await running;
+        }
+      }
+    };
+
+    const sources = knowledge.length > 0 ? toKnowledgeSources(knowledge) : null;
+
+    // Compare mode: relays the answers side by side, then stores the prompt and the
+    // answers, which wait for the user to pick one
+    const compareResponse = (upstreams: Response[], failed: boolean[]) => {
+      const { stream } = relayComparisonStreams(upstreams, async (results) => {
+        stopWatching();
+        const truncated = results.some((r) => r.truncated);
+        if (truncated) {
+          console.log('Compared replies stopped by the user');
+          // Failed answers were refunded when they dropped out
+          await Promise.all(results.map((result, i) => failed[i] ? undefined : refundUsage(
+            answerCost(models[i]),
+            tokensFor(models[i], result).completion_tokens
+          )));
+        }
+
+        const { data: stored, error: saveError } = await supabase.rpc('save_chat_exchange', {
+          _chat_id: chatId,
+          _parent_id: parentId,
+          _user_content: content,
+          _attachment_ids: attachmentIds,
+          _assistant_content: null,
+        });
+
+        if (saveError) throw saveError;
+
+        const { data: comparison, error: comparisonError } = await supabase
+          .from('model_comparisons')
+          .insert({
+            user_id: user.id,
+            chat_id: chatId,
+            user_message_id: stored.user_message.id,
+            answers: results.map((result, i) => ({
+              model: models[i].id,
+              persona_version: models[i].persona_version,
+              content: result.content,
+              truncated: result.truncated,
+              failed: failed[i] || (!result.content.trim() && !result.truncated),
+              ...(failed[i] ? {} : tokensFor(models[i], result)),
+            })),
+            sources,
+          })
+          .select('*')
+          .single();
+
+        if (comparisonError) throw comparisonError;
+        console.log('Comparison saved');
+
+        await Promise.all(results.map((result, i) => failed[i] ? undefined : recordUsage(supabase, {
+          userId: user.id,
+          model: models[i].id,
+          usage: tokensFor(models[i], result),
+          chatId,
+          comparisonId: comparison.id,
+        })));
+
+        await runBackground(stored.user_message.id, results.find((r) => r.content.trim())?.content ?? '', truncated);
+        return { user_message: stored.user_message, comparison };
+      }, abort);
+
+      return new Response(stream, {
+        headers: {
+          ...corsHeaders,
+          'Content-Type': 'text/event-stream',
+          'Cache-Control': 'no-cache',
+        },
+      });
+    };
+
+    let responses: Response[];
+    try {
+      responses = await Promise.all(models.map((m) => completionFor(m).catch((error) => {
+        // A compared model that can't be reached counts as failed, like an error status
+        if (!compareModelIds || abort.signal.aborted) throw error;
+        console.error('AI provider request failed for compared model:', m.id, error);
+        return new Response(null, { status: 502 });
+      })));
+    } catch (error) {
+      stopWatching();
+      if (!abort.signal.aborted) throw error;
+      console.log('Chat request cancelled before the reply started');
+      await refundUsage(usageCost);
+      return new Response(null, { status: 499, headers: corsHeaders });
+    }
+
+    // A compared model that fails drops out (and is refunded) as long as another answers
+    const failed = responses.map((r) => !r.ok);
+    if (compareModelIds && failed.some((f) => !f)) {
+      const failedCost = models.reduce((sum, m, i) => sum + (failed[i] ? answerCost(m) : 0), 0);
+      for (const [i, r] of responses.entries()) {
+        if (failed[i]) console.error('AI provider error for compared model:', models[i].id, r.status, await r.text());
+      }
+      if (failedCost > 0) await refundUsage(failedCost);
+      return compareResponse(responses.map((r, i) => (failed[i] ? new Response('') : r)), failed);
+    }
+
+    const response = responses.find((r) => !r.ok) ?? responses[0];
 
     if (!response.ok) {
+      stopWatching();
       const errorText = await response.text();
-      console.error('AI Gateway error:', response.status, errorText);
+      console.error('AI provider error:', response.status, errorText);
       
       if (response.status === 429) {
         return new Response(JSON.stringify({ error: 'Rate limit exceeded' }), {
@@ -229,16 +570,56 @@ serve(async (req) => {
         });
       }
       
-      throw new Error(`AI Gateway error: ${response.status}`);
+      throw new Error(`AI provider error: ${response.status}`);
     }
 
-    const data = await response.json();
-    const aiResponse = data.choices?.[0]?.message?.content || 'Извините, не удалось получить ответ.';
-
-    console.log('AI response received successfully');
+    console.log('AI stream started');
+
+    // Relay the stream to the client and store both turns once it ends. If the user
+    // stops the reply, whatever was generated so far is stored as truncated.
+    const { stream } = relayCompletionStream(response, async (result) => {
+      stopWatching();
+      const { content: reply, truncated } = result;
+      const tokens = tokensFor(model, result);
+      if (truncated) {
+        console.log('Chat reply stopped by the user');
+        await refundUsage(usageCost, tokens.completion_tokens);
+      }
 
-    return new Response(JSON.stringify({ response: aiResponse }), {
-      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      const { data: stored, error: saveError } = await supabase.rpc('save_chat_exchange', {
+        _chat_id: chatId,
+        _parent_id: parentId,
+        _user_content: isRegenerate ? null : content,
+        _attachment_ids: isRegenerate ? null : attachmentIds,
+        _assistant_content: reply || (truncated ? '' : 'Извините, не удалось получить ответ.'),
+        _truncated: truncated,
+        _sources: sources,
+        _model: model.id,
+        _persona_version: model.persona_version,
+      });
+
+      if (saveError) throw saveError;
+      console.log('Chat exchange saved');
+
+      await recordUsage(supabase, {
+        userId: user.id,
+        model: model.id,
+        usage: tokens,
+        chatId,
+        messageId: stored?.assistant_message?.id,
+      });
+      if (stored?.assistant_message) Object.assign(stored.assistant_message, tokens);
+
+      await runBackground(stored?.user_message?.id, reply, truncated);
+      return stored;
+    }, abort);
+
+    return new Response(stream, {
+      headers: {
+        ...corsHeaders,
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+      },
     });
 
   } catch (error) {
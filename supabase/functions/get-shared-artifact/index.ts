@@ -0,0 +1,52 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const SLUG_PATTERN = /^[A-Za-z0-9_-]{16,64}$/;
+
+// Public, unauthenticated read of a shared artifact. Revoked links are a 404 at once.
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const headers = { ...corsHeaders, 'Content-Type': 'application/json', 'Cache-Control': 'no-store' };
+
+  try {
+    const { slug } = await req.json() as { slug?: string };
+
+    if (typeof slug !== 'string' || !SLUG_PATTERN.test(slug)) {
+      return new Response(JSON.stringify({ error: 'not_found' }), { status: 404, headers });
+    }
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const { data: shared, error } = await supabase
+      .from('shared_artifacts')
+      .select('title, kind, content, created_at')
+      .eq('slug', slug)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!shared) {
+      return new Response(JSON.stringify({ error: 'not_found' }), { status: 404, headers });
+    }
+
+    return new Response(JSON.stringify(shared), { headers });
+
+  } catch (error) {
+    console.error('Get shared artifact error:', error);
+    return new Response(JSON.stringify({
+      error: error instanceof Error ? error.message : 'Unknown error'
+    }), {
+      status: 500,
+      headers,
+    });
+  }
+});
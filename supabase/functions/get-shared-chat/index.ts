@@ -0,0 +1,83 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { ATTACHMENTS_BUCKET } from "../_shared/attachments.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Viewers of a shared chat get attachment URLs that expire well before the page is stale
+const SHARED_URL_TTL_SECONDS = 60 * 60;
+const SLUG_PATTERN = /^[A-Za-z0-9_-]{16,64}$/;
+
+interface SharedAttachment {
+  storage_path: string;
+  [key: string]: unknown;
+}
+
+interface SharedMessage {
+  attachments?: SharedAttachment[];
+  [key: string]: unknown;
+}
+
+// Public, unauthenticated read of a share link's snapshot. A revoked (deleted)
+// link is a 404 right away since nothing here is cached.
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const headers = { ...corsHeaders, 'Content-Type': 'application/json', 'Cache-Control': 'no-store' };
+
+  try {
+    const { slug } = await req.json() as { slug?: string };
+
+    if (typeof slug !== 'string' || !SLUG_PATTERN.test(slug)) {
+      return new Response(JSON.stringify({ error: 'not_found' }), { status: 404, headers });
+    }
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const { data: shared, error } = await supabase
+      .from('shared_chats')
+      .select('title, messages, created_at')
+      .eq('slug', slug)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!shared) {
+      return new Response(JSON.stringify({ error: 'not_found' }), { status: 404, headers });
+    }
+
+    // The snapshot keeps object paths; swap them for signed URLs (inline images
+    // from before the attachments bucket pass through)
+    const messages = await Promise.all((shared.messages as SharedMessage[]).map(async (message) => ({
+      ...message,
+      attachments: await Promise.all((message.attachments ?? []).map(async (attachment) => {
+        if (attachment.storage_path.startsWith('data:')) return attachment;
+
+        const { data } = await supabase.storage
+          .from(ATTACHMENTS_BUCKET)
+          .createSignedUrl(attachment.storage_path, SHARED_URL_TTL_SECONDS);
+        return { ...attachment, storage_path: data?.signedUrl ?? '' };
+      })),
+    })));
+
+    return new Response(
+      JSON.stringify({ title: shared.title, created_at: shared.created_at, messages }),
+      { headers }
+    );
+
+  } catch (error) {
+    console.error('Get shared chat error:', error);
+    return new Response(JSON.stringify({
+      error: error instanceof Error ? error.message : 'Unknown error'
+    }), {
+      status: 500,
+      headers,
+    });
+  }
+});
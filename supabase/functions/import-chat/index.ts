@@ -0,0 +1,295 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import {
+  ATTACHMENTS_BUCKET,
+  MAX_ATTACHMENT_BYTES,
+  MAX_ATTACHMENTS_PER_MESSAGE,
+  classifyAttachment,
+  decodeDataUrl,
+  extractDocumentText,
+  storeAttachment,
+} from "../_shared/attachments.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const MAX_MESSAGES = 5000;
+const MAX_CONTENT_LENGTH = 200000;
+const INSERT_BATCH_SIZE = 500;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// One conversation, already converted by the client from a ChatGPT or ThetAI export.
+// Message ids are the source's ids and only link messages to their parents.
+interface ImportedAttachment {
+  file_name: string;
+  mime_type: string;
+  data: string;
+}
+
+interface ImportedMessage {
+  id: string;
+  parent_id: string | null;
+  role: 'user' | 'assistant';
+  content: string;
+  created_at: string;
+  pinned?: boolean;
+  truncated?: boolean;
+  sources?: unknown;
+  model?: string | null;
+  attachments?: ImportedAttachment[];
+}
+
+interface ImportedChat {
+  source: 'chatgpt' | 'thetai';
+  source_id: string;
+  title: string;
+  created_at: string;
+  updated_at: string;
+  messages: ImportedMessage[];
+}
+
+function validTimestamp(value: unknown, fallback: string): string {
+  if (typeof value !== 'string') return fallback;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? fallback : date.toISOString();
+}
+
+// Orders messages parents first and drops those that can't be reached from a root
+// (cycles); messages whose parent is missing become roots
+function parentsFirst(messages: ImportedMessage[]): ImportedMessage[] {
+  const ids = new Set(messages.map((m) => m.id));
+  const children = new Map<string | null, ImportedMessage[]>();
+  for (const message of messages) {
+    const key = message.parent_id && ids.has(message.parent_id) ? message.parent_id : null;
+    const list = children.get(key) ?? [];
+    list.push(message);
+    children.set(key, list);
+  }
+
+  const ordered: ImportedMessage[] = [];
+  const queue = [...(children.get(null) ?? [])];
+  const seen = new Set<string>();
+  while (queue.length > 0) {
+    const message = queue.shift()!;
+    if (seen.has(message.id)) continue;
+    seen.add(message.id);
+    ordered.push(message);
+    queue.push(...(children.get(message.id) ?? []));
+  }
+  return ordered;
+}
+
+// Creates a chat with its message tree (and attachments, for ThetAI exports) from an
+// imported conversation. Refuses conversations that were imported before.
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      return new Response(
+        JSON.stringify({ error: 'Authorization required' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const token = authHeader.replace('Bearer ', '');
+    const { data: { user }, error: userError } = await supabase.auth.getUser(token);
+
+    if (!user || userError) {
+      return new Response(
+        JSON.stringify({ error: 'Invalid user' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const { chat } = await req.json() as { chat?: ImportedChat };
+
+    if (
+      !chat ||
+      !['chatgpt', 'thetai'].includes(chat.source) ||
+      typeof chat.source_id !== 'string' || !chat.source_id ||
+      !Array.isArray(chat.messages)
+    ) {
+      return new Response(
+        JSON.stringify({ error: 'chat with source, source_id and messages is required' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (chat.messages.length > MAX_MESSAGES) {
+      return new Response(
+        JSON.stringify({ error: 'Too many messages' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const messages = chat.messages.filter((m) =>
+      m && typeof m.id === 'string' &&
+      (m.role === 'user' || m.role === 'assistant') &&
+      typeof m.content === 'string'
+    );
+
+    const { data: imported, error: importedError } = await supabase
+      .from('chats')
+      .select('id')
+      .eq('user_id', user.id)
+      .eq('import_source', chat.source)
+      .eq('import_id', chat.source_id)
+      .maybeSingle();
+
+    if (importedError) throw importedError;
+
+    // A ThetAI export re-imported into the account it came from still has its chat
+    const { data: original } = chat.source === 'thetai' && UUID_PATTERN.test(chat.source_id)
+      ? await supabase
+        .from('chats')
+        .select('id')
+        .eq('user_id', user.id)
+        .eq('id', chat.source_id)
+        .maybeSingle()
+      : { data: null };
+
+    const duplicate = imported ?? original;
+    if (duplicate) {
+      return new Response(
+        JSON.stringify({ error: 'already_imported', chat_id: duplicate.id }),
+        { status: 409, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const now = new Date().toISOString();
+    const createdAt = validTimestamp(chat.created_at, now);
+
+    const { data: created, error: chatError } = await supabase
+      .from('chats')
+      .insert({
+        user_id: user.id,
+        title: (typeof chat.title === 'string' && chat.title.trim() ? chat.title.trim() : 'Imported chat').slice(0, 200),
+        title_source: 'auto',
+        created_at: createdAt,
+        updated_at: validTimestamp(chat.updated_at, createdAt),
+        import_source: chat.source,
+        import_id: chat.source_id.slice(0, 200),
+      })
+      .select('id')
+      .single();
+
+    if (chatError) throw chatError;
+
+    // Files stored so far, removed again (and their quota given back) if the import fails
+    const storedPaths: string[] = [];
+    let storedBytes = 0;
+
+    try {
+      // New ids for the source ids, so parents can be linked within one insert
+      const newIds = new Map(messages.map((m) => [m.id, crypto.randomUUID()]));
+      const rows = parentsFirst(messages).map((m) => ({
+        id: newIds.get(m.id)!,
+        chat_id: created.id,
+        parent_id: m.parent_id ? newIds.get(m.parent_id) ?? null : null,
+        role: m.role,
+        content: m.content.slice(0, MAX_CONTENT_LENGTH),
+        pinned: m.pinned === true,
+        truncated: m.truncated === true,
+        sources: m.sources ?? null,
+        model: m.role === 'assistant' && typeof m.model === 'string' ? m.model.slice(0, 100) : null,
+        created_at: validTimestamp(m.created_at, createdAt),
+      }));
+
+      for (let i = 0; i < rows.length; i += INSERT_BATCH_SIZE) {
+        const { error } = await supabase.from('messages').insert(rows.slice(i, i + INSERT_BATCH_SIZE));
+        if (error) throw error;
+      }
+
+      // Attachments go through the storage quota; once it is used up the rest are skipped
+      let attachmentsImported = 0;
+      let attachmentsSkipped = 0;
+      let quotaReached = false;
+
+      const insertedIds = new Set(rows.map((r) => r.id));
+      for (const message of messages) {
+        const messageId = newIds.get(message.id)!;
+        if (!insertedIds.has(messageId)) continue;
+
+        for (const attachment of (message.attachments ?? []).slice(0, MAX_ATTACHMENTS_PER_MESSAGE)) {
+          const decoded = typeof attachment?.data === 'string' ? decodeDataUrl(attachment.data) : null;
+          const fileName = typeof attachment?.file_name === 'string' ? attachment.file_name.slice(0, 255) : 'file';
+          const classified = decoded ? classifyAttachment(fileName, decoded.contentType) : null;
+
+          if (quotaReached || !decoded || !classified || decoded.bytes.length > MAX_ATTACHMENT_BYTES) {
+            attachmentsSkipped++;
+            continue;
+          }
+
+          const result = await storeAttachment(supabase, user.id, decoded.bytes, decoded.contentType, {
+            extension: classified.extension,
+          });
+
+          if (result.error) {
+            quotaReached = true;
+            attachmentsSkipped++;
+            continue;
+          }
+          storedPaths.push(result.path);
+          storedBytes += decoded.bytes.length;
+
+          const { error } = await supabase.from('message_attachments').insert({
+            message_id: messageId,
+            user_id: user.id,
+            storage_path: result.path,
+            file_name: fileName || 'file',
+            mime_type: decoded.contentType,
+            kind: classified.kind,
+            size_bytes: decoded.bytes.length,
+            extracted_text: classified.kind === 'document'
+              ? await extractDocumentText(decoded.bytes, classified.extension)
+              : null,
+          });
+          if (error) throw error;
+          attachmentsImported++;
+        }
+      }
+
+      console.log('Chat imported:', created.id, chat.source, rows.length, 'messages',
+        attachmentsImported, 'attachments', attachmentsSkipped, 'skipped');
+
+      return new Response(
+        JSON.stringify({
+          chat_id: created.id,
+          messages: rows.length,
+          attachments: attachmentsImported,
+          attachments_skipped: attachmentsSkipped,
+        }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    } catch (error) {
+      // Don't leave a half-imported chat behind
+      await supabase.from('chats').delete().eq('id', created.id);
+      if (storedPaths.length > 0) {
+        await supabase.storage.from(ATTACHMENTS_BUCKET).remove(storedPaths);
+        const { error: usageError } = await supabase
+          .rpc('release_storage_usage', { _user_id: user.id, _bytes: storedBytes });
+        if (usageError) console.error('Failed to release attachment storage:', usageError);
+      }
+      throw error;
+    }
+
+  } catch (error) {
+    console.error('Import chat error:', error);
+    return new Response(JSON.stringify({
+      error: error instanceof Error ? error.message : 'Unknown error'
+    }), {
+      status: 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
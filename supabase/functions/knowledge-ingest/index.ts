@@ -0,0 +1,176 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import {
+  ATTACHMENTS_BUCKET,
+  MAX_ATTACHMENT_BYTES,
+  classifyAttachment,
+  extractDocumentText,
+  storeAttachment,
+} from "../_shared/attachments.ts";
+import { embedTexts } from "../_shared/embeddings.ts";
+import { chunkText } from "../_shared/knowledge.ts";
+
+// Supabase Edge Runtime global that keeps background work alive after the response ends
+declare const EdgeRuntime: { waitUntil(promise: Promise<unknown>): void } | undefined;
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Extracts, chunks and embeds a stored document, then marks it ready (or failed)
+async function processDocument(
+  supabase: SupabaseClient,
+  documentId: string,
+  userId: string,
+  bytes: Uint8Array,
+  extension: string
+) {
+  try {
+    const text = await extractDocumentText(bytes, extension);
+    if (!text) throw new Error('No text could be extracted from the document');
+
+    const chunks = chunkText(text);
+    const embeddings = await embedTexts(chunks);
+
+    const { error: chunksError } = await supabase
+      .from('knowledge_chunks')
+      .insert(chunks.map((content, index) => ({
+        document_id: documentId,
+        user_id: userId,
+        chunk_index: index,
+        content,
+        embedding: JSON.stringify(embeddings[index]),
+      })));
+
+    if (chunksError) throw chunksError;
+
+    await supabase
+      .from('knowledge_documents')
+      .update({ status: 'ready', chunk_count: chunks.length, error: null })
+      .eq('id', documentId);
+
+    console.log('Knowledge document ready:', documentId, chunks.length, 'chunks');
+  } catch (error) {
+    console.error('Knowledge ingestion failed for', documentId, error);
+    await supabase
+      .from('knowledge_documents')
+      .update({ status: 'failed', error: error instanceof Error ? error.message : 'Unknown error' })
+      .eq('id', documentId);
+  }
+}
+
+// Adds a document (multipart field `file`, optional `title`) to the user's knowledge
+// base. Responds right away with the document in `processing` state; chunking and
+// embedding continue in the background.
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      return new Response(
+        JSON.stringify({ error: 'Authorization required' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const token = authHeader.replace('Bearer ', '');
+    const { data: { user }, error: userError } = await supabase.auth.getUser(token);
+
+    if (!user || userError) {
+      return new Response(
+        JSON.stringify({ error: 'Invalid user' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const form = await req.formData();
+    const file = form.get('file');
+    const title = form.get('title');
+
+    if (!(file instanceof File)) {
+      return new Response(
+        JSON.stringify({ error: 'file is required' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const classified = classifyAttachment(file.name, file.type);
+    if (classified?.kind !== 'document') {
+      return new Response(
+        JSON.stringify({ error: 'unsupported_file_type' }),
+        { status: 415, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (file.size > MAX_ATTACHMENT_BYTES) {
+      return new Response(
+        JSON.stringify({ error: 'file_too_large', max_bytes: MAX_ATTACHMENT_BYTES }),
+        { status: 413, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const bytes = new Uint8Array(await file.arrayBuffer());
+    const mimeType = file.type || 'text/plain';
+    const stored = await storeAttachment(supabase, user.id, bytes, mimeType, {
+      extension: classified.extension,
+    });
+
+    if (stored.error) {
+      return new Response(
+        JSON.stringify({ error: stored.error }),
+        { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const { data: document, error: insertError } = await supabase
+      .from('knowledge_documents')
+      .insert({
+        user_id: user.id,
+        title: (typeof title === 'string' && title.trim() ? title.trim() : file.name).slice(0, 255),
+        file_name: file.name.slice(0, 255) || 'document',
+        mime_type: mimeType,
+        storage_path: stored.path,
+        size_bytes: bytes.length,
+      })
+      .select()
+      .single();
+
+    if (insertError) {
+      // Don't leave the file behind, or counted against the storage quota
+      await supabase.storage.from(ATTACHMENTS_BUCKET).remove([stored.path]);
+      const { error: usageError } = await supabase
+        .rpc('release_storage_usage', { _user_id: user.id, _bytes: bytes.length });
+      if (usageError) console.error('Failed to release document storage:', usageError);
+      throw insertError;
+    }
+
+    const processing = processDocument(supabase, document.id, user.id, bytes, classified.extension);
+    if (typeof EdgeRuntime !== 'undefined') {
+      EdgeRuntime.waitUntil(processing);
+    } else {
+      await processing;
+    }
+
+    return new Response(
+      JSON.stringify(document),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+
+  } catch (error) {
+    console.error('Knowledge ingest error:', error);
+    return new Response(JSON.stringify({
+      error: error instanceof Error ? error.message : 'Unknown error'
+    }), {
+      status: 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
@@ -0,0 +1,102 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { decodeDataUrl, storeAttachment } from "../_shared/attachments.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const DEFAULT_BATCH_SIZE = 25;
+
+// One-off maintenance job: moves message attachments still stored as base64 data URLs
+// (images sent before attachments lived in Storage) into the chat-attachments bucket.
+// Only callable with the service role key. Call it repeatedly, passing the returned
+// `next_after_id` as `after_id`, until it is null:
+//   curl -X POST -H "Authorization: Bearer $SERVICE_ROLE_KEY" -d '{"after_id": "..."}' \
+//     .../functions/v1/migrate-attachments
+// Rows that fail are reported in `failed` and skipped by the cursor.
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+    if (req.headers.get('Authorization') !== `Bearer ${supabaseServiceKey}`) {
+      return new Response(
+        JSON.stringify({ error: 'Service role required' }),
+        { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+    const { batch_size: batchSize = DEFAULT_BATCH_SIZE, after_id: afterId = null } =
+      await req.json().catch(() => ({})) as { batch_size?: number; after_id?: string | null };
+
+    let query = supabase
+      .from('message_attachments')
+      .select('id, user_id, storage_path')
+      .like('storage_path', 'data:%')
+      .order('id', { ascending: true })
+      .limit(batchSize);
+    if (afterId) query = query.gt('id', afterId);
+
+    const { data: rows, error } = await query;
+
+    if (error) throw error;
+
+    let migrated = 0;
+    const failed: string[] = [];
+
+    for (const row of rows ?? []) {
+      const decoded = decodeDataUrl(row.storage_path);
+
+      try {
+        if (!decoded) throw new Error('Malformed data URL');
+
+        // Existing attachments are moved even if they push the user over quota
+        const result = await storeAttachment(supabase, row.user_id, decoded.bytes, decoded.contentType, {
+          enforceQuota: false,
+        });
+        if (result.error) throw new Error(result.error);
+
+        const { error: updateError } = await supabase
+          .from('message_attachments')
+          .update({ storage_path: result.path, size_bytes: decoded.bytes.length })
+          .eq('id', row.id);
+        if (updateError) throw updateError;
+
+        migrated++;
+      } catch (rowError) {
+        console.error('Failed to migrate attachment', row.id, rowError);
+        failed.push(row.id);
+      }
+    }
+
+    const { count: remaining } = await supabase
+      .from('message_attachments')
+      .select('id', { count: 'exact', head: true })
+      .like('storage_path', 'data:%');
+
+    console.log('Migrated', migrated, 'attachments,', remaining, 'remaining');
+
+    const nextAfterId = rows && rows.length === batchSize ? rows[rows.length - 1].id : null;
+
+    return new Response(
+      JSON.stringify({ migrated, failed, remaining, next_after_id: nextAfterId }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+
+  } catch (error) {
+    console.error('Migrate attachments error:', error);
+    return new Response(JSON.stringify({
+      error: error instanceof Error ? error.message : 'Unknown error'
+    }), {
+      status: 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
@@ -0,0 +1,120 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import {
+  MAX_ATTACHMENT_BYTES,
+  classifyAttachment,
+  extractDocumentText,
+  storeAttachment,
+} from "../_shared/attachments.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Stores a chat attachment sent as multipart form data (field `file`): an image, or a
+// text/PDF/code document whose text is extracted for the model. Returns the new
+// message_attachments row; the chat function links it via message.attachmentIds.
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      return new Response(
+        JSON.stringify({ error: 'Authorization required' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const token = authHeader.replace('Bearer ', '');
+    const { data: { user }, error: userError } = await supabase.auth.getUser(token);
+
+    if (!user || userError) {
+      return new Response(
+        JSON.stringify({ error: 'Invalid user' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const form = await req.formData();
+    const file = form.get('file');
+
+    if (!(file instanceof File)) {
+      return new Response(
+        JSON.stringify({ error: 'file is required' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const classified = classifyAttachment(file.name, file.type);
+    if (!classified) {
+      return new Response(
+        JSON.stringify({ error: 'unsupported_file_type' }),
+        { status: 415, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (file.size > MAX_ATTACHMENT_BYTES) {
+      return new Response(
+        JSON.stringify({ error: 'file_too_large', max_bytes: MAX_ATTACHMENT_BYTES }),
+        { status: 413, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const bytes = new Uint8Array(await file.arrayBuffer());
+    const mimeType = file.type || 'text/plain';
+    const result = await storeAttachment(supabase, user.id, bytes, mimeType, {
+      extension: classified.extension,
+    });
+
+    if (result.error) {
+      return new Response(
+        JSON.stringify({ error: result.error }),
+        { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const extractedText = classified.kind === 'document'
+      ? await extractDocumentText(bytes, classified.extension)
+      : null;
+
+    const { data: attachment, error: insertError } = await supabase
+      .from('message_attachments')
+      .insert({
+        user_id: user.id,
+        storage_path: result.path,
+        file_name: file.name.slice(0, 255) || 'file',
+        mime_type: mimeType,
+        kind: classified.kind,
+        size_bytes: bytes.length,
+        extracted_text: extractedText,
+      })
+      .select('id, message_id, storage_path, file_name, mime_type, kind, size_bytes, created_at')
+      .single();
+
+    if (insertError) throw insertError;
+
+    console.log('Attachment stored:', result.path, classified.kind, file.size, 'bytes');
+
+    return new Response(
+      JSON.stringify(attachment),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+
+  } catch (error) {
+    console.error('Upload attachment error:', error);
+    return new Response(JSON.stringify({
+      error: error instanceof Error ? error.message : 'Unknown error'
+    }), {
+      status: 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
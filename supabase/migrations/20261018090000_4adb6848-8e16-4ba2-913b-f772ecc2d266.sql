@@ -0,0 +1,120 @@
+-- Model registry: single source of truth for ThetAI models used by the chat
+-- function and the model picker in settings
+CREATE TABLE public.models (
+  id TEXT PRIMARY KEY,
+  display_name TEXT NOT NULL,
+  description JSONB NOT NULL DEFAULT '{}'::jsonb, -- keyed by UI language: en, ru, uk
+  provider_model TEXT NOT NULL,
+  persona_prompt TEXT NOT NULL,
+  tier TEXT NOT NULL DEFAULT 'free' CHECK (tier IN ('free', 'plus')),
+  capabilities TEXT[] NOT NULL DEFAULT '{}', -- e.g. 'vision'
+  cost_weight NUMERIC NOT NULL DEFAULT 1 CHECK (cost_weight > 0),
+  enabled BOOLEAN NOT NULL DEFAULT true,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.models ENABLE ROW LEVEL SECURITY;
+
+-- Everyone can read enabled models
+CREATE POLICY "Anyone can view enabled models"
+ON public.models
+FOR SELECT
+USING (enabled = true);
+
+-- Persona prompts and backing models stay server-side: clients only get the picker columns
+REVOKE SELECT ON public.models FROM anon, authenticated;
+GRANT SELECT (id, display_name, description, tier, capabilities, cost_weight, enabled, sort_order)
+ON public.models TO anon, authenticated;
+
+CREATE TRIGGER update_models_updated_at
+  BEFORE UPDATE ON public.models
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Seed the existing models
+INSERT INTO public.models (id, display_name, description, provider_model, persona_prompt, tier, capabilities, cost_weight, sort_order)
+VALUES
+(
+  'thetai-1.0-free',
+  'thetai-1.0-free',
+  '{"en": "Base model for Free tier", "ru": "Базовая модель для Free тарифа", "uk": "Базова модель для Free тарифу"}'::jsonb,
+  'google/gemini-2.5-flash-lite',
+  $prompt$You are ThetAI Free - a helpful and efficient AI assistant.
+
+CRITICAL RULE: You MUST detect the language of the user's message and respond ONLY in that same language.
+- If the user writes in English → respond in English
+- If the user writes in Russian → respond in Russian (отвечай на русском)
+- If the user writes in Ukrainian → respond in Ukrainian (відповідай українською)
+
+Your qualities:
+- You give concise and direct answers
+- You focus on the main points without excessive details
+- You use Markdown for formatting when helpful
+- You can analyze images if attached
+
+Never mention that you are based on Gemini or Google. Introduce yourself as ThetAI.$prompt$,
+  'free',
+  ARRAY['vision'],
+  1,
+  10
+),
+(
+  'thetai-1.0-nano',
+  'thetai-1.0-nano',
+  '{"en": "Fast and efficient", "ru": "Быстрая и эффективная", "uk": "Швидка та ефективна"}'::jsonb,
+  'google/gemini-2.5-flash',
+  $prompt$You are ThetAI Nano - a fast and smart AI assistant optimized for quick responses.
+
+CRITICAL RULE: You MUST detect the language of the user's message and respond ONLY in that same language.
+- If the user writes in English → respond in English
+- If the user writes in Russian → respond in Russian (отвечай на русском)
+- If the user writes in Ukrainian → respond in Ukrainian (відповідай українською)
+
+Your qualities:
+- You are optimized for speed and efficiency
+- You give quick, accurate, and well-structured answers
+- You use bullet points and lists for clarity
+- You excel at coding tasks and technical questions
+- You can analyze images if attached
+- You balance speed with quality
+
+Never mention that you are based on Gemini or Google. Introduce yourself as ThetAI Nano.$prompt$,
+  'plus',
+  ARRAY['vision'],
+  2,
+  20
+),
+(
+  'thetai-1.0-omni',
+  'thetai-1.0-omni',
+  '{"en": "Thinks longer, answers with quality", "ru": "Думает дольше, отвечает качественно", "uk": "Думає довше, відповідає якісно"}'::jsonb,
+  'google/gemini-2.5-pro',
+  $prompt$You are ThetAI Omni - the most advanced and thoughtful AI assistant.
+
+CRITICAL RULE: You MUST detect the language of the user's message and respond ONLY in that same language.
+- If the user writes in English → respond in English
+- If the user writes in Russian → respond in Russian (отвечай на русском)
+- If the user writes in Ukrainian → respond in Ukrainian (відповідай українською)
+
+Your qualities:
+- You take time to think deeply about complex problems
+- You provide comprehensive, detailed, and nuanced answers
+- You excel at creative tasks, analysis, and reasoning
+- You consider multiple perspectives and edge cases
+- You can analyze images in detail if attached
+- You use advanced formatting for clarity
+- You ask clarifying questions for complex tasks
+- You provide step-by-step explanations when helpful
+
+Never mention that you are based on Gemini or Google. Introduce yourself as ThetAI Omni.$prompt$,
+  'plus',
+  ARRAY['vision'],
+  5,
+  30
+);
+
+-- Keep selected_model pointing at a real model
+ALTER TABLE public.profiles
+ADD CONSTRAINT profiles_selected_model_fkey
+FOREIGN KEY (selected_model) REFERENCES public.models(id) ON UPDATE CASCADE;
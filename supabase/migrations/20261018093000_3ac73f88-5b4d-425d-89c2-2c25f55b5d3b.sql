@@ -0,0 +1,39 @@
+-- Token budget for conversation history per model
+ALTER TABLE public.models
+ADD COLUMN context_tokens INTEGER NOT NULL DEFAULT 8000 CHECK (context_tokens > 0);
+
+UPDATE public.models SET context_tokens = 8000 WHERE id = 'thetai-1.0-free';
+UPDATE public.models SET context_tokens = 16000 WHERE id = 'thetai-1.0-nano';
+UPDATE public.models SET context_tokens = 32000 WHERE id = 'thetai-1.0-omni';
+
+-- Rolling summaries of older turns, maintained by the chat function. Chat history is
+-- a tree, so each summary covers the branch up to and including one message and is
+-- reused by every branch that continues from there.
+CREATE TABLE public.chat_summaries (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  chat_id UUID NOT NULL REFERENCES public.chats(id) ON DELETE CASCADE,
+  through_message_id UUID NOT NULL REFERENCES public.messages(id) ON DELETE CASCADE,
+  summary TEXT NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (chat_id, through_message_id)
+);
+
+-- Only the chat function reads and writes summaries
+ALTER TABLE public.chat_summaries ENABLE ROW LEVEL SECURITY;
+
+-- Pinned messages are always sent to the model verbatim
+ALTER TABLE public.messages
+ADD COLUMN pinned BOOLEAN NOT NULL DEFAULT false;
+
+-- Pinning is the only change clients may make to a message: the chat function feeds
+-- stored rows to the model as history, so content, role and links stay server-written
+REVOKE UPDATE ON public.messages FROM anon, authenticated;
+GRANT UPDATE (pinned) ON public.messages TO authenticated;
+
+CREATE POLICY "Users can pin messages in own chats" ON public.messages
+  FOR UPDATE USING (
+    EXISTS (SELECT 1 FROM public.chats WHERE chats.id = messages.chat_id AND chats.user_id = auth.uid())
+  )
+  WITH CHECK (
+    EXISTS (SELECT 1 FROM public.chats WHERE chats.id = messages.chat_id AND chats.user_id = auth.uid())
+  );
@@ -0,0 +1,41 @@
+-- Stores a user turn and the assistant reply in one transaction.
+-- Called by the chat function (service role) once the reply has finished streaming.
+CREATE OR REPLACE FUNCTION public.save_chat_exchange(
+  _chat_id uuid,
+  _user_content text,
+  _user_image_url text,
+  _assistant_content text
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_message messages%ROWTYPE;
+  _assistant_message messages%ROWTYPE;
+BEGIN
+  INSERT INTO messages (chat_id, role, content, image_url)
+  VALUES (_chat_id, 'user', _user_content, _user_image_url)
+  RETURNING * INTO _user_message;
+
+  -- Make sure the reply sorts after the user turn even within the same transaction
+  INSERT INTO messages (chat_id, role, content, created_at)
+  VALUES (_chat_id, 'assistant', _assistant_content, clock_timestamp())
+  RETURNING * INTO _assistant_message;
+
+  -- Bump the chat in the sidebar
+  UPDATE chats SET updated_at = now() WHERE id = _chat_id;
+
+  RETURN jsonb_build_object(
+    'user_message', to_jsonb(_user_message),
+    'assistant_message', to_jsonb(_assistant_message)
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.save_chat_exchange(uuid, text, text, text) FROM PUBLIC, anon, authenticated;
+
+-- Messages are written by the chat function only; a client-inserted assistant turn
+-- would be sent to the model as real history
+DROP POLICY IF EXISTS "Users can create messages in own chats" ON public.messages;
@@ -0,0 +1,61 @@
+-- Messages form a tree: every message points at the turn it answers or follows.
+-- Regenerated answers and edited prompts become siblings under the same parent.
+ALTER TABLE public.messages
+ADD COLUMN parent_id UUID REFERENCES public.messages(id) ON DELETE CASCADE;
+
+CREATE INDEX idx_messages_parent_id ON public.messages(parent_id);
+
+-- Existing chats are linear: chain each message to the one before it
+UPDATE public.messages m
+SET parent_id = prev.prev_id
+FROM (
+  SELECT id, LAG(id) OVER (PARTITION BY chat_id ORDER BY created_at, id) AS prev_id
+  FROM public.messages
+) prev
+WHERE prev.id = m.id AND prev.prev_id IS NOT NULL;
+
+-- Replace save_chat_exchange with a branch-aware version. With a NULL user turn
+-- only a new assistant reply to _parent_id is stored (regeneration).
+DROP FUNCTION IF EXISTS public.save_chat_exchange(uuid, text, text, text);
+
+CREATE OR REPLACE FUNCTION public.save_chat_exchange(
+  _chat_id uuid,
+  _parent_id uuid,
+  _user_content text,
+  _user_image_url text,
+  _assistant_content text
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_message messages%ROWTYPE;
+  _assistant_message messages%ROWTYPE;
+  _reply_parent_id uuid := _parent_id;
+BEGIN
+  IF _user_content IS NOT NULL THEN
+    INSERT INTO messages (chat_id, parent_id, role, content, image_url)
+    VALUES (_chat_id, _parent_id, 'user', _user_content, _user_image_url)
+    RETURNING * INTO _user_message;
+
+    _reply_parent_id := _user_message.id;
+  END IF;
+
+  -- Make sure the reply sorts after the user turn even within the same transaction
+  INSERT INTO messages (chat_id, parent_id, role, content, created_at)
+  VALUES (_chat_id, _reply_parent_id, 'assistant', _assistant_content, clock_timestamp())
+  RETURNING * INTO _assistant_message;
+
+  -- Bump the chat in the sidebar
+  UPDATE chats SET updated_at = now() WHERE id = _chat_id;
+
+  RETURN jsonb_build_object(
+    'user_message', CASE WHEN _user_content IS NOT NULL THEN to_jsonb(_user_message) END,
+    'assistant_message', to_jsonb(_assistant_message)
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.save_chat_exchange(uuid, uuid, text, text, text) FROM PUBLIC, anon, authenticated;
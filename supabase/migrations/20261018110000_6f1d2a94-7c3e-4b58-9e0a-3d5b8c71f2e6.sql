@@ -0,0 +1,66 @@
+-- Replies cut short by the user (stop button) keep their
+-- partial text and are flagged so the UI can mark them.
+ALTER TABLE public.messages
+ADD COLUMN truncated BOOLEAN NOT NULL DEFAULT false;
+
+DROP FUNCTION IF EXISTS public.save_chat_exchange(uuid, uuid, text, text, text);
+
+CREATE OR REPLACE FUNCTION public.save_chat_exchange(
+  _chat_id uuid,
+  _parent_id uuid,
+  _user_content text,
+  _user_image_url text,
+  _assistant_content text,
+  _truncated boolean DEFAULT false
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_message messages%ROWTYPE;
+  _assistant_message messages%ROWTYPE;
+  _reply_parent_id uuid := _parent_id;
+BEGIN
+  IF _user_content IS NOT NULL THEN
+    INSERT INTO messages (chat_id, parent_id, role, content, image_url)
+    VALUES (_chat_id, _parent_id, 'user', _user_content, _user_image_url)
+    RETURNING * INTO _user_message;
+
+    _reply_parent_id := _user_message.id;
+  END IF;
+
+  -- Make sure the reply sorts after the user turn even within the same transaction
+  INSERT INTO messages (chat_id, parent_id, role, content, truncated, created_at)
+  VALUES (_chat_id, _reply_parent_id, 'assistant', _assistant_content, _truncated, clock_timestamp())
+  RETURNING * INTO _assistant_message;
+
+  -- Bump the chat in the sidebar
+  UPDATE chats SET updated_at = now() WHERE id = _chat_id;
+
+  RETURN jsonb_build_object(
+    'user_message', CASE WHEN _user_content IS NOT NULL THEN to_jsonb(_user_message) END,
+    'assistant_message', to_jsonb(_assistant_message)
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.save_chat_exchange(uuid, uuid, text, text, text, boolean) FROM PUBLIC, anon, authenticated;
+
+-- Gives back the message charged by increment_message_usage when the user stops
+-- the reply. Images sent with the prompt were already processed and stay counted.
+CREATE OR REPLACE FUNCTION public.refund_message_usage(_user_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.profiles
+  SET messages_used = GREATEST(messages_used - 1, 0)
+  WHERE id = _user_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.refund_message_usage(uuid) FROM PUBLIC, anon, authenticated;
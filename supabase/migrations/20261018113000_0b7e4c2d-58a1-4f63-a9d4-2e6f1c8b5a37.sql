@@ -0,0 +1,22 @@
+-- Private bucket for chat attachments. Uploads go through the upload-attachment
+-- function (which enforces the storage quota); owners may only read their folder,
+-- which is what creating signed URLs from the client requires.
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'chat-attachments',
+  'chat-attachments',
+  false,
+  10485760,
+  ARRAY['image/png', 'image/jpeg', 'image/gif', 'image/webp']
+);
+
+CREATE POLICY "Users can view own chat attachments"
+ON storage.objects FOR SELECT
+USING (bucket_id = 'chat-attachments' AND auth.uid()::text = (storage.foldername(name))[1]);
+
+-- messages.image_url now holds an object path in chat-attachments. Rows that still
+-- carry base64 data URLs are moved by the migrate-attachments function.
+COMMENT ON COLUMN public.messages.image_url IS 'Object path in the chat-attachments bucket';
+
+CREATE INDEX idx_messages_data_url_images ON public.messages(id)
+WHERE image_url LIKE 'data:%';
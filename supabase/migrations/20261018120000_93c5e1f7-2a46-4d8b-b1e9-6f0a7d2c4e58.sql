@@ -0,0 +1,130 @@
+-- Files attached to messages: several per message, images as well as documents
+-- (text, PDF, code) whose text is extracted on upload and fed to the model.
+-- Files are uploaded before the message exists, so message_id is set when the
+-- chat function stores the turn.
+CREATE TABLE public.message_attachments (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  message_id UUID REFERENCES public.messages(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL,
+  storage_path TEXT NOT NULL,
+  file_name TEXT NOT NULL,
+  mime_type TEXT NOT NULL,
+  kind TEXT NOT NULL CHECK (kind IN ('image', 'document')),
+  size_bytes INTEGER NOT NULL DEFAULT 0,
+  extracted_text TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_message_attachments_message_id ON public.message_attachments(message_id);
+CREATE INDEX idx_message_attachments_user_id ON public.message_attachments(user_id);
+
+ALTER TABLE public.message_attachments ENABLE ROW LEVEL SECURITY;
+
+-- Rows are written by the edge functions only
+CREATE POLICY "Users can view own attachments"
+ON public.message_attachments
+FOR SELECT
+USING (auth.uid() = user_id);
+
+-- Move the single image of existing messages into the new table. Rows still holding
+-- a data URL keep it as storage_path until migrate-attachments uploads them.
+INSERT INTO public.message_attachments (message_id, user_id, storage_path, file_name, mime_type, kind, size_bytes, created_at)
+SELECT
+  m.id,
+  c.user_id,
+  m.image_url,
+  'image',
+  CASE
+    WHEN m.image_url LIKE 'data:%' THEN substring(m.image_url FROM '^data:([^;,]+)')
+    WHEN m.image_url ~* '\.jpe?g$' THEN 'image/jpeg'
+    WHEN m.image_url ~* '\.gif$' THEN 'image/gif'
+    WHEN m.image_url ~* '\.webp$' THEN 'image/webp'
+    ELSE 'image/png'
+  END,
+  'image',
+  COALESCE((o.metadata->>'size')::integer, 0),
+  m.created_at
+FROM public.messages m
+JOIN public.chats c ON c.id = m.chat_id
+LEFT JOIN storage.objects o ON o.bucket_id = 'chat-attachments' AND o.name = m.image_url
+WHERE m.image_url IS NOT NULL;
+
+CREATE INDEX idx_message_attachments_data_urls ON public.message_attachments(id)
+WHERE storage_path LIKE 'data:%';
+
+-- Documents come in many content types; the upload-attachment function decides
+-- what is accepted
+UPDATE storage.buckets SET allowed_mime_types = NULL WHERE id = 'chat-attachments';
+
+DROP FUNCTION IF EXISTS public.save_chat_exchange(uuid, uuid, text, text, text, boolean);
+
+DROP INDEX IF EXISTS public.idx_messages_data_url_images;
+ALTER TABLE public.messages DROP COLUMN image_url;
+
+-- Stores a user turn (linking its uploaded attachments) and the assistant reply.
+-- Attachments that already belong to another message (an edited prompt keeps the
+-- original files) are copied onto the new one.
+CREATE OR REPLACE FUNCTION public.save_chat_exchange(
+  _chat_id uuid,
+  _parent_id uuid,
+  _user_content text,
+  _attachment_ids uuid[],
+  _assistant_content text,
+  _truncated boolean DEFAULT false
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _owner_id uuid;
+  _user_message messages%ROWTYPE;
+  _assistant_message messages%ROWTYPE;
+  _reply_parent_id uuid := _parent_id;
+  _attachments jsonb := '[]'::jsonb;
+BEGIN
+  SELECT user_id INTO _owner_id FROM chats WHERE id = _chat_id;
+
+  IF _user_content IS NOT NULL THEN
+    INSERT INTO messages (chat_id, parent_id, role, content)
+    VALUES (_chat_id, _parent_id, 'user', _user_content)
+    RETURNING * INTO _user_message;
+
+    _reply_parent_id := _user_message.id;
+
+    IF _attachment_ids IS NOT NULL THEN
+      INSERT INTO message_attachments (message_id, user_id, storage_path, file_name, mime_type, kind, size_bytes, extracted_text)
+      SELECT _user_message.id, user_id, storage_path, file_name, mime_type, kind, size_bytes, extracted_text
+      FROM message_attachments
+      WHERE id = ANY(_attachment_ids) AND user_id = _owner_id AND message_id IS NOT NULL;
+
+      UPDATE message_attachments
+      SET message_id = _user_message.id
+      WHERE id = ANY(_attachment_ids) AND user_id = _owner_id AND message_id IS NULL;
+    END IF;
+
+    SELECT COALESCE(jsonb_agg(to_jsonb(a) - 'extracted_text' ORDER BY a.created_at), '[]'::jsonb)
+    INTO _attachments
+    FROM message_attachments a
+    WHERE a.message_id = _user_message.id;
+  END IF;
+
+  -- Make sure the reply sorts after the user turn even within the same transaction
+  INSERT INTO messages (chat_id, parent_id, role, content, truncated, created_at)
+  VALUES (_chat_id, _reply_parent_id, 'assistant', _assistant_content, _truncated, clock_timestamp())
+  RETURNING * INTO _assistant_message;
+
+  -- Bump the chat in the sidebar
+  UPDATE chats SET updated_at = now() WHERE id = _chat_id;
+
+  RETURN jsonb_build_object(
+    'user_message', CASE
+      WHEN _user_content IS NOT NULL THEN to_jsonb(_user_message) || jsonb_build_object('attachments', _attachments)
+    END,
+    'assistant_message', to_jsonb(_assistant_message) || jsonb_build_object('attachments', '[]'::jsonb)
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.save_chat_exchange(uuid, uuid, text, uuid[], text, boolean) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,208 @@
+-- Personal knowledge base: documents a user uploads once, split into chunks with
+-- embeddings, retrieved into chats that opt in.
+CREATE EXTENSION IF NOT EXISTS vector WITH SCHEMA extensions;
+
+CREATE TABLE public.knowledge_documents (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  title TEXT NOT NULL,
+  file_name TEXT NOT NULL,
+  mime_type TEXT NOT NULL,
+  storage_path TEXT NOT NULL,
+  size_bytes INTEGER NOT NULL DEFAULT 0,
+  status TEXT NOT NULL DEFAULT 'processing' CHECK (status IN ('processing', 'ready', 'failed')),
+  error TEXT,
+  chunk_count INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_knowledge_documents_user_id ON public.knowledge_documents(user_id);
+
+ALTER TABLE public.knowledge_documents ENABLE ROW LEVEL SECURITY;
+
+-- Documents are created by the knowledge-ingest function
+CREATE POLICY "Users can view own knowledge documents"
+ON public.knowledge_documents
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_knowledge_documents_updated_at
+BEFORE UPDATE ON public.knowledge_documents
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Embedding size is fixed by the column; every embedding provider is configured to
+-- return 768 dimensions
+CREATE TABLE public.knowledge_chunks (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  document_id UUID NOT NULL REFERENCES public.knowledge_documents(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL,
+  chunk_index INTEGER NOT NULL,
+  content TEXT NOT NULL,
+  embedding extensions.vector(768) NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_knowledge_chunks_document_id ON public.knowledge_chunks(document_id);
+CREATE INDEX idx_knowledge_chunks_user_id ON public.knowledge_chunks(user_id);
+CREATE INDEX idx_knowledge_chunks_embedding ON public.knowledge_chunks
+USING hnsw (embedding extensions.vector_cosine_ops);
+
+-- Chunks are only read through match_knowledge_chunks by the chat function
+ALTER TABLE public.knowledge_chunks ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION public.match_knowledge_chunks(
+  _user_id uuid,
+  _query_embedding extensions.vector(768),
+  _match_count integer DEFAULT 5,
+  _min_similarity double precision DEFAULT 0.3
+)
+RETURNS TABLE (
+  id uuid,
+  document_id uuid,
+  title text,
+  chunk_index integer,
+  content text,
+  similarity double precision
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+  SELECT c.id, c.document_id, d.title, c.chunk_index, c.content,
+    1 - (c.embedding <=> _query_embedding) AS similarity
+  FROM knowledge_chunks c
+  JOIN knowledge_documents d ON d.id = c.document_id
+  WHERE c.user_id = _user_id
+    AND d.status = 'ready'
+    AND 1 - (c.embedding <=> _query_embedding) >= _min_similarity
+  ORDER BY c.embedding <=> _query_embedding
+  LIMIT _match_count;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.match_knowledge_chunks(uuid, extensions.vector, integer, double precision) FROM PUBLIC, anon, authenticated;
+
+-- Chats opt in to knowledge retrieval
+ALTER TABLE public.chats
+ADD COLUMN use_knowledge BOOLEAN NOT NULL DEFAULT false;
+
+-- Knowledge chunks an assistant reply was grounded on:
+-- [{ "chunk_id", "document_id", "title", "chunk_index", "similarity" }]
+ALTER TABLE public.messages
+ADD COLUMN sources JSONB;
+
+-- Owners may remove the files behind their knowledge documents
+CREATE POLICY "Users can delete own chat attachments"
+ON storage.objects FOR DELETE
+USING (bucket_id = 'chat-attachments' AND auth.uid()::text = (storage.foldername(name))[1]);
+
+-- Gives back storage counted by increment_storage_usage once the file is gone
+CREATE OR REPLACE FUNCTION public.release_storage_usage(_user_id uuid, _bytes bigint)
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE public.profiles
+  SET storage_used_bytes = GREATEST(storage_used_bytes - GREATEST(_bytes, 0), 0)
+  WHERE id = _user_id;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.release_storage_usage(uuid, bigint) FROM PUBLIC, anon, authenticated;
+
+-- Deletes a knowledge document (chunks cascade) and releases its storage. Returns
+-- the file's path for the caller to remove from the bucket.
+CREATE OR REPLACE FUNCTION public.delete_knowledge_document(_document_id uuid)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _document knowledge_documents%ROWTYPE;
+BEGIN
+  DELETE FROM knowledge_documents
+  WHERE id = _document_id AND user_id = auth.uid()
+  RETURNING * INTO _document;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Document not found';
+  END IF;
+
+  PERFORM release_storage_usage(_document.user_id, _document.size_bytes);
+  RETURN _document.storage_path;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.delete_knowledge_document(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.delete_knowledge_document(uuid) TO authenticated;
+
+DROP FUNCTION IF EXISTS public.save_chat_exchange(uuid, uuid, text, uuid[], text, boolean);
+
+CREATE OR REPLACE FUNCTION public.save_chat_exchange(
+  _chat_id uuid,
+  _parent_id uuid,
+  _user_content text,
+  _attachment_ids uuid[],
+  _assistant_content text,
+  _truncated boolean DEFAULT false,
+  _sources jsonb DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _owner_id uuid;
+  _user_message messages%ROWTYPE;
+  _assistant_message messages%ROWTYPE;
+  _reply_parent_id uuid := _parent_id;
+  _attachments jsonb := '[]'::jsonb;
+BEGIN
+  SELECT user_id INTO _owner_id FROM chats WHERE id = _chat_id;
+
+  IF _user_content IS NOT NULL THEN
+    INSERT INTO messages (chat_id, parent_id, role, content)
+    VALUES (_chat_id, _parent_id, 'user', _user_content)
+    RETURNING * INTO _user_message;
+
+    _reply_parent_id := _user_message.id;
+
+    IF _attachment_ids IS NOT NULL THEN
+      INSERT INTO message_attachments (message_id, user_id, storage_path, file_name, mime_type, kind, size_bytes, extracted_text)
+      SELECT _user_message.id, user_id, storage_path, file_name, mime_type, kind, size_bytes, extracted_text
+      FROM message_attachments
+      WHERE id = ANY(_attachment_ids) AND user_id = _owner_id AND message_id IS NOT NULL;
+
+      UPDATE message_attachments
+      SET message_id = _user_message.id
+      WHERE id = ANY(_attachment_ids) AND user_id = _owner_id AND message_id IS NULL;
+    END IF;
+
+    SELECT COALESCE(jsonb_agg(to_jsonb(a) - 'extracted_text' ORDER BY a.created_at), '[]'::jsonb)
+    INTO _attachments
+    FROM message_attachments a
+    WHERE a.message_id = _user_message.id;
+  END IF;
+
+  -- Make sure the reply sorts after the user turn even within the same transaction
+  INSERT INTO messages (chat_id, parent_id, role, content, truncated, sources, created_at)
+  VALUES (_chat_id, _reply_parent_id, 'assistant', _assistant_content, _truncated, _sources, clock_timestamp())
+  RETURNING * INTO _assistant_message;
+
+  -- Bump the chat in the sidebar
+  UPDATE chats SET updated_at = now() WHERE id = _chat_id;
+
+  RETURN jsonb_build_object(
+    'user_message', CASE
+      WHEN _user_content IS NOT NULL THEN to_jsonb(_user_message) || jsonb_build_object('attachments', _attachments)
+    END,
+    'assistant_message', to_jsonb(_assistant_message) || jsonb_build_object('attachments', '[]'::jsonb)
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.save_chat_exchange(uuid, uuid, text, uuid[], text, boolean, jsonb) FROM PUBLIC, anon, authenticated;
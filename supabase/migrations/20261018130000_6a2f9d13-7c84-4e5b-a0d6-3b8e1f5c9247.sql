@@ -0,0 +1,48 @@
+-- Long-term memory: facts about the user that are added to the system prompt of
+-- every chat. The assistant proposes memories from user turns; they only take
+-- effect once the user confirms them. Dismissed proposals are kept so the same
+-- fact isn't proposed again.
+CREATE TABLE public.user_memories (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  content TEXT NOT NULL CHECK (char_length(content) BETWEEN 1 AND 500),
+  status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'proposed', 'dismissed')),
+  -- The user turn a proposed memory was drawn from
+  source_message_id UUID REFERENCES public.messages(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_user_memories_user_id ON public.user_memories(user_id);
+
+ALTER TABLE public.user_memories ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own memories"
+ON public.user_memories
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create own memories"
+ON public.user_memories
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own memories"
+ON public.user_memories
+FOR UPDATE
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own memories"
+ON public.user_memories
+FOR DELETE
+USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_user_memories_updated_at
+BEFORE UPDATE ON public.user_memories
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Proposals are written by the chat function after the reply; the client picks
+-- them up through realtime
+ALTER PUBLICATION supabase_realtime ADD TABLE public.user_memories;
@@ -0,0 +1,80 @@
+-- Full-text search over chat titles and message contents.
+-- The russian configuration stems Cyrillic words with the Russian stemmer and Latin
+-- words with the English one. Postgres ships no Ukrainian stemmer, so the simple
+-- configuration is added on top to match Ukrainian (and any other) words as written.
+CREATE OR REPLACE FUNCTION public.search_document(_text text)
+RETURNS tsvector
+LANGUAGE sql
+IMMUTABLE
+PARALLEL SAFE
+AS $$
+  SELECT to_tsvector('russian'::regconfig, coalesce(_text, ''))
+    || to_tsvector('simple'::regconfig, coalesce(_text, ''));
+$$;
+
+CREATE OR REPLACE FUNCTION public.search_query(_query text)
+RETURNS tsquery
+LANGUAGE sql
+IMMUTABLE
+PARALLEL SAFE
+AS $$
+  SELECT websearch_to_tsquery('russian'::regconfig, _query)
+    || websearch_to_tsquery('simple'::regconfig, _query);
+$$;
+
+CREATE INDEX idx_messages_search ON public.messages USING gin (public.search_document(content));
+CREATE INDEX idx_chats_search ON public.chats USING gin (public.search_document(title));
+
+-- Chats whose title matches come first (message_id is NULL), then matching
+-- messages by rank. Snippets mark matches with <mark></mark>; they are not HTML
+-- escaped. Runs with the caller's rights, so RLS limits results to their own chats.
+CREATE OR REPLACE FUNCTION public.search_chats(_query text, _limit integer DEFAULT 30)
+RETURNS TABLE (
+  chat_id uuid,
+  chat_title text,
+  message_id uuid,
+  role text,
+  snippet text,
+  created_at timestamp with time zone,
+  rank real
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  WITH q AS (
+    SELECT public.search_query(_query) AS query
+  ),
+  chat_hits AS (
+    SELECT c.id AS chat_id, c.title AS chat_title, NULL::uuid AS message_id, NULL::text AS role,
+      c.title AS body, c.updated_at AS created_at,
+      ts_rank(public.search_document(c.title), q.query) AS rank
+    FROM chats c, q
+    WHERE c.user_id = auth.uid()
+      AND public.search_document(c.title) @@ q.query
+    ORDER BY rank DESC, c.updated_at DESC
+    LIMIT _limit
+  ),
+  message_hits AS (
+    SELECT m.chat_id, c.title AS chat_title, m.id AS message_id, m.role,
+      m.content AS body, m.created_at,
+      ts_rank(public.search_document(m.content), q.query) AS rank
+    FROM messages m
+    JOIN chats c ON c.id = m.chat_id, q
+    WHERE c.user_id = auth.uid()
+      AND public.search_document(m.content) @@ q.query
+    ORDER BY rank DESC, m.created_at DESC
+    LIMIT _limit
+  )
+  SELECT h.chat_id, h.chat_title, h.message_id, h.role,
+    ts_headline('russian', h.body, q.query,
+      'StartSel=<mark>, StopSel=</mark>, MaxWords=24, MinWords=8, MaxFragments=2, FragmentDelimiter=" … "'),
+    h.created_at, h.rank
+  FROM (
+    SELECT * FROM chat_hits
+    UNION ALL
+    SELECT * FROM message_hits
+  ) h, q
+  ORDER BY h.message_id IS NOT NULL, h.rank DESC, h.created_at DESC;
+$$;
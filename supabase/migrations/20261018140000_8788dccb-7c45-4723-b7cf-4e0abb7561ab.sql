@@ -0,0 +1,138 @@
+-- Sidebar organization: folders (nestable one level), pinned chats and colour tags.
+
+CREATE TABLE public.chat_folders (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  name TEXT NOT NULL CHECK (char_length(name) BETWEEN 1 AND 100),
+  parent_id UUID REFERENCES public.chat_folders(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_chat_folders_user_id ON public.chat_folders(user_id);
+
+ALTER TABLE public.chat_folders ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own folders" ON public.chat_folders
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create own folders" ON public.chat_folders
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own folders" ON public.chat_folders
+  FOR UPDATE USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own folders" ON public.chat_folders
+  FOR DELETE USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_chat_folders_updated_at
+  BEFORE UPDATE ON public.chat_folders
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- A subfolder's parent must be a top-level folder of the same user, and a folder
+-- with subfolders can't become a subfolder itself
+CREATE OR REPLACE FUNCTION public.validate_chat_folder()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.parent_id IS NOT NULL THEN
+    IF NOT EXISTS (
+      SELECT 1 FROM chat_folders
+      WHERE id = NEW.parent_id AND user_id = NEW.user_id AND parent_id IS NULL AND id <> NEW.id
+    ) THEN
+      RAISE EXCEPTION 'Folders can only be nested one level deep';
+    END IF;
+
+    IF EXISTS (SELECT 1 FROM chat_folders WHERE parent_id = NEW.id) THEN
+      RAISE EXCEPTION 'Folders can only be nested one level deep';
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER validate_chat_folder
+  BEFORE INSERT OR UPDATE OF parent_id ON public.chat_folders
+  FOR EACH ROW EXECUTE FUNCTION public.validate_chat_folder();
+
+-- Chats of a deleted folder fall back to the unfiled list
+ALTER TABLE public.chats
+ADD COLUMN folder_id UUID REFERENCES public.chat_folders(id) ON DELETE SET NULL,
+ADD COLUMN pinned_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX idx_chats_folder_id ON public.chats(folder_id);
+
+CREATE OR REPLACE FUNCTION public.validate_chat_folder_owner()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.folder_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM chat_folders WHERE id = NEW.folder_id AND user_id = NEW.user_id
+  ) THEN
+    RAISE EXCEPTION 'Folder not found';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER validate_chat_folder_owner
+  BEFORE INSERT OR UPDATE OF folder_id ON public.chats
+  FOR EACH ROW EXECUTE FUNCTION public.validate_chat_folder_owner();
+
+CREATE TABLE public.chat_tags (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  name TEXT NOT NULL CHECK (char_length(name) BETWEEN 1 AND 50),
+  color TEXT NOT NULL DEFAULT 'blue'
+    CHECK (color IN ('red', 'orange', 'yellow', 'green', 'blue', 'purple', 'pink', 'gray')),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (user_id, name)
+);
+
+ALTER TABLE public.chat_tags ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own tags" ON public.chat_tags
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create own tags" ON public.chat_tags
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own tags" ON public.chat_tags
+  FOR UPDATE USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own tags" ON public.chat_tags
+  FOR DELETE USING (auth.uid() = user_id);
+
+CREATE TABLE public.chat_tag_assignments (
+  chat_id UUID NOT NULL REFERENCES public.chats(id) ON DELETE CASCADE,
+  tag_id UUID NOT NULL REFERENCES public.chat_tags(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (chat_id, tag_id)
+);
+
+CREATE INDEX idx_chat_tag_assignments_tag_id ON public.chat_tag_assignments(tag_id);
+
+ALTER TABLE public.chat_tag_assignments ENABLE ROW LEVEL SECURITY;
+
+-- Both the chat and the tag must belong to the user
+CREATE POLICY "Users can view own tag assignments" ON public.chat_tag_assignments
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM public.chats WHERE chats.id = chat_tag_assignments.chat_id AND chats.user_id = auth.uid())
+  );
+
+CREATE POLICY "Users can create own tag assignments" ON public.chat_tag_assignments
+  FOR INSERT WITH CHECK (
+    EXISTS (SELECT 1 FROM public.chats WHERE chats.id = chat_tag_assignments.chat_id AND chats.user_id = auth.uid())
+    AND EXISTS (SELECT 1 FROM public.chat_tags WHERE chat_tags.id = chat_tag_assignments.tag_id AND chat_tags.user_id = auth.uid())
+  );
+
+CREATE POLICY "Users can delete own tag assignments" ON public.chat_tag_assignments
+  FOR DELETE USING (
+    EXISTS (SELECT 1 FROM public.chats WHERE chats.id = chat_tag_assignments.chat_id AND chats.user_id = auth.uid())
+  );
@@ -0,0 +1,9 @@
+-- Imported chats remember where they came from, so importing the same export twice
+-- can be detected: import_source is 'chatgpt' or 'thetai', import_id the
+-- conversation id in that source.
+ALTER TABLE public.chats
+ADD COLUMN import_source TEXT CHECK (import_source IN ('chatgpt', 'thetai')),
+ADD COLUMN import_id TEXT;
+
+CREATE UNIQUE INDEX idx_chats_import ON public.chats(user_id, import_source, import_id)
+WHERE import_id IS NOT NULL;
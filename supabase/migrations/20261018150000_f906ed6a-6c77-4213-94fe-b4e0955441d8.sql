@@ -0,0 +1,102 @@
+-- Public read-only share links. A share is a snapshot of one conversation path taken
+-- when the link is created, so later messages never show up in it. Deleting the row
+-- revokes the link. Shared chats are only read by the get-shared-chat function; there
+-- is no anonymous access to the table.
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+
+CREATE TABLE public.shared_chats (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  chat_id UUID NOT NULL REFERENCES public.chats(id) ON DELETE CASCADE,
+  slug TEXT NOT NULL UNIQUE,
+  title TEXT NOT NULL,
+  -- [{ "id", "role", "content", "truncated", "sources", "created_at", "attachments": [...] }]
+  messages JSONB NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_shared_chats_chat_id ON public.shared_chats(chat_id);
+
+ALTER TABLE public.shared_chats ENABLE ROW LEVEL SECURITY;
+
+-- Links are created through share_chat
+CREATE POLICY "Users can view own shared chats" ON public.shared_chats
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own shared chats" ON public.shared_chats
+  FOR DELETE USING (auth.uid() = user_id);
+
+-- Snapshots the given messages of the caller's chat, in order, or the newest branch
+-- when _message_ids is NULL. Returns the new link's slug (24 URL-safe characters).
+CREATE OR REPLACE FUNCTION public.share_chat(_chat_id uuid, _message_ids uuid[] DEFAULT NULL)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  _title text;
+  _path uuid[];
+  _messages jsonb;
+  _slug text;
+BEGIN
+  SELECT title INTO _title FROM chats WHERE id = _chat_id AND user_id = auth.uid();
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Chat not found';
+  END IF;
+
+  IF _message_ids IS NULL THEN
+    WITH RECURSIVE branch AS (
+      (SELECT m.id, m.created_at, 1 AS depth
+       FROM messages m
+       WHERE m.chat_id = _chat_id AND m.parent_id IS NULL
+       ORDER BY m.created_at DESC
+       LIMIT 1)
+      UNION ALL
+      SELECT child.id, child.created_at, b.depth + 1
+      FROM branch b
+      CROSS JOIN LATERAL (
+        SELECT c.id, c.created_at
+        FROM messages c
+        WHERE c.parent_id = b.id
+        ORDER BY c.created_at DESC
+        LIMIT 1
+      ) child
+    )
+    SELECT array_agg(id ORDER BY depth) INTO _path FROM branch;
+  ELSE
+    _path := _message_ids;
+  END IF;
+
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+      'id', m.id,
+      'role', m.role,
+      'content', m.content,
+      'truncated', m.truncated,
+      'sources', m.sources,
+      'created_at', m.created_at,
+      'attachments', (
+        SELECT COALESCE(jsonb_agg(to_jsonb(a) - 'extracted_text' - 'user_id' ORDER BY a.created_at), '[]'::jsonb)
+        FROM message_attachments a
+        WHERE a.message_id = m.id
+      )
+    ) ORDER BY p.ord), '[]'::jsonb)
+  INTO _messages
+  FROM unnest(_path) WITH ORDINALITY AS p(id, ord)
+  JOIN messages m ON m.id = p.id AND m.chat_id = _chat_id;
+
+  IF jsonb_array_length(_messages) = 0 THEN
+    RAISE EXCEPTION 'Nothing to share';
+  END IF;
+
+  _slug := translate(encode(gen_random_bytes(18), 'base64'), '+/', '-_');
+
+  INSERT INTO shared_chats (user_id, chat_id, slug, title, messages)
+  VALUES (auth.uid(), _chat_id, _slug, _title, _messages);
+
+  RETURN _slug;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.share_chat(uuid, uuid[]) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.share_chat(uuid, uuid[]) TO authenticated;
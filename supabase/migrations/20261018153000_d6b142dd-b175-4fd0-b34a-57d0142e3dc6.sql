@@ -0,0 +1,12 @@
+-- Where a chat's title came from: 'default' until the first exchange, then 'auto' once
+-- the chat function has generated one, or 'manual' after the user renamed the chat.
+-- Generated titles only replace 'default' ones, so a manual title is never overwritten.
+ALTER TABLE public.chats
+  ADD COLUMN title_source TEXT NOT NULL DEFAULT 'default'
+    CHECK (title_source IN ('default', 'auto', 'manual'));
+
+-- Existing chats were titled by the client from their first message
+UPDATE public.chats SET title_source = 'auto';
+
+-- Generated titles arrive after the reply has been streamed; the sidebar picks them up here
+ALTER PUBLICATION supabase_realtime ADD TABLE public.chats;
@@ -0,0 +1,261 @@
+-- Roles for staff-only views. Granted by hand (e.g. from the SQL editor); nothing in
+-- the app writes this table.
+CREATE TYPE public.app_role AS ENUM ('admin');
+
+CREATE TABLE public.user_roles (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  role public.app_role NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (user_id, role)
+);
+
+ALTER TABLE public.user_roles ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own roles" ON public.user_roles
+  FOR SELECT USING (auth.uid() = user_id);
+
+-- SECURITY DEFINER so policies can check roles without recursing into user_roles' RLS
+CREATE OR REPLACE FUNCTION public.has_role(_user_id uuid, _role public.app_role)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (SELECT 1 FROM user_roles WHERE user_id = _user_id AND role = _role);
+$$;
+
+-- Persona versions: bumped whenever a model's persona prompt changes, so feedback
+-- can be compared before and after a prompt edit
+ALTER TABLE public.models
+ADD COLUMN persona_version INTEGER NOT NULL DEFAULT 1;
+
+CREATE OR REPLACE FUNCTION public.bump_persona_version()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.persona_prompt IS DISTINCT FROM OLD.persona_prompt THEN
+    NEW.persona_version := OLD.persona_version + 1;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER bump_models_persona_version
+  BEFORE UPDATE ON public.models
+  FOR EACH ROW EXECUTE FUNCTION public.bump_persona_version();
+
+-- ThetAI model (registry id) and persona version that wrote an assistant reply;
+-- NULL for user turns and for replies stored before this was recorded
+ALTER TABLE public.messages
+ADD COLUMN model TEXT,
+ADD COLUMN persona_version INTEGER;
+
+-- One rating per user and assistant reply, with an optional reason and comment
+CREATE TABLE public.message_feedback (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  message_id UUID NOT NULL REFERENCES public.messages(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL,
+  rating TEXT NOT NULL CHECK (rating IN ('up', 'down')),
+  reason TEXT CHECK (reason IN (
+    'helpful', 'accurate', 'well_written',
+    'inaccurate', 'unhelpful', 'incomplete', 'wrong_language', 'other'
+  )),
+  comment TEXT CHECK (char_length(comment) <= 1000),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (message_id, user_id)
+);
+
+CREATE INDEX idx_message_feedback_user_id ON public.message_feedback(user_id);
+
+ALTER TABLE public.message_feedback ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own feedback" ON public.message_feedback
+  FOR SELECT USING (auth.uid() = user_id);
+
+-- Only assistant replies in the user's own chats can be rated
+CREATE POLICY "Users can rate replies in own chats" ON public.message_feedback
+  FOR INSERT WITH CHECK (
+    auth.uid() = user_id AND EXISTS (
+      SELECT 1 FROM public.messages m
+      JOIN public.chats c ON c.id = m.chat_id
+      WHERE m.id = message_id AND m.role = 'assistant' AND c.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can update own feedback" ON public.message_feedback
+  FOR UPDATE USING (auth.uid() = user_id) WITH CHECK (
+    auth.uid() = user_id AND EXISTS (
+      SELECT 1 FROM public.messages m
+      JOIN public.chats c ON c.id = m.chat_id
+      WHERE m.id = message_id AND m.role = 'assistant' AND c.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can delete own feedback" ON public.message_feedback
+  FOR DELETE USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_message_feedback_updated_at
+  BEFORE UPDATE ON public.message_feedback
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Satisfaction per ThetAI model and persona version, for admins. Replies from before
+-- models were recorded are grouped under a NULL model.
+CREATE OR REPLACE FUNCTION public.feedback_summary(_since timestamptz DEFAULT NULL)
+RETURNS TABLE (
+  model text,
+  persona_version integer,
+  positive bigint,
+  negative bigint,
+  reasons jsonb,
+  last_feedback_at timestamptz
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Admins only';
+  END IF;
+
+  RETURN QUERY
+  WITH rated AS (
+    SELECT m.model, m.persona_version, f.rating, f.reason, f.updated_at
+    FROM message_feedback f
+    JOIN messages m ON m.id = f.message_id
+    WHERE _since IS NULL OR f.updated_at >= _since
+  )
+  SELECT
+    r.model,
+    r.persona_version,
+    count(*) FILTER (WHERE r.rating = 'up'),
+    count(*) FILTER (WHERE r.rating = 'down'),
+    COALESCE((
+      SELECT jsonb_object_agg(x.reason, x.n)
+      FROM (
+        SELECT r2.reason, count(*) AS n
+        FROM rated r2
+        WHERE r2.reason IS NOT NULL
+          AND r2.model IS NOT DISTINCT FROM r.model
+          AND r2.persona_version IS NOT DISTINCT FROM r.persona_version
+        GROUP BY r2.reason
+      ) x
+    ), '{}'::jsonb),
+    max(r.updated_at)
+  FROM rated r
+  GROUP BY r.model, r.persona_version
+  ORDER BY r.model NULLS LAST, r.persona_version DESC NULLS LAST;
+END;
+$$;
+
+-- Latest comments left with feedback, for admins. Only what users wrote in the
+-- feedback form is returned, not the conversation.
+CREATE OR REPLACE FUNCTION public.recent_feedback_comments(_limit integer DEFAULT 50)
+RETURNS TABLE (
+  id uuid,
+  model text,
+  persona_version integer,
+  rating text,
+  reason text,
+  comment text,
+  created_at timestamptz
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Admins only';
+  END IF;
+
+  RETURN QUERY
+  SELECT f.id, m.model, m.persona_version, f.rating, f.reason, f.comment, f.updated_at
+  FROM message_feedback f
+  JOIN messages m ON m.id = f.message_id
+  WHERE f.comment IS NOT NULL AND f.comment <> ''
+  ORDER BY f.updated_at DESC
+  LIMIT LEAST(_limit, 200);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.feedback_summary(timestamptz) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.recent_feedback_comments(integer) FROM PUBLIC, anon;
+
+-- Replies record the model and persona version that wrote them
+DROP FUNCTION IF EXISTS public.save_chat_exchange(uuid, uuid, text, uuid[], text, boolean, jsonb);
+
+CREATE OR REPLACE FUNCTION public.save_chat_exchange(
+  _chat_id uuid,
+  _parent_id uuid,
+  _user_content text,
+  _attachment_ids uuid[],
+  _assistant_content text,
+  _truncated boolean DEFAULT false,
+  _sources jsonb DEFAULT NULL,
+  _model text DEFAULT NULL,
+  _persona_version integer DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _owner_id uuid;
+  _user_message messages%ROWTYPE;
+  _assistant_message messages%ROWTYPE;
+  _reply_parent_id uuid := _parent_id;
+  _attachments jsonb := '[]'::jsonb;
+BEGIN
+  SELECT user_id INTO _owner_id FROM chats WHERE id = _chat_id;
+
+  IF _user_content IS NOT NULL THEN
+    INSERT INTO messages (chat_id, parent_id, role, content)
+    VALUES (_chat_id, _parent_id, 'user', _user_content)
+    RETURNING * INTO _user_message;
+
+    _reply_parent_id := _user_message.id;
+
+    IF _attachment_ids IS NOT NULL THEN
+      INSERT INTO message_attachments (message_id, user_id, storage_path, file_name, mime_type, kind, size_bytes, extracted_text)
+      SELECT _user_message.id, user_id, storage_path, file_name, mime_type, kind, size_bytes, extracted_text
+      FROM message_attachments
+      WHERE id = ANY(_attachment_ids) AND user_id = _owner_id AND message_id IS NOT NULL;
+
+      UPDATE message_attachments
+      SET message_id = _user_message.id
+      WHERE id = ANY(_attachment_ids) AND user_id = _owner_id AND message_id IS NULL;
+    END IF;
+
+    SELECT COALESCE(jsonb_agg(to_jsonb(a) - 'extracted_text' ORDER BY a.created_at), '[]'::jsonb)
+    INTO _attachments
+    FROM message_attachments a
+    WHERE a.message_id = _user_message.id;
+  END IF;
+
+  -- Make sure the reply sorts after the user turn even within the same transaction
+  INSERT INTO messages (chat_id, parent_id, role, content, truncated, sources, model, persona_version, created_at)
+  VALUES (_chat_id, _reply_parent_id, 'assistant', _assistant_content, _truncated, _sources, _model, _persona_version, clock_timestamp())
+  RETURNING * INTO _assistant_message;
+
+  -- Bump the chat in the sidebar
+  UPDATE chats SET updated_at = now() WHERE id = _chat_id;
+
+  RETURN jsonb_build_object(
+    'user_message', CASE
+      WHEN _user_content IS NOT NULL THEN to_jsonb(_user_message) || jsonb_build_object('attachments', _attachments)
+    END,
+    'assistant_message', to_jsonb(_assistant_message) || jsonb_build_object('attachments', '[]'::jsonb)
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.save_chat_exchange(uuid, uuid, text, uuid[], text, boolean, jsonb, text, integer) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,63 @@
+-- Public links to a single artifact (an HTML page, SVG, diagram or React component
+-- from an assistant reply). Like shared_chats, a link is a snapshot of one version
+-- and deleting the row revokes it; only the get-shared-artifact function reads it.
+CREATE TABLE public.shared_artifacts (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  chat_id UUID NOT NULL REFERENCES public.chats(id) ON DELETE CASCADE,
+  message_id UUID NOT NULL REFERENCES public.messages(id) ON DELETE CASCADE,
+  slug TEXT NOT NULL UNIQUE,
+  title TEXT,
+  kind TEXT NOT NULL CHECK (kind IN ('html', 'svg', 'mermaid', 'react')),
+  content TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_shared_artifacts_chat_id ON public.shared_artifacts(chat_id);
+
+ALTER TABLE public.shared_artifacts ENABLE ROW LEVEL SECURITY;
+
+-- Links are created through share_artifact
+CREATE POLICY "Users can view own shared artifacts" ON public.shared_artifacts
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own shared artifacts" ON public.shared_artifacts
+  FOR DELETE USING (auth.uid() = user_id);
+
+-- Shares an artifact version from an assistant reply in the caller's chat. The
+-- content has to appear in that reply, so only what the model wrote can be shared.
+-- Returns the new link's slug.
+CREATE OR REPLACE FUNCTION public.share_artifact(_message_id uuid, _kind text, _title text, _content text)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  _chat_id uuid;
+  _slug text;
+BEGIN
+  SELECT m.chat_id INTO _chat_id
+  FROM messages m
+  JOIN chats c ON c.id = m.chat_id
+  WHERE m.id = _message_id
+    AND m.role = 'assistant'
+    AND c.user_id = auth.uid()
+    AND length(_content) > 0
+    AND strpos(m.content, _content) > 0;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Artifact not found';
+  END IF;
+
+  _slug := translate(encode(gen_random_bytes(18), 'base64'), '+/', '-_');
+
+  INSERT INTO shared_artifacts (user_id, chat_id, message_id, slug, title, kind, content)
+  VALUES (auth.uid(), _chat_id, _message_id, _slug, left(_title, 200), _kind, _content);
+
+  RETURN _slug;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.share_artifact(uuid, text, text, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.share_artifact(uuid, text, text, text) TO authenticated;
@@ -0,0 +1,223 @@
+-- Compare mode: one prompt answered by two or three models side by side. The answers
+-- wait in model_comparisons until the user picks one; only the winner becomes an
+-- assistant message and continues the chat, and the pick is kept as a preference.
+CREATE TABLE public.model_comparisons (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  chat_id UUID NOT NULL REFERENCES public.chats(id) ON DELETE CASCADE,
+  user_message_id UUID NOT NULL REFERENCES public.messages(id) ON DELETE CASCADE,
+  -- [{ "model", "persona_version", "content", "truncated", "failed" }], in column order
+  answers JSONB NOT NULL,
+  -- Knowledge base excerpts the answers drew on, passed on to the picked reply
+  sources JSONB,
+  winner_index INTEGER,
+  winner_model TEXT,
+  winner_message_id UUID REFERENCES public.messages(id) ON DELETE SET NULL,
+  chosen_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_model_comparisons_chat_id ON public.model_comparisons(chat_id);
+CREATE INDEX idx_model_comparisons_winner_model ON public.model_comparisons(winner_model) WHERE winner_model IS NOT NULL;
+
+ALTER TABLE public.model_comparisons ENABLE ROW LEVEL SECURITY;
+
+-- Written by the chat function and choose_comparison_answer only
+CREATE POLICY "Users can view own comparisons" ON public.model_comparisons
+  FOR SELECT USING (auth.uid() = user_id);
+
+-- A compared prompt is stored before any reply exists, so the reply is optional
+CREATE OR REPLACE FUNCTION public.save_chat_exchange(
+  _chat_id uuid,
+  _parent_id uuid,
+  _user_content text,
+  _attachment_ids uuid[],
+  _assistant_content text,
+  _truncated boolean DEFAULT false,
+  _sources jsonb DEFAULT NULL,
+  _model text DEFAULT NULL,
+  _persona_version integer DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _owner_id uuid;
+  _user_message messages%ROWTYPE;
+  _assistant_message messages%ROWTYPE;
+  _reply_parent_id uuid := _parent_id;
+  _attachments jsonb := '[]'::jsonb;
+BEGIN
+  SELECT user_id INTO _owner_id FROM chats WHERE id = _chat_id;
+
+  IF _user_content IS NOT NULL THEN
+    INSERT INTO messages (chat_id, parent_id, role, content)
+    VALUES (_chat_id, _parent_id, 'user', _user_content)
+    RETURNING * INTO _user_message;
+
+    _reply_parent_id := _user_message.id;
+
+    IF _attachment_ids IS NOT NULL THEN
+      INSERT INTO message_attachments (message_id, user_id, storage_path, file_name, mime_type, kind, size_bytes, extracted_text)
+      SELECT _user_message.id, user_id, storage_path, file_name, mime_type, kind, size_bytes, extracted_text
+      FROM message_attachments
+      WHERE id = ANY(_attachment_ids) AND user_id = _owner_id AND message_id IS NOT NULL;
+
+      UPDATE message_attachments
+      SET message_id = _user_message.id
+      WHERE id = ANY(_attachment_ids) AND user_id = _owner_id AND message_id IS NULL;
+    END IF;
+
+    SELECT COALESCE(jsonb_agg(to_jsonb(a) - 'extracted_text' ORDER BY a.created_at), '[]'::jsonb)
+    INTO _attachments
+    FROM message_attachments a
+    WHERE a.message_id = _user_message.id;
+  END IF;
+
+  IF _assistant_content IS NOT NULL THEN
+    -- Make sure the reply sorts after the user turn even within the same transaction
+    INSERT INTO messages (chat_id, parent_id, role, content, truncated, sources, model, persona_version, created_at)
+    VALUES (_chat_id, _reply_parent_id, 'assistant', _assistant_content, _truncated, _sources, _model, _persona_version, clock_timestamp())
+    RETURNING * INTO _assistant_message;
+  END IF;
+
+  -- Bump the chat in the sidebar
+  UPDATE chats SET updated_at = now() WHERE id = _chat_id;
+
+  RETURN jsonb_build_object(
+    'user_message', CASE
+      WHEN _user_content IS NOT NULL THEN to_jsonb(_user_message) || jsonb_build_object('attachments', _attachments)
+    END,
+    'assistant_message', CASE
+      WHEN _assistant_content IS NOT NULL THEN to_jsonb(_assistant_message) || jsonb_build_object('attachments', '[]'::jsonb)
+    END
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.save_chat_exchange(uuid, uuid, text, uuid[], text, boolean, jsonb, text, integer) FROM PUBLIC, anon, authenticated;
+
+-- Makes the picked answer the reply to the compared prompt and records the pick.
+-- Returns the new assistant message.
+CREATE OR REPLACE FUNCTION public.choose_comparison_answer(_comparison_id uuid, _index integer)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _comparison model_comparisons%ROWTYPE;
+  _answer jsonb;
+  _message messages%ROWTYPE;
+BEGIN
+  SELECT * INTO _comparison
+  FROM model_comparisons
+  WHERE id = _comparison_id AND user_id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Comparison not found';
+  END IF;
+
+  IF _comparison.winner_index IS NOT NULL THEN
+    RAISE EXCEPTION 'Answer already chosen';
+  END IF;
+
+  -- A negative index would count from the end of the array
+  IF _index < 0 OR _index >= jsonb_array_length(_comparison.answers) THEN
+    RAISE EXCEPTION 'Answer not found';
+  END IF;
+
+  _answer := _comparison.answers -> _index;
+  IF _answer IS NULL OR COALESCE((_answer->>'failed')::boolean, false) THEN
+    RAISE EXCEPTION 'Answer not found';
+  END IF;
+
+  INSERT INTO messages (chat_id, parent_id, role, content, truncated, sources, model, persona_version, created_at)
+  VALUES (
+    _comparison.chat_id,
+    _comparison.user_message_id,
+    'assistant',
+    _answer->>'content',
+    COALESCE((_answer->>'truncated')::boolean, false),
+    _comparison.sources,
+    _answer->>'model',
+    (_answer->>'persona_version')::integer,
+    clock_timestamp()
+  )
+  RETURNING * INTO _message;
+
+  UPDATE model_comparisons
+  SET winner_index = _index,
+      winner_model = _answer->>'model',
+      winner_message_id = _message.id,
+      chosen_at = now()
+  WHERE id = _comparison_id;
+
+  UPDATE chats SET updated_at = now() WHERE id = _comparison.chat_id;
+
+  RETURN to_jsonb(_message) || jsonb_build_object('attachments', '[]'::jsonb);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.choose_comparison_answer(uuid, integer) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.choose_comparison_answer(uuid, integer) TO authenticated;
+
+-- A compared prompt is charged for every answer by its model's cost_weight (_cost);
+-- a normal reply still counts as one message
+DROP FUNCTION IF EXISTS public.increment_message_usage(uuid, boolean);
+
+CREATE OR REPLACE FUNCTION public.increment_message_usage(_user_id uuid, _has_image boolean DEFAULT false, _cost integer DEFAULT 1)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _limits jsonb;
+BEGIN
+  -- Check and reset if needed
+  PERFORM public.check_and_reset_usage(_user_id);
+
+  -- Get current limits
+  _limits := public.get_user_limits(_user_id);
+
+  -- Check if within limits
+  IF (_limits->>'messages_remaining')::integer < GREATEST(_cost, 1) THEN
+    RETURN jsonb_build_object('allowed', false, 'reason', 'messages_limit');
+  END IF;
+
+  IF _has_image AND (_limits->>'images_prompt_remaining')::integer <= 0 THEN
+    RETURN jsonb_build_object('allowed', false, 'reason', 'images_prompt_limit');
+  END IF;
+
+  -- Increment usage
+  UPDATE public.profiles
+  SET messages_used = messages_used + GREATEST(_cost, 1),
+      images_in_prompts_used = CASE WHEN _has_image THEN images_in_prompts_used + 1 ELSE images_in_prompts_used END
+  WHERE id = _user_id;
+
+  RETURN jsonb_build_object('allowed', true);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.increment_message_usage(uuid, boolean, integer) FROM PUBLIC, anon, authenticated;
+
+DROP FUNCTION IF EXISTS public.refund_message_usage(uuid);
+
+CREATE OR REPLACE FUNCTION public.refund_message_usage(_user_id uuid, _cost integer DEFAULT 1)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.profiles
+  SET messages_used = GREATEST(messages_used - GREATEST(_cost, 1), 0)
+  WHERE id = _user_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.refund_message_usage(uuid, integer) FROM PUBLIC, anon, authenticated;
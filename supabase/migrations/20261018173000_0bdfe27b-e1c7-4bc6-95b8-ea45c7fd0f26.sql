@@ -0,0 +1,7 @@
+-- Per-chat settings: a chat can carry its own model, sampling temperature and custom
+-- instructions. NULL means the profile's selected model and the provider's defaults.
+-- The chat function still re-checks Plus entitlement for the chat's model.
+ALTER TABLE public.chats
+  ADD COLUMN model TEXT REFERENCES public.models(id) ON UPDATE CASCADE ON DELETE SET NULL,
+  ADD COLUMN temperature REAL CHECK (temperature IS NULL OR (temperature >= 0 AND temperature <= 2)),
+  ADD COLUMN custom_instructions TEXT CHECK (custom_instructions IS NULL OR char_length(custom_instructions) <= 4000);
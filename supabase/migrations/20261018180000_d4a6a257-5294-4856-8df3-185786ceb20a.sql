@@ -0,0 +1,299 @@
+-- Token metering: every reply records the prompt and completion tokens it used, and a
+-- usage_events ledger keeps one row per model call. Limits move from hard-coded values
+-- to usage_limits, where each tier is metered by messages, tokens or credits (tokens
+-- weighted by the model's cost_weight, 1 credit = 1000 tokens at weight 1).
+ALTER TABLE public.messages
+ADD COLUMN prompt_tokens INTEGER,
+ADD COLUMN completion_tokens INTEGER;
+
+ALTER TABLE public.profiles
+ADD COLUMN tokens_used BIGINT NOT NULL DEFAULT 0,
+ADD COLUMN credits_used NUMERIC NOT NULL DEFAULT 0;
+
+CREATE TABLE public.usage_events (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  chat_id UUID REFERENCES public.chats(id) ON DELETE SET NULL,
+  message_id UUID REFERENCES public.messages(id) ON DELETE SET NULL,
+  -- Set for the answers of a compared prompt; message_id follows once one is picked
+  comparison_id UUID REFERENCES public.model_comparisons(id) ON DELETE SET NULL,
+  model TEXT NOT NULL,
+  prompt_tokens INTEGER NOT NULL DEFAULT 0 CHECK (prompt_tokens >= 0),
+  completion_tokens INTEGER NOT NULL DEFAULT 0 CHECK (completion_tokens >= 0),
+  credits NUMERIC NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_usage_events_user_id_created_at ON public.usage_events(user_id, created_at DESC);
+
+ALTER TABLE public.usage_events ENABLE ROW LEVEL SECURITY;
+
+-- Written by the chat function through record_usage_event only
+CREATE POLICY "Users can view own usage events" ON public.usage_events
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE TABLE public.usage_limits (
+  tier TEXT PRIMARY KEY CHECK (tier IN ('free', 'plus')),
+  -- What the 6-hour chat limit is enforced on; the other counters are still reported
+  metric TEXT NOT NULL DEFAULT 'messages' CHECK (metric IN ('messages', 'tokens', 'credits')),
+  messages_limit INTEGER NOT NULL,
+  tokens_limit INTEGER NOT NULL,
+  credits_limit NUMERIC NOT NULL,
+  images_prompt_limit INTEGER NOT NULL,
+  images_gen_limit INTEGER NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.usage_limits ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view usage limits" ON public.usage_limits
+  FOR SELECT USING (true);
+
+CREATE TRIGGER update_usage_limits_updated_at
+  BEFORE UPDATE ON public.usage_limits
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Same limits as before, still metered by messages
+INSERT INTO public.usage_limits (tier, metric, messages_limit, tokens_limit, credits_limit, images_prompt_limit, images_gen_limit)
+VALUES
+  ('free', 'messages', 50, 150000, 150, 10, 5),
+  ('plus', 'messages', 1000, 3000000, 3000, 100, 15);
+
+CREATE OR REPLACE FUNCTION public.check_and_reset_usage(_user_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _usage_reset_at TIMESTAMP WITH TIME ZONE;
+  _image_gen_reset_at TIMESTAMP WITH TIME ZONE;
+BEGIN
+  SELECT usage_reset_at, image_gen_reset_at INTO _usage_reset_at, _image_gen_reset_at
+  FROM public.profiles WHERE id = _user_id;
+
+  -- Reset 6-hour usage if needed
+  IF _usage_reset_at < now() - interval '6 hours' THEN
+    UPDATE public.profiles
+    SET messages_used = 0,
+        tokens_used = 0,
+        credits_used = 0,
+        images_in_prompts_used = 0,
+        usage_reset_at = now()
+    WHERE id = _user_id;
+  END IF;
+
+  -- Reset daily image generation if needed
+  IF _image_gen_reset_at < now() - interval '24 hours' THEN
+    UPDATE public.profiles
+    SET images_generated_today = 0,
+        image_gen_reset_at = now()
+    WHERE id = _user_id;
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_user_limits(_user_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _profile profiles%ROWTYPE;
+  _limits usage_limits%ROWTYPE;
+BEGIN
+  -- First reset if needed
+  PERFORM public.check_and_reset_usage(_user_id);
+
+  SELECT * INTO _profile FROM public.profiles WHERE id = _user_id;
+
+  SELECT * INTO _limits
+  FROM public.usage_limits
+  WHERE tier = CASE WHEN _profile.is_plus THEN 'plus' ELSE 'free' END;
+
+  RETURN jsonb_build_object(
+    'is_plus', _profile.is_plus,
+    'metric', _limits.metric,
+    'messages_used', _profile.messages_used,
+    'messages_limit', _limits.messages_limit,
+    'messages_remaining', _limits.messages_limit - _profile.messages_used,
+    'tokens_used', _profile.tokens_used,
+    'tokens_limit', _limits.tokens_limit,
+    'tokens_remaining', _limits.tokens_limit - _profile.tokens_used,
+    'credits_used', round(_profile.credits_used, 2),
+    'credits_limit', _limits.credits_limit,
+    'credits_remaining', round(_limits.credits_limit - _profile.credits_used, 2),
+    'images_in_prompts_used', _profile.images_in_prompts_used,
+    'images_prompt_limit', _limits.images_prompt_limit,
+    'images_prompt_remaining', _limits.images_prompt_limit - _profile.images_in_prompts_used,
+    'images_generated_today', _profile.images_generated_today,
+    'images_gen_limit', _limits.images_gen_limit,
+    'images_gen_remaining', _limits.images_gen_limit - _profile.images_generated_today,
+    'usage_resets_at', _profile.usage_reset_at + interval '6 hours',
+    'image_gen_resets_at', _profile.image_gen_reset_at + interval '24 hours'
+  );
+END;
+$$;
+
+-- Messages are always counted; the limit is checked on the tier's metric. Tokens and
+-- credits are only known after the reply, so those limits stop the next prompt once
+-- they run out.
+CREATE OR REPLACE FUNCTION public.increment_message_usage(_user_id uuid, _has_image boolean DEFAULT false, _cost integer DEFAULT 1)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _limits jsonb;
+  _metric text;
+BEGIN
+  -- Check and reset if needed
+  PERFORM public.check_and_reset_usage(_user_id);
+
+  -- Get current limits
+  _limits := public.get_user_limits(_user_id);
+  _metric := _limits->>'metric';
+
+  -- Check if within limits
+  IF _metric = 'messages' AND (_limits->>'messages_remaining')::integer < GREATEST(_cost, 1) THEN
+    RETURN jsonb_build_object('allowed', false, 'reason', 'messages_limit');
+  END IF;
+
+  IF _metric = 'tokens' AND (_limits->>'tokens_remaining')::bigint <= 0 THEN
+    RETURN jsonb_build_object('allowed', false, 'reason', 'tokens_limit');
+  END IF;
+
+  IF _metric = 'credits' AND (_limits->>'credits_remaining')::numeric <= 0 THEN
+    RETURN jsonb_build_object('allowed', false, 'reason', 'credits_limit');
+  END IF;
+
+  IF _has_image AND (_limits->>'images_prompt_remaining')::integer <= 0 THEN
+    RETURN jsonb_build_object('allowed', false, 'reason', 'images_prompt_limit');
+  END IF;
+
+  -- Increment usage
+  UPDATE public.profiles
+  SET messages_used = messages_used + GREATEST(_cost, 1),
+      images_in_prompts_used = CASE WHEN _has_image THEN images_in_prompts_used + 1 ELSE images_in_prompts_used END
+  WHERE id = _user_id;
+
+  RETURN jsonb_build_object('allowed', true);
+END;
+$$;
+
+-- Books the tokens of one model call: a ledger row, the user's token and credit
+-- counters, and the counts on the reply it produced (if stored yet). Tokens of
+-- stopped replies were spent all the same and are not refunded.
+CREATE OR REPLACE FUNCTION public.record_usage_event(
+  _user_id uuid,
+  _model text,
+  _prompt_tokens integer,
+  _completion_tokens integer,
+  _chat_id uuid DEFAULT NULL,
+  _message_id uuid DEFAULT NULL,
+  _comparison_id uuid DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _credits numeric;
+BEGIN
+  SELECT (GREATEST(_prompt_tokens, 0) + GREATEST(_completion_tokens, 0)) * COALESCE(MAX(cost_weight), 1) / 1000.0
+  INTO _credits
+  FROM models
+  WHERE id = _model;
+
+  INSERT INTO usage_events (user_id, chat_id, message_id, comparison_id, model, prompt_tokens, completion_tokens, credits)
+  VALUES (_user_id, _chat_id, _message_id, _comparison_id, _model, GREATEST(_prompt_tokens, 0), GREATEST(_completion_tokens, 0), _credits);
+
+  UPDATE profiles
+  SET tokens_used = tokens_used + GREATEST(_prompt_tokens, 0) + GREATEST(_completion_tokens, 0),
+      credits_used = credits_used + _credits
+  WHERE id = _user_id;
+
+  IF _message_id IS NOT NULL THEN
+    UPDATE messages
+    SET prompt_tokens = GREATEST(_prompt_tokens, 0),
+        completion_tokens = GREATEST(_completion_tokens, 0)
+    WHERE id = _message_id;
+  END IF;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.record_usage_event(uuid, text, integer, integer, uuid, uuid, uuid) FROM PUBLIC, anon, authenticated;
+
+-- The picked answer keeps the token counts it was booked with
+CREATE OR REPLACE FUNCTION public.choose_comparison_answer(_comparison_id uuid, _index integer)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _comparison model_comparisons%ROWTYPE;
+  _answer jsonb;
+  _message messages%ROWTYPE;
+BEGIN
+  SELECT * INTO _comparison
+  FROM model_comparisons
+  WHERE id = _comparison_id AND user_id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Comparison not found';
+  END IF;
+
+  IF _comparison.winner_index IS NOT NULL THEN
+    RAISE EXCEPTION 'Answer already chosen';
+  END IF;
+
+  -- A negative index would count from the end of the array
+  IF _index < 0 OR _index >= jsonb_array_length(_comparison.answers) THEN
+    RAISE EXCEPTION 'Answer not found';
+  END IF;
+
+  _answer := _comparison.answers -> _index;
+  IF _answer IS NULL OR COALESCE((_answer->>'failed')::boolean, false) THEN
+    RAISE EXCEPTION 'Answer not found';
+  END IF;
+
+  INSERT INTO messages (
+    chat_id, parent_id, role, content, truncated, sources, model, persona_version,
+    prompt_tokens, completion_tokens, created_at
+  )
+  VALUES (
+    _comparison.chat_id,
+    _comparison.user_message_id,
+    'assistant',
+    _answer->>'content',
+    COALESCE((_answer->>'truncated')::boolean, false),
+    _comparison.sources,
+    _answer->>'model',
+    (_answer->>'persona_version')::integer,
+    (_answer->>'prompt_tokens')::integer,
+    (_answer->>'completion_tokens')::integer,
+    clock_timestamp()
+  )
+  RETURNING * INTO _message;
+
+  UPDATE model_comparisons
+  SET winner_index = _index,
+      winner_model = _answer->>'model',
+      winner_message_id = _message.id,
+      chosen_at = now()
+  WHERE id = _comparison_id;
+
+  UPDATE usage_events
+  SET message_id = _message.id
+  WHERE comparison_id = _comparison_id AND model = _answer->>'model';
+
+  UPDATE chats SET updated_at = now() WHERE id = _comparison.chat_id;
+
+  RETURN to_jsonb(_message) || jsonb_build_object('attachments', '[]'::jsonb);
+END;
+$$;
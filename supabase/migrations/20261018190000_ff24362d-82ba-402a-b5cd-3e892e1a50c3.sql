@@ -0,0 +1,93 @@
+-- Stopping a reply is an explicit request: the client moves stop_requested_at on and
+-- the chat function, which watches it while generating, cancels the upstream call.
+-- A dropped connection no longer stops anything; the reply is stored in full.
+ALTER TABLE public.chats
+ADD COLUMN stop_requested_at TIMESTAMP WITH TIME ZONE;
+
+-- Stopped replies give back the unused part of their message charge, so the counter
+-- holds fractions of a message
+ALTER TABLE public.profiles
+ALTER COLUMN messages_used TYPE NUMERIC;
+
+CREATE OR REPLACE FUNCTION public.increment_message_usage(_user_id uuid, _has_image boolean DEFAULT false, _cost integer DEFAULT 1)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _limits jsonb;
+  _metric text;
+BEGIN
+  -- Check and reset if needed
+  PERFORM public.check_and_reset_usage(_user_id);
+
+  -- Get current limits
+  _limits := public.get_user_limits(_user_id);
+  _metric := _limits->>'metric';
+
+  -- Check if within limits
+  IF _metric = 'messages' AND (_limits->>'messages_remaining')::numeric < GREATEST(_cost, 1) THEN
+    RETURN jsonb_build_object('allowed', false, 'reason', 'messages_limit');
+  END IF;
+
+  IF _metric = 'tokens' AND (_limits->>'tokens_remaining')::bigint <= 0 THEN
+    RETURN jsonb_build_object('allowed', false, 'reason', 'tokens_limit');
+  END IF;
+
+  IF _metric = 'credits' AND (_limits->>'credits_remaining')::numeric <= 0 THEN
+    RETURN jsonb_build_object('allowed', false, 'reason', 'credits_limit');
+  END IF;
+
+  IF _has_image AND (_limits->>'images_prompt_remaining')::integer <= 0 THEN
+    RETURN jsonb_build_object('allowed', false, 'reason', 'images_prompt_limit');
+  END IF;
+
+  -- Increment usage
+  UPDATE public.profiles
+  SET messages_used = messages_used + GREATEST(_cost, 1),
+      images_in_prompts_used = CASE WHEN _has_image THEN images_in_prompts_used + 1 ELSE images_in_prompts_used END
+  WHERE id = _user_id;
+
+  RETURN jsonb_build_object('allowed', true);
+END;
+$$;
+
+DROP FUNCTION IF EXISTS public.refund_message_usage(uuid, integer);
+
+-- Gives back the part of a message charge a stopped answer didn't use. One message is
+-- worth tokens_limit / messages_limit completion tokens of the user's tier; what the
+-- answer generated stays charged, up to the full cost. An answer that generated
+-- nothing (or a compared model that failed) is refunded in full. The tokens themselves
+-- are booked by record_usage_event either way.
+CREATE OR REPLACE FUNCTION public.refund_message_usage(
+  _user_id uuid,
+  _cost integer DEFAULT 1,
+  _completion_tokens integer DEFAULT 0
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _limits usage_limits%ROWTYPE;
+  _used numeric;
+BEGIN
+  SELECT l.* INTO _limits
+  FROM profiles p
+  JOIN usage_limits l ON l.tier = CASE WHEN p.is_plus THEN 'plus' ELSE 'free' END
+  WHERE p.id = _user_id;
+
+  _used := LEAST(
+    COALESCE(GREATEST(_completion_tokens, 0)::numeric * _limits.messages_limit / NULLIF(_limits.tokens_limit, 0), 0),
+    1
+  );
+
+  UPDATE public.profiles
+  SET messages_used = GREATEST(messages_used - GREATEST(_cost, 1) * (1 - _used), 0)
+  WHERE id = _user_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.refund_message_usage(uuid, integer, integer) FROM PUBLIC, anon, authenticated;
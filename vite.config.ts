@@ -1,18 +1,55 @@
-import { defineConfig } from "vite";
+import { defineConfig, type Plugin } from "vite";
 import react from "@vitejs/plugin-react-swc";
 import path from "path";
+import fs from "fs";
 import { componentTagger } from "lovable-tagger";
 
+// The Pyodide runtime for the Python code runner, served from /pyodide/ in
+// development and copied there in builds. Its packages come from the Pyodide CDN.
+const PYODIDE_FILES = ["pyodide.asm.js", "pyodide.asm.wasm", "python_stdlib.zip", "pyodide-lock.json"];
+
+function pyodideAssets(): Plugin {
+  const pyodideDir = path.resolve(__dirname, "./node_modules/pyodide");
+  return {
+    name: "pyodide-assets",
+    configureServer(server) {
+      server.middlewares.use("/pyodide", (req, res, next) => {
+        const file = req.url?.split("?")[0].replace(/^\//, "");
+        if (!file || !PYODIDE_FILES.includes(file)) return next();
+        if (file.endsWith(".wasm")) res.setHeader("Content-Type", "application/wasm");
+        else if (file.endsWith(".js")) res.setHeader("Content-Type", "text/javascript");
+        fs.createReadStream(path.join(pyodideDir, file)).pipe(res);
+      });
+    },
+    generateBundle() {
+      for (const file of PYODIDE_FILES) {
+        this.emitFile({
+          type: "asset",
+          fileName: `pyodide/${file}`,
+          source: fs.readFileSync(path.join(pyodideDir, file)),
+        });
+      }
+    },
+  };
+}
+
 // https://vitejs.dev/config/
 export default defineConfig(({ mode }) => ({
   server: {
     host: "::",
     port: 8080,
   },
-  plugins: [react(), mode === "development" && componentTagger()].filter(Boolean),
+  plugins: [react(), pyodideAssets(), mode === "development" && componentTagger()].filter(Boolean),
   resolve: {
     alias: {
       "@": path.resolve(__dirname, "./src"),
     },
   },
+  // Pyodide locates its runtime files itself and mustn't be pre-bundled
+  optimizeDeps: {
+    exclude: ["pyodide"],
+  },
+  worker: {
+    format: "es",
+  },
 }));